@@ -2,17 +2,123 @@
  * Main App component with controls and canvas layout
  */
 
-import { useRef, useCallback, useState } from 'react';
-import { useKnitStore } from './state/useKnitStore';
+import { useRef, useCallback, useState, useMemo, useEffect } from 'react';
+import { useKnitStore, selectActivePalette, selectAspectRatio, selectCanUndo, selectCanRedo } from './state/useKnitStore';
 import { KnitCanvas } from './canvas/KnitCanvas';
-import { exportPNG, exportGIF, exportMP4 } from './lib/export';
-import type { KnitParams } from './types';
+import { CropOverlay } from './canvas/CropOverlay';
+import { PaletteEditor } from './components/PaletteEditor';
+import { PresetPanel } from './components/PresetPanel';
+import { GlyphMappingControls } from './components/GlyphMappingControls';
+import { CellEditControls } from './components/CellEditControls';
+import { PrintExportControls } from './components/PrintExportControls';
+import { ExportProgress } from './components/ExportProgress';
+import { Toasts } from './components/Toasts';
+import {
+  exportPNG,
+  exportSVG,
+  exportChart,
+  exportGridData,
+  exportGIF,
+  exportAPNG,
+  exportWebP,
+  exportMP4,
+  exportProject,
+} from './lib/export';
+import type { AnimationOptions, FrameSequence } from './lib/export';
+import { buildKnitGrid, buildKnitGridCells, gridDimensions, paintKnitGrid, gridLineColorOver } from './lib/render';
+import { randomSeed } from './lib/random';
+import { paletteColors } from './lib/palette';
+import { ASPECT_PRESETS, EXPORT_SIZE_PRESETS, MAX_EXPORT_EDGE, exportSizeFor } from './lib/aspect';
+import { parseGridJSON } from './lib/gridData';
+import type { ImportedGrid } from './lib/gridData';
+import { applyCellOverrides } from './lib/overrides';
+import type { CellOverrides } from './lib/overrides';
+import {
+  createRenderSettings,
+  settingsChunks,
+  readEmbeddedSettings,
+  blobToDataURL,
+  dataURLToBlob,
+} from './lib/settings';
+import type { EmbeddedSettings } from './lib/settings';
+import { parseProjectJSON, DEFAULT_PROJECT_EXPORT_SETTINGS, PROJECT_EXTENSION } from './lib/project';
+import type { KnitProject } from './lib/project';
+import { loadAutosave, saveAutosave, AUTOSAVE_DELAY_MS } from './lib/autosave';
+import { shareURL } from './lib/share';
+import { abortError, isAbortError, throwIfCancelled } from './lib/exportJob';
+import type { ExportProgressCallback } from './lib/exportJob';
+import type { KnitParams, ColorMetric, DitherMode, AspectRatioPreset, ExportSizePreset, RGB, CropSettings } from './types';
 import './App.css';
 
+/**
+ * Whether keyboard focus is in a field with its own text undo
+ */
+function isTextField(target: EventTarget | null): boolean {
+  if (target instanceof HTMLTextAreaElement) return true;
+  if (target instanceof HTMLElement && target.isContentEditable) return true;
+  return target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'color', 'button'].includes(target.type);
+}
+
 export function App() {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { params, updateParam, applyPreset, setImage, image, setVideoFile, videoFile } = useKnitStore();
-  const [isExporting, setIsExporting] = useState(false);
+  const gridInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const { params, updateParam, setImage, image, setVideoFile, videoFile } = useKnitStore();
+  const aspectPreset = useKnitStore((state) => state.aspectPreset);
+  const customAspect = useKnitStore((state) => state.customAspect);
+  const setAspectRatio = useKnitStore((state) => state.setAspectRatio);
+  const aspectRatio = useKnitStore(selectAspectRatio);
+  const crop = useKnitStore((state) => state.crop);
+  const resetCrop = useKnitStore((state) => state.resetCrop);
+  const cellOverrides = useKnitStore((state) => state.cellOverrides);
+  const clearCellOverrides = useKnitStore((state) => state.clearCellOverrides);
+  const isSharedPreview = useKnitStore((state) => state.isSharedPreview);
+  const endSharedPreview = useKnitStore((state) => state.endSharedPreview);
+  const isCropping = useKnitStore((state) => state.isCropping);
+  const setIsCropping = useKnitStore((state) => state.setIsCropping);
+  const importedGrid = useKnitStore((state) => state.importedGrid);
+  const setImportedGrid = useKnitStore((state) => state.setImportedGrid);
+  const restoreSettings = useKnitStore((state) => state.restoreSettings);
+  const activePalette = useKnitStore(selectActivePalette);
+  const palette = useMemo(() => paletteColors(activePalette), [activePalette]);
+  const canvasWidth = useKnitStore((state) => state.canvasWidth);
+  const canvasHeight = useKnitStore((state) => state.canvasHeight);
+  const exportJob = useKnitStore((state) => state.exportJob);
+  const startExportJob = useKnitStore((state) => state.startExportJob);
+  const updateExportJob = useKnitStore((state) => state.updateExportJob);
+  const finishExportJob = useKnitStore((state) => state.finishExportJob);
+  const showToast = useKnitStore((state) => state.showToast);
+  const isExporting = exportJob !== null;
+  const undo = useKnitStore((state) => state.undo);
+  const redo = useKnitStore((state) => state.redo);
+  const canUndo = useKnitStore(selectCanUndo);
+  const canRedo = useKnitStore(selectCanRedo);
+  const [svgBackground, setSvgBackground] = useState(DEFAULT_PROJECT_EXPORT_SETTINGS.svgBackground);
+  const [animationLoop, setAnimationLoop] = useState(DEFAULT_PROJECT_EXPORT_SETTINGS.animationLoop);
+  const [changedRegionsOnly, setChangedRegionsOnly] = useState(DEFAULT_PROJECT_EXPORT_SETTINGS.changedRegionsOnly);
+  const [exportSizePreset, setExportSizePreset] = useState<ExportSizePreset>(
+    DEFAULT_PROJECT_EXPORT_SETTINGS.exportSizePreset
+  );
+  const [customExportWidth, setCustomExportWidth] = useState(DEFAULT_PROJECT_EXPORT_SETTINGS.customExportWidth);
+  const [embedSource, setEmbedSource] = useState(DEFAULT_PROJECT_EXPORT_SETTINGS.embedSource);
+  // Original file of the loaded image, for embedding in PNG exports and saving projects
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  // Autosave waits until the saved session has been restored, so it isn't overwritten
+  const [autosaveReady, setAutosaveReady] = useState(false);
+
+  // Exports keep the canvas aspect ratio at the chosen resolution
+  const exportSize = useMemo(
+    () => exportSizeFor(exportSizePreset, aspectRatio, customExportWidth),
+    [exportSizePreset, aspectRatio, customExportWidth]
+  );
+  // Exports keep the preview's cells; stitches and grid lines scale with the output
+  const previewCells = useMemo(
+    () => gridDimensions(canvasWidth, canvasHeight, params.stitchPx),
+    [canvasWidth, canvasHeight, params.stitchPx]
+  );
+  const exportLineWidth = Math.max(1, Math.round(exportSize.width / Math.max(1, canvasWidth)));
+  // Grid exports work from an image or an imported grid
+  const hasSource = image !== null || importedGrid !== null;
 
   /**
    * Extract a frame from video and convert to ImageBitmap
@@ -80,7 +186,53 @@ export function App() {
   }, []);
 
   /**
-   * Load image or video from file and crop to 1:1 square
+   * Offer to restore the render settings embedded in an exported PNG
+   * The PNG has already loaded as a normal image; restoring replaces it with the
+   * embedded source image, if any
+   */
+  const offerPNGRestore = useCallback(async (file: File) => {
+    let embedded: EmbeddedSettings | null;
+    try {
+      embedded = readEmbeddedSettings(new Uint8Array(await file.arrayBuffer()));
+    } catch (error) {
+      console.warn('Ignoring invalid embedded settings:', error);
+      return;
+    }
+    if (!embedded) return;
+
+    const { settings, source } = embedded;
+    const restore = async () => {
+      try {
+        if (source) {
+          const blob = dataURLToBlob(source);
+          const bitmap = await createImageBitmap(blob);
+          setVideoFile(null);
+          setSourceFile(new File([blob], 'source', { type: blob.type }));
+          setImage(bitmap);
+        }
+        restoreSettings(settings);
+      } catch (error) {
+        console.error('Failed to restore PNG settings:', error);
+        showToast('error', 'Could not restore the settings from this PNG.');
+        return;
+      }
+
+      const announcement = document.getElementById('aria-live-region');
+      if (announcement) {
+        announcement.textContent = `Settings restored from ${file.name}`;
+      }
+    };
+
+    const restored = source ? 'settings and source image' : 'settings';
+    showToast('info', `This PNG was made with Lidl Knit Grid ${settings.appVersion}. Restore its ${restored}?`, {
+      label: 'Restore',
+      run: () => void restore(),
+    });
+  }, [setImage, setVideoFile, restoreSettings, showToast]);
+
+  /**
+   * Load image or video from file
+   * The full frame is kept; rendering applies the crop, which starts centred
    */
   const loadImage = useCallback(async (file: File) => {
     try {
@@ -89,27 +241,26 @@ export function App() {
       if (file.type.startsWith('video/')) {
         // Store video file for animation
         setVideoFile(file);
+        setSourceFile(null);
         // Extract frame from video for initial display
         bitmap = await extractVideoFrame(file);
       } else {
         // Clear video file if loading an image
         setVideoFile(null);
+        setSourceFile(file);
         // Load image directly
         bitmap = await createImageBitmap(file);
       }
       
-      // Crop to square (1:1 ratio) - center crop
-      const size = Math.min(bitmap.width, bitmap.height);
-      const x = (bitmap.width - size) / 2;
-      const y = (bitmap.height - size) / 2;
-      
-      // Create a square version of the image
-      const squareBitmap = await createImageBitmap(bitmap, x, y, size, size);
-      
-      // Clean up original bitmap
-      bitmap.close();
-      
-      setImage(squareBitmap);
+      // The crop from a shared link is meant for the first source dropped in;
+      // otherwise the crop and cell edits belong to the previous source
+      if (useKnitStore.getState().isSharedPreview) {
+        endSharedPreview();
+      } else {
+        resetCrop();
+      }
+      clearCellOverrides();
+      setImage(bitmap);
       
       // Announce to screen readers
       const announcement = document.getElementById('aria-live-region');
@@ -117,12 +268,17 @@ export function App() {
         const fileType = file.type.startsWith('video/') ? 'Video' : 'Image';
         announcement.textContent = `${fileType} loaded: ${file.name}`;
       }
+
+      if (file.type === 'image/png') await offerPNGRestore(file);
     } catch (error) {
       console.error('Failed to load file:', error);
       const fileType = file.type.startsWith('video/') ? 'video' : 'image';
-      alert(`Failed to load ${fileType}. Please try a different file.`);
+      showToast('error', `Failed to load ${fileType}. Please try a different file.`);
     }
-  }, [setImage, setVideoFile, extractVideoFrame]);
+  }, [
+    setImage, setVideoFile, resetCrop, clearCellOverrides, endSharedPreview, extractVideoFrame, offerPNGRestore,
+    showToast,
+  ]);
 
   /**
    * Handle file input change
@@ -134,6 +290,144 @@ export function App() {
     }
   }, [loadImage]);
 
+  /**
+   * Current project: source media, render settings, imported grid and export options
+   */
+  const currentProject = useMemo((): KnitProject => ({
+    settings: createRenderSettings(params, activePalette, crop, aspectPreset, customAspect),
+    exportSettings: {
+      exportSizePreset, customExportWidth, svgBackground, animationLoop, changedRegionsOnly, embedSource,
+    },
+    // An imported grid replaces the source
+    source: importedGrid ? null : videoFile ?? sourceFile,
+    importedGrid,
+    cellOverrides,
+  }), [
+    params, activePalette, crop, aspectPreset, customAspect, exportSizePreset, customExportWidth, svgBackground,
+    animationLoop, changedRegionsOnly, embedSource, importedGrid, videoFile, sourceFile, cellOverrides,
+  ]);
+
+  // Latest project, read by the startup restore to tell whether the user has acted meanwhile
+  const currentProjectRef = useRef(currentProject);
+  currentProjectRef.current = currentProject;
+
+  /**
+   * Load a project: its media, then its settings and export options
+   * @param project Project to open
+   * @param undoable Whether the settings change is an undo step (not when restoring the last session)
+   */
+  const openProject = useCallback(async (project: KnitProject, undoable: boolean) => {
+    const { source, importedGrid: grid, exportSettings } = project;
+    if (grid) {
+      setSourceFile(null);
+      setImportedGrid(grid);
+    } else if (source?.type.startsWith('video/')) {
+      const bitmap = await extractVideoFrame(source);
+      setVideoFile(source);
+      setSourceFile(null);
+      setImage(bitmap);
+    } else if (source) {
+      const bitmap = await createImageBitmap(source);
+      setVideoFile(null);
+      setSourceFile(source);
+      setImage(bitmap);
+    } else {
+      setVideoFile(null);
+      setSourceFile(null);
+      setImage(null);
+    }
+    restoreSettings(project.settings, undoable, project.cellOverrides);
+
+    setExportSizePreset(exportSettings.exportSizePreset);
+    setCustomExportWidth(exportSettings.customExportWidth);
+    setSvgBackground(exportSettings.svgBackground);
+    setAnimationLoop(exportSettings.animationLoop);
+    setChangedRegionsOnly(exportSettings.changedRegionsOnly);
+    setEmbedSource(exportSettings.embedSource);
+  }, [extractVideoFrame, setImage, setVideoFile, setImportedGrid, restoreSettings]);
+
+  /**
+   * Open a project file
+   */
+  const loadProjectFile = useCallback(async (file: File) => {
+    try {
+      await openProject(parseProjectJSON(await file.text()), true);
+
+      const announcement = document.getElementById('aria-live-region');
+      if (announcement) {
+        announcement.textContent = `Project opened: ${file.name}`;
+      }
+    } catch (error) {
+      console.error('Failed to open project:', error);
+      showToast('error', `Failed to open project. ${error instanceof Error ? error.message : 'Please try again.'}`);
+    }
+  }, [openProject, showToast]);
+
+  /**
+   * Handle project file input change
+   */
+  const handleOpenProject = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow opening the same file again
+    e.target.value = '';
+    if (file) loadProjectFile(file);
+  }, [loadProjectFile]);
+
+  /**
+   * Save the current project as a .knitproj file
+   */
+  const handleSaveProject = useCallback(async () => {
+    try {
+      await exportProject(currentProject);
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      showToast('error', 'Failed to save project. Please try again.');
+    }
+  }, [currentProject, showToast]);
+
+  // Restore the last session once on startup, unless the app was opened from a shared link.
+  // Media loaded or edits made while the autosave loads are kept: the project no longer
+  // matches the startup one, so the restore is skipped rather than overwriting them
+  useEffect(() => {
+    let cancelled = false;
+    const startupProject = currentProjectRef.current;
+    loadAutosave()
+      .then((project) => {
+        if (!project || cancelled || isSharedPreview || currentProjectRef.current !== startupProject) return;
+        return openProject(project, false);
+      })
+      .catch((error) => console.warn('Failed to restore the autosaved project', error))
+      .finally(() => {
+        if (!cancelled) setAutosaveReady(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Only on mount: later opens go through the project file input
+  }, []);
+
+  // Autosave the project shortly after each change (a shared link is previewed without saving)
+  useEffect(() => {
+    if (!autosaveReady || isSharedPreview) return;
+    const timer = setTimeout(() => {
+      saveAutosave(currentProject).catch((error) => console.warn('Failed to autosave the project', error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [autosaveReady, isSharedPreview, currentProject]);
+
+  /**
+   * Copy a link that opens the app with the current settings
+   */
+  const handleCopyLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(shareURL(currentProject.settings, window.location.href));
+      showToast('info', 'Link copied. It carries the settings; the image has to be dropped in again.');
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+      showToast('error', 'Could not copy the link to the clipboard.');
+    }
+  }, [currentProject, showToast]);
+
   /**
    * Handle drag and drop
    */
@@ -142,10 +436,12 @@ export function App() {
     e.stopPropagation();
 
     const file = e.dataTransfer.files[0];
-    if (file && (file.type.startsWith('image/') || file.type.startsWith('video/'))) {
+    if (file?.name.toLowerCase().endsWith(PROJECT_EXTENSION)) {
+      loadProjectFile(file);
+    } else if (file && (file.type.startsWith('image/') || file.type.startsWith('video/'))) {
       loadImage(file);
     }
-  }, [loadImage]);
+  }, [loadImage, loadProjectFile]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -153,147 +449,294 @@ export function App() {
   }, []);
 
   /**
-   * Process video frames through knit grid algorithm
+   * Open a video's frames for export, rendered through the knit grid algorithm one at a time
+   * Frames are rendered at the output size with the given columns and rows into one canvas,
+   * so encoders take each frame as it is drawn instead of every frame being kept.
+   * Aborting the signal stops seeking and rejects with an AbortError; close releases the video
    */
-  const processVideoFrames = useCallback(async (
+  const openVideoFrames = useCallback(async (
     file: File,
     currentParams: KnitParams,
-    size: number
-  ): Promise<HTMLCanvasElement[]> => {
-    return new Promise((resolve, reject) => {
-      const video = document.createElement('video');
-      let objectUrl: string | null = null;
-      const frames: HTMLCanvasElement[] = [];
-      const fps = 10; // Target FPS
-      let frameCount = 0;
+    currentPalette: RGB[],
+    currentCrop: CropSettings,
+    currentOverrides: CellOverrides,
+    width: number,
+    height: number,
+    cells: { cols: number; rows: number },
+    lineWidth: number,
+    signal: AbortSignal,
+    onProgress: ExportProgressCallback
+  ): Promise<FrameSequence & { close: () => void }> => {
+    throwIfCancelled(signal);
+    const fps = 10; // Target FPS
+    const video = document.createElement('video');
+    let objectUrl: string | null = URL.createObjectURL(file);
 
-      video.preload = 'metadata';
-      video.muted = true;
-      video.playsInline = true;
+    video.preload = 'metadata';
+    video.muted = true;
+    video.playsInline = true;
 
-      const cleanup = () => {
-        if (objectUrl) {
-          URL.revokeObjectURL(objectUrl);
-          objectUrl = null;
-        }
-        video.src = '';
-        video.load();
-      };
+    const close = () => {
+      if (!objectUrl) return;
+      URL.revokeObjectURL(objectUrl);
+      objectUrl = null;
+      video.src = '';
+      video.load();
+    };
 
-      video.onloadedmetadata = () => {
-        const duration = video.duration;
+    /**
+     * Wait for a video event, rejecting on a video error or when the export is cancelled
+     */
+    const waitFor = (event: 'loadedmetadata' | 'seeked') =>
+      new Promise<void>((resolve, reject) => {
+        const done = () => {
+          video.removeEventListener(event, handleEvent);
+          video.removeEventListener('error', handleError);
+          signal.removeEventListener('abort', handleAbort);
+        };
+        const handleEvent = () => {
+          done();
+          resolve();
+        };
+        const handleError = () => {
+          done();
+          reject(new Error('Failed to load video'));
+        };
+        // Stop seeking as soon as the export is cancelled
+        const handleAbort = () => {
+          done();
+          reject(abortError(signal));
+        };
+        video.addEventListener(event, handleEvent);
+        video.addEventListener('error', handleError);
+        signal.addEventListener('abort', handleAbort);
+      });
 
-        // Process frames
-        const processFrame = (time: number) => {
-          if (time >= duration) {
-            cleanup();
-            resolve(frames);
-            return;
-          }
+    try {
+      const loaded = waitFor('loadedmetadata');
+      video.src = objectUrl;
+      await loaded;
+    } catch (error) {
+      close();
+      throw error;
+    }
 
-          video.currentTime = time;
-        };
+    const duration = video.duration;
+    const count = Math.max(1, Math.ceil(duration * fps));
 
-        video.onseeked = async () => {
-          try {
-            // Create canvas for this frame
-            const frameCanvas = document.createElement('canvas');
-            frameCanvas.width = size;
-            frameCanvas.height = size;
-            const ctx = frameCanvas.getContext('2d');
-            
-            if (!ctx) {
-              cleanup();
-              reject(new Error('Failed to get canvas context'));
-              return;
-            }
-
-            // Crop video frame to square
-            const videoSize = Math.min(video.videoWidth, video.videoHeight);
-            const x = (video.videoWidth - videoSize) / 2;
-            const y = (video.videoHeight - videoSize) / 2;
-
-            // Draw video frame to temporary canvas
-            const tempCanvas = document.createElement('canvas');
-            tempCanvas.width = videoSize;
-            tempCanvas.height = videoSize;
-            const tempCtx = tempCanvas.getContext('2d');
-            if (!tempCtx) {
-              cleanup();
-              reject(new Error('Failed to get temp canvas context'));
-              return;
-            }
-            tempCtx.drawImage(video, x, y, videoSize, videoSize, 0, 0, videoSize, videoSize);
-
-            // Convert to ImageBitmap and process through knit grid
-            const bitmap = await createImageBitmap(tempCanvas);
-            
-            // Import render function dynamically to avoid circular dependency
-            const { renderKnitFrame } = await import('./lib/render');
-            renderKnitFrame(ctx, bitmap, currentParams, size);
-            
-            bitmap.close();
-            frames.push(frameCanvas);
-
-            // Process next frame
-            frameCount++;
-            const nextTime = frameCount / fps;
-            if (nextTime < duration) {
-              processFrame(nextTime);
-            } else {
-              cleanup();
-              resolve(frames);
-            }
-          } catch (error) {
-            cleanup();
-            reject(error);
-          }
-        };
+    async function* frames() {
+      try {
+        // One frame canvas and one source canvas, redrawn for every frame
+        const frameCanvas = document.createElement('canvas');
+        frameCanvas.width = width;
+        frameCanvas.height = height;
+        const ctx = frameCanvas.getContext('2d');
+        const tempCanvas = document.createElement('canvas');
+        tempCanvas.width = video.videoWidth;
+        tempCanvas.height = video.videoHeight;
+        const tempCtx = tempCanvas.getContext('2d');
 
-        // Start processing from first frame
-        processFrame(0);
-      };
+        if (!ctx || !tempCtx) {
+          throw new Error('Failed to get canvas context');
+        }
 
-      video.onerror = () => {
-        cleanup();
-        reject(new Error('Failed to load video'));
-      };
+        for (let frameIndex = 0; frameIndex < count && frameIndex / fps < duration; frameIndex++) {
+          throwIfCancelled(signal);
+          onProgress('decoding', frameIndex, count);
+          const seeked = waitFor('seeked');
+          video.currentTime = frameIndex / fps;
+          await seeked;
 
-      objectUrl = URL.createObjectURL(file);
-      video.src = objectUrl;
-    });
+          // Draw video frame to the source canvas (cropped when rendering)
+          tempCtx.drawImage(video, 0, 0);
+          onProgress('rendering', frameIndex, count);
+
+          // Convert to ImageBitmap and process through knit grid
+          const bitmap = await createImageBitmap(tempCanvas);
+          const grid = applyCellOverrides(
+            buildKnitGridCells(
+              bitmap, currentParams, cells.cols, cells.rows, width / height, currentPalette, currentCrop
+            ),
+            currentOverrides
+          );
+          paintKnitGrid(ctx, grid, width, height, currentParams.showGridLines, lineWidth);
+          bitmap.close();
+          yield frameCanvas;
+        }
+      } finally {
+        close();
+      }
+    }
+
+    return { count, frames: frames(), close };
   }, []);
 
+  /**
+   * Grid and color names for grid-based exports
+   * An imported grid is used as is; otherwise the grid is recomputed with the preview's columns and rows.
+   * Cell edits are applied either way
+   */
+  const currentGrid = useCallback((): ImportedGrid | null => {
+    if (importedGrid) {
+      return { ...importedGrid, grid: applyCellOverrides(importedGrid.grid, cellOverrides) };
+    }
+    if (!image) return null;
+
+    return {
+      grid: applyCellOverrides(buildKnitGrid(image, params, canvasWidth, canvasHeight, palette, crop), cellOverrides),
+      // Palette indices follow the enabled swatches
+      names: activePalette.swatches.filter((s) => s.enabled).map((s) => s.name),
+    };
+  }, [importedGrid, image, params, canvasWidth, canvasHeight, palette, crop, cellOverrides, activePalette]);
+
   /**
    * Handle PNG export
+   * The grid is re-rendered at the export size rather than upscaling the preview.
+   * Renders of an image carry their settings (and optionally the source) so they can be restored
    */
-  const handleExportPNG = useCallback(() => {
-    // Get canvas from KnitCanvas
-    const canvasElement = document.querySelector('canvas');
-    if (canvasElement) {
-      exportPNG(canvasElement, 'lidl-knit.png', 1080, 1080);
-    } else {
-      console.error('Canvas not found');
+  const handleExportPNG = useCallback(async () => {
+    const current = currentGrid();
+    if (!current) return;
+
+    try {
+      let chunks: Uint8Array[] = [];
+      if (!importedGrid) {
+        const settings = createRenderSettings(params, activePalette, crop, aspectPreset, customAspect);
+        const source = embedSource && sourceFile ? await blobToDataURL(sourceFile) : null;
+        chunks = settingsChunks(settings, source);
+      }
+      await exportPNG(current.grid, 'lidl-knit.png', exportSize.width, exportSize.height, {
+        showGridLines: params.showGridLines,
+        lineWidth: exportLineWidth,
+        chunks,
+      });
+    } catch (error) {
+      console.error('Failed to export PNG:', error);
+      showToast('error', 'Failed to export PNG. Please try again.');
     }
-  }, []);
+  }, [
+    currentGrid, importedGrid, params, activePalette, crop, aspectPreset, customAspect, embedSource, sourceFile,
+    exportSize, exportLineWidth, showToast,
+  ]);
+
+  /**
+   * Handle SVG export
+   * The grid is laid out as vectors
+   */
+  const handleExportSVG = useCallback(() => {
+    try {
+      const current = currentGrid();
+      if (!current) return;
+      exportSVG(current.grid, 'lidl-knit.svg', exportSize.width, exportSize.height, {
+        background: svgBackground,
+        gridLines: params.showGridLines,
+        lineWidth: exportLineWidth,
+      });
+    } catch (error) {
+      console.error('Failed to export SVG:', error);
+      showToast('error', 'Failed to export SVG. Please try again.');
+    }
+  }, [currentGrid, params, exportSize, exportLineWidth, svgBackground, showToast]);
+
+  /**
+   * Handle knitting chart export
+   */
+  const handleExportChart = useCallback(async (format: 'png' | 'pdf') => {
+    try {
+      const current = currentGrid();
+      if (!current) return;
+      await exportChart(current.grid, current.names, format);
+    } catch (error) {
+      console.error('Failed to export chart:', error);
+      showToast('error', 'Failed to export knitting chart. Please try again.');
+    }
+  }, [currentGrid, showToast]);
+
+  /**
+   * Handle grid data (JSON/CSV) export
+   */
+  const handleExportGridData = useCallback((format: 'json' | 'csv') => {
+    try {
+      const current = currentGrid();
+      if (!current) return;
+      exportGridData(current.grid, current.names, format);
+    } catch (error) {
+      console.error('Failed to export grid data:', error);
+      showToast('error', 'Failed to export grid data. Please try again.');
+    }
+  }, [currentGrid, showToast]);
 
   /**
-   * Handle GIF export
+   * Import a grid JSON file; it replaces the image and is re-rendered at the canvas size
    */
-  const handleExportGIF = useCallback(async () => {
+  const handleImportGrid = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow importing the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const grid = parseGridJSON(await file.text());
+      clearCellOverrides();
+      setImportedGrid(grid);
+
+      const announcement = document.getElementById('aria-live-region');
+      if (announcement) {
+        announcement.textContent = `Grid imported: ${file.name}`;
+      }
+    } catch (error) {
+      console.error('Failed to import grid:', error);
+      showToast('error', `Failed to import grid: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }, [setImportedGrid, clearCellOverrides, showToast]);
+
+  /**
+   * Handle animated image export (GIF, APNG or WebP) from the rendered video frames
+   */
+  const handleExportAnimation = useCallback(async (format: 'gif' | 'apng' | 'webp') => {
     if (!videoFile) return;
-    
-    setIsExporting(true);
+
+    const name = format === 'apng' ? 'APNG' : format.toUpperCase();
+    const signal = startExportJob(name);
+    let frames: (FrameSequence & { close: () => void }) | null = null;
     try {
-      const frames = await processVideoFrames(videoFile, params, 1080);
-      await exportGIF(frames, 'lidl-knit.gif', 100, 1080, 1080);
+      const { width, height } = exportSize;
+      frames = await openVideoFrames(
+        videoFile, params, palette, crop, cellOverrides, width, height, previewCells, exportLineWidth, signal,
+        updateExportJob
+      );
+      const options: AnimationOptions = {
+        delay: 100, // 10fps, matching the rendered frames
+        loopCount: animationLoop ? 0 : 1,
+        changedOnly: changedRegionsOnly,
+        signal,
+        onProgress: (done, total) => updateExportJob('encoding', done, total),
+      };
+      // Grid lines are translucent, so they get their own table entry
+      const colors = params.showGridLines ? [...palette, gridLineColorOver(palette[0])] : palette;
+
+      if (format === 'gif') {
+        await exportGIF(frames, colors, 'lidl-knit.gif', width, height, options);
+      } else if (format === 'apng') {
+        await exportAPNG(frames, colors, 'lidl-knit.png', width, height, options);
+      } else {
+        await exportWebP(frames, 'lidl-knit.webp', width, height, options);
+      }
     } catch (error) {
-      console.error('Failed to export GIF:', error);
-      alert('Failed to export GIF. Please try again.');
+      if (isAbortError(error)) {
+        showToast('info', `${name} export cancelled.`);
+      } else {
+        console.error(`Failed to export ${name}:`, error);
+        showToast('error', `Failed to export ${name}. ${error instanceof Error ? error.message : 'Please try again.'}`);
+      }
     } finally {
-      setIsExporting(false);
+      frames?.close();
+      finishExportJob();
     }
-  }, [videoFile, params, processVideoFrames]);
+  }, [
+    videoFile, params, palette, crop, cellOverrides, exportSize, previewCells, exportLineWidth, openVideoFrames,
+    animationLoop, changedRegionsOnly, startExportJob, updateExportJob, finishExportJob, showToast,
+  ]);
 
   /**
    * Handle MP4 export
@@ -301,17 +744,54 @@ export function App() {
   const handleExportMP4 = useCallback(async () => {
     if (!videoFile) return;
     
-    setIsExporting(true);
+    const signal = startExportJob('MP4');
+    let frames: (FrameSequence & { close: () => void }) | null = null;
     try {
-      const frames = await processVideoFrames(videoFile, params, 1080);
-      await exportMP4(frames, 'lidl-knit.mp4', 10, 1080, 1080);
+      const { width, height } = exportSize;
+      frames = await openVideoFrames(
+        videoFile, params, palette, crop, cellOverrides, width, height, previewCells, exportLineWidth, signal,
+        updateExportJob
+      );
+      const container = await exportMP4(frames, 'lidl-knit.mp4', 10, width, height, {
+        signal,
+        onProgress: (done, total) => updateExportJob('encoding', done, total),
+      });
+      if (container === 'webm') {
+        showToast('info', 'This browser cannot encode MP4 (H.264), so the video was saved as WebM instead.');
+      }
     } catch (error) {
-      console.error('Failed to export MP4:', error);
-      alert('Failed to export MP4. Please try again.');
+      if (isAbortError(error)) {
+        showToast('info', 'MP4 export cancelled.');
+      } else {
+        console.error('Failed to export MP4:', error);
+        showToast('error', 'Failed to export MP4. Please try again.');
+      }
     } finally {
-      setIsExporting(false);
+      frames?.close();
+      finishExportJob();
     }
-  }, [videoFile, params, processVideoFrames]);
+  }, [
+    videoFile, params, palette, crop, cellOverrides, exportSize, previewCells, exportLineWidth, openVideoFrames,
+    startExportJob, updateExportJob, finishExportJob, showToast,
+  ]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   /**
    * Clamp value to range
@@ -324,6 +804,31 @@ export function App() {
     <div className="app">
       <div className="app-header">
         <h1>Lidl Knit Grid</h1>
+        <div className="history-buttons">
+          <button onClick={handleSaveProject} disabled={isExporting} title="Save image, settings and export options">
+            Save Project
+          </button>
+          <button onClick={() => projectInputRef.current?.click()} disabled={isExporting}>
+            Open Project…
+          </button>
+          <button onClick={handleCopyLink} title="Copy a link with the current settings">
+            Copy link
+          </button>
+          <input
+            ref={projectInputRef}
+            type="file"
+            accept={`${PROJECT_EXTENSION},application/json`}
+            onChange={handleOpenProject}
+            style={{ display: 'none' }}
+            aria-label="Select project file"
+          />
+          <button onClick={undo} disabled={!canUndo} title="Undo (Ctrl/Cmd+Z)">
+            ↶ Undo
+          </button>
+          <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl/Cmd+Shift+Z)">
+            ↷ Redo
+          </button>
+        </div>
       </div>
 
       <div className="app-layout">
@@ -354,8 +859,8 @@ export function App() {
               aria-label="Select image or video file"
             />
             <div className="drop-zone-content">
-              {image ? (
-                <span>✓ File loaded</span>
+              {image || importedGrid ? (
+                <span>{importedGrid ? '✓ Grid imported' : '✓ File loaded'}</span>
               ) : (
                 <>
                   <span>📁 Drop image or video here</span>
@@ -367,6 +872,66 @@ export function App() {
 
           {/* Controls */}
           <div className="controls">
+            <div className="control-group">
+              <label htmlFor="aspect-ratio">
+                Aspect Ratio
+                <span className="control-value">{exportSize.width}×{exportSize.height}</span>
+              </label>
+              <select
+                id="aspect-ratio"
+                value={aspectPreset}
+                onChange={(e) => setAspectRatio(e.target.value as AspectRatioPreset)}
+                disabled={importedGrid !== null}
+              >
+                {(Object.keys(ASPECT_PRESETS) as AspectRatioPreset[]).map((preset) => (
+                  <option key={preset} value={preset}>
+                    {ASPECT_PRESETS[preset].label}
+                  </option>
+                ))}
+              </select>
+              {aspectPreset === 'custom' && (
+                <div className="aspect-custom-row">
+                  <input
+                    type="number"
+                    min="1"
+                    max="100"
+                    step="1"
+                    value={customAspect.width}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (!Number.isNaN(value)) {
+                        setAspectRatio('custom', { ...customAspect, width: clamp(value, 1, 100) });
+                      }
+                    }}
+                    aria-label="Custom aspect width"
+                  />
+                  <span>:</span>
+                  <input
+                    type="number"
+                    min="1"
+                    max="100"
+                    step="1"
+                    value={customAspect.height}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (!Number.isNaN(value)) {
+                        setAspectRatio('custom', { ...customAspect, height: clamp(value, 1, 100) });
+                      }
+                    }}
+                    aria-label="Custom aspect height"
+                  />
+                </div>
+              )}
+              <button
+                className="crop-toggle"
+                onClick={() => setIsCropping(!isCropping)}
+                disabled={!image}
+                aria-pressed={isCropping}
+              >
+                {isCropping ? 'Close Crop' : 'Crop & Rotate'}
+              </button>
+            </div>
+
             <div className="control-group">
               <label htmlFor="stitch-size">
                 Stitch Size (px)
@@ -386,6 +951,18 @@ export function App() {
               />
             </div>
 
+            <div className="control-group">
+              <label htmlFor="brand-lock">
+                <input
+                  id="brand-lock"
+                  type="checkbox"
+                  checked={params.brandLock}
+                  onChange={(e) => updateParam('brandLock', e.target.checked)}
+                />
+                Brand Lock (palette colors only)
+              </label>
+            </div>
+
             <div className="control-group">
               <label htmlFor="palette-mix">
                 Palette Mix
@@ -398,6 +975,7 @@ export function App() {
                 max="1"
                 step="0.01"
                 value={params.paletteMix}
+                disabled={params.brandLock}
                 onChange={(e) => updateParam('paletteMix', clamp(parseFloat(e.target.value), 0, 1))}
                 aria-valuemin={0}
                 aria-valuemax={100}
@@ -405,6 +983,19 @@ export function App() {
               />
             </div>
 
+            <div className="control-group">
+              <label htmlFor="color-metric">Color Matching</label>
+              <select
+                id="color-metric"
+                value={params.colorMetric}
+                onChange={(e) => updateParam('colorMetric', e.target.value as ColorMetric)}
+              >
+                <option value="linear-rgb">Linear RGB (classic)</option>
+                <option value="oklab">OKLab (perceptual)</option>
+                <option value="ciede2000">CIEDE2000 (perceptual, precise)</option>
+              </select>
+            </div>
+
             <div className="control-group">
               <label htmlFor="dither">
                 Dither
@@ -424,6 +1015,27 @@ export function App() {
               />
             </div>
 
+            <div className="control-group">
+              <label htmlFor="dither-mode">Dither Mode</label>
+              <select
+                id="dither-mode"
+                value={params.ditherMode}
+                onChange={(e) => updateParam('ditherMode', e.target.value as DitherMode)}
+              >
+                <optgroup label="Ordered">
+                  <option value="bayer2">Bayer 2×2</option>
+                  <option value="bayer4">Bayer 4×4</option>
+                  <option value="bayer8">Bayer 8×8</option>
+                  <option value="blue-noise">Blue noise</option>
+                </optgroup>
+                <optgroup label="Error diffusion">
+                  <option value="floyd-steinberg">Floyd–Steinberg</option>
+                  <option value="atkinson">Atkinson</option>
+                  <option value="sierra-lite">Sierra Lite</option>
+                </optgroup>
+              </select>
+            </div>
+
             <div className="control-group">
               <label htmlFor="contrast">
                 Contrast
@@ -481,6 +1093,37 @@ export function App() {
               />
             </div>
 
+            <GlyphMappingControls />
+
+            <div className="control-group">
+              <label htmlFor="seed">
+                Seed
+                <span className="control-value">{params.seed}</span>
+              </label>
+              <div className="seed-row">
+                <input
+                  id="seed"
+                  type="number"
+                  min="0"
+                  max="999999"
+                  step="1"
+                  value={params.seed}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (!Number.isNaN(value)) {
+                      updateParam('seed', clamp(value, 0, 999999));
+                    }
+                  }}
+                />
+                <button
+                  onClick={() => updateParam('seed', randomSeed())}
+                  aria-label="Pick a new random seed"
+                >
+                  Shuffle
+                </button>
+              </div>
+            </div>
+
             <div className="control-group">
               <label htmlFor="grid-lines">
                 <input
@@ -494,51 +1137,193 @@ export function App() {
             </div>
           </div>
 
+          {/* Palette */}
+          <PaletteEditor />
+
+          {/* Cell edits */}
+          <CellEditControls />
+
           {/* Presets */}
-          <div className="presets">
-            <h3>Presets</h3>
-            <div className="preset-buttons">
-              <button
-                onClick={() => applyPreset('classic')}
-                aria-label="Apply Classic Knit preset"
-              >
-                Classic Knit
-              </button>
-              <button
-                onClick={() => applyPreset('airy')}
-                aria-label="Apply Airy Knit preset"
-              >
-                Airy Knit
-              </button>
-              <button
-                onClick={() => applyPreset('quilted')}
-                aria-label="Apply Quilted preset"
-              >
-                Quilted
-              </button>
-            </div>
-          </div>
+          <PresetPanel />
 
           {/* Export */}
           <div className="export-section">
+            <ExportProgress />
+            <div className="control-group">
+              <label htmlFor="export-size">
+                Export Size
+                <span className="control-value">{exportSize.width}×{exportSize.height}</span>
+              </label>
+              <select
+                id="export-size"
+                value={exportSizePreset}
+                onChange={(e) => setExportSizePreset(e.target.value as ExportSizePreset)}
+              >
+                {(Object.keys(EXPORT_SIZE_PRESETS) as ExportSizePreset[]).map((preset) => (
+                  <option key={preset} value={preset}>
+                    {EXPORT_SIZE_PRESETS[preset]}
+                  </option>
+                ))}
+              </select>
+              {exportSizePreset === 'custom' && (
+                <div className="aspect-custom-row">
+                  <input
+                    type="number"
+                    min="16"
+                    max={MAX_EXPORT_EDGE}
+                    step="1"
+                    value={customExportWidth}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (!Number.isNaN(value)) {
+                        setCustomExportWidth(clamp(value, 16, MAX_EXPORT_EDGE));
+                      }
+                    }}
+                    aria-label="Custom export width"
+                  />
+                  <span>px wide</span>
+                </div>
+              )}
+            </div>
             <button
               onClick={handleExportPNG}
               className="export-button"
-              disabled={!image || isExporting}
+              disabled={!hasSource || isExporting}
               aria-label="Export current knit grid as PNG"
             >
-              Export PNG (1080×1080)
+              Export PNG ({exportSize.width}×{exportSize.height})
             </button>
+            <label className="export-option" htmlFor="embed-source">
+              <input
+                id="embed-source"
+                type="checkbox"
+                checked={embedSource}
+                onChange={(e) => setEmbedSource(e.target.checked)}
+                disabled={!sourceFile}
+              />
+              Embed source image in PNG
+            </label>
+            <button
+              onClick={handleExportSVG}
+              className="export-button"
+              disabled={!hasSource || isExporting}
+              aria-label="Export current knit grid as SVG vector file"
+            >
+              Export SVG (vector)
+            </button>
+            <label className="export-option" htmlFor="svg-background">
+              <input
+                id="svg-background"
+                type="checkbox"
+                checked={svgBackground}
+                onChange={(e) => setSvgBackground(e.target.checked)}
+              />
+              Include background in SVG
+            </label>
+            <PrintExportControls disabled={isExporting} />
+            <div className="chart-export">
+              <h3>Knitting Chart</h3>
+              <div className="chart-buttons">
+                <button
+                  onClick={() => handleExportChart('pdf')}
+                  className="export-button"
+                  disabled={!hasSource || isExporting}
+                  aria-label="Export knitting chart as PDF"
+                >
+                  Chart PDF
+                </button>
+                <button
+                  onClick={() => handleExportChart('png')}
+                  className="export-button"
+                  disabled={!hasSource || isExporting}
+                  aria-label="Export knitting chart as PNG"
+                >
+                  Chart PNG
+                </button>
+              </div>
+            </div>
+            <div className="grid-data-export">
+              <h3>Grid Data</h3>
+              <div className="chart-buttons">
+                <button
+                  onClick={() => handleExportGridData('json')}
+                  className="export-button"
+                  disabled={!hasSource || isExporting}
+                  aria-label="Export grid cells and palette as JSON"
+                >
+                  Grid JSON
+                </button>
+                <button
+                  onClick={() => handleExportGridData('csv')}
+                  className="export-button"
+                  disabled={!hasSource || isExporting}
+                  aria-label="Export grid color indices as CSV"
+                >
+                  Grid CSV
+                </button>
+              </div>
+              <input
+                ref={gridInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImportGrid}
+                style={{ display: 'none' }}
+                aria-label="Select grid JSON file"
+              />
+              <button
+                onClick={() => gridInputRef.current?.click()}
+                className="import-button"
+                disabled={isExporting}
+              >
+                Import Grid JSON…
+              </button>
+            </div>
             {videoFile && (
               <>
                 <button
-                  onClick={handleExportGIF}
+                  onClick={() => handleExportAnimation('gif')}
                   className="export-button"
                   disabled={isExporting}
                   aria-label="Export video as animated GIF"
                 >
                   {isExporting ? 'Exporting...' : 'Export GIF'}
                 </button>
+                <div className="chart-buttons">
+                  <button
+                    onClick={() => handleExportAnimation('apng')}
+                    className="export-button"
+                    disabled={isExporting}
+                    aria-label="Export video as animated PNG"
+                  >
+                    APNG
+                  </button>
+                  <button
+                    onClick={() => handleExportAnimation('webp')}
+                    className="export-button"
+                    disabled={isExporting}
+                    aria-label="Export video as animated WebP"
+                  >
+                    WebP
+                  </button>
+                </div>
+                <label className="export-option" htmlFor="animation-loop">
+                  <input
+                    id="animation-loop"
+                    type="checkbox"
+                    checked={animationLoop}
+                    onChange={(e) => setAnimationLoop(e.target.checked)}
+                  />
+                  Loop animations forever
+                </label>
+                <label className="export-option" htmlFor="changed-regions">
+                  <input
+                    id="changed-regions"
+                    type="checkbox"
+                    checked={changedRegionsOnly}
+                    onChange={(e) => setChangedRegionsOnly(e.target.checked)}
+                  />
+                  Only encode changed regions
+                </label>
                 <button
                   onClick={handleExportMP4}
                   className="export-button"
@@ -555,6 +1340,7 @@ export function App() {
         {/* Right Panel: Canvas */}
         <div className="canvas-panel">
           <KnitCanvas />
+          {isCropping && <CropOverlay />}
         </div>
       </div>
 
@@ -566,6 +1352,8 @@ export function App() {
         aria-atomic="true"
         style={{ position: 'absolute', left: '-9999px', width: '1px', height: '1px', overflow: 'hidden' }}
       />
+
+      <Toasts />
     </div>
   );
 }
@@ -0,0 +1,241 @@
+/**
+ * CropOverlay component - drag/resize the source crop, pick a focal point, rotate and flip
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useKnitStore, selectAspectRatio } from '../state/useKnitStore';
+import { fitAspect, centerCrop } from '../lib/aspect';
+import {
+  cropRect,
+  drawOrientedRegion,
+  orientedSize,
+  rotateCrop,
+  flipCrop,
+  MIN_CROP_ZOOM,
+  MAX_CROP_ZOOM,
+} from '../lib/crop';
+
+/** Active pointer gesture */
+interface DragState {
+  mode: 'move' | 'resize';
+  pointerX: number;
+  pointerY: number;
+  /** Crop centre (normalized) when the gesture started */
+  centerX: number;
+  centerY: number;
+}
+
+/** Keyboard nudge step (normalized) */
+const NUDGE = 0.01;
+
+/**
+ * Clamp value to [0, 1]
+ */
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Full-panel crop editor shown over the knit canvas
+ * Shows the whole oriented source with the crop rectangle on top
+ */
+export function CropOverlay() {
+  const image = useKnitStore((state) => state.image);
+  const crop = useKnitStore((state) => state.crop);
+  const setCrop = useKnitStore((state) => state.setCrop);
+  const resetCrop = useKnitStore((state) => state.resetCrop);
+  const setIsCropping = useKnitStore((state) => state.setIsCropping);
+  const aspectRatio = useKnitStore(selectAspectRatio);
+
+  const stageRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+
+  const oriented = image ? orientedSize(image.width, image.height, crop.rotation) : { width: 1, height: 1 };
+  const display = fitAspect(stageSize.width, stageSize.height, oriented.width / oriented.height);
+  const scale = display.width / oriented.width;
+
+  /**
+   * Track the space available for the source preview
+   */
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+
+    const measure = () => {
+      const rect = stage.getBoundingClientRect();
+      setStageSize({ width: Math.floor(rect.width), height: Math.floor(rect.height) });
+    };
+    measure();
+
+    const resizeObserver = new ResizeObserver(measure);
+    resizeObserver.observe(stage);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  /**
+   * Draw the oriented source
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !image || display.width === 0) return;
+
+    canvas.width = display.width;
+    canvas.height = display.height;
+    drawOrientedRegion(
+      ctx,
+      image,
+      crop,
+      { x: 0, y: 0, width: oriented.width, height: oriented.height },
+      display.width,
+      display.height
+    );
+    // Only orientation affects the preview
+  }, [image, crop.rotation, crop.flipH, crop.flipV, display.width, display.height]);
+
+  if (!image) return null;
+
+  const rect = cropRect(crop, image.width, image.height, aspectRatio);
+  const centerX = (rect.x + rect.width / 2) / oriented.width;
+  const centerY = (rect.y + rect.height / 2) / oriented.height;
+
+  const handlePointerDown = (mode: DragState['mode']) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { mode, pointerX: e.clientX, pointerY: e.clientY, centerX, centerY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || display.width === 0) return;
+
+    if (drag.mode === 'move') {
+      // Move the rectangle; its centre becomes the new focal point
+      setCrop({
+        focusX: clamp01(drag.centerX + (e.clientX - drag.pointerX) / display.width),
+        focusY: clamp01(drag.centerY + (e.clientY - drag.pointerY) / display.height),
+      });
+      return;
+    }
+
+    // Resize symmetrically around the centre, keeping the aspect ratio
+    // (the gesture starts on the bottom-right corner handle)
+    const halfWidth = Math.abs(e.clientX - drag.pointerX + (rect.width * scale) / 2);
+    const halfHeight = Math.abs(e.clientY - drag.pointerY + (rect.height * scale) / 2);
+    const width = Math.max(halfWidth * 2, halfHeight * 2 * aspectRatio) / scale;
+    const base = centerCrop(oriented.width, oriented.height, aspectRatio);
+    const zoom = Math.max(MIN_CROP_ZOOM, Math.min(MAX_CROP_ZOOM, base.width / width));
+    setCrop({ zoom, focusX: drag.centerX, focusY: drag.centerY });
+  };
+
+  // Pointer capture ends by itself on pointerup
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  /**
+   * Double-click picks the focal point
+   */
+  const handleDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    setCrop({
+      focusX: clamp01((e.clientX - bounds.left) / bounds.width),
+      focusY: clamp01((e.clientY - bounds.top) / bounds.height),
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-NUDGE, 0],
+      ArrowRight: [NUDGE, 0],
+      ArrowUp: [0, -NUDGE],
+      ArrowDown: [0, NUDGE],
+    };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    setCrop({ focusX: clamp01(centerX + move[0]), focusY: clamp01(centerY + move[1]) });
+  };
+
+  return (
+    <div className="crop-overlay" role="dialog" aria-label="Crop source">
+      <div className="crop-toolbar">
+        <button onClick={() => setCrop(rotateCrop(crop, false))} aria-label="Rotate left 90 degrees">
+          ⟲ Rotate
+        </button>
+        <button onClick={() => setCrop(rotateCrop(crop, true))} aria-label="Rotate right 90 degrees">
+          ⟳ Rotate
+        </button>
+        <button
+          onClick={() => setCrop(flipCrop(crop, 'horizontal'))}
+          aria-pressed={crop.flipH}
+          aria-label="Flip horizontally"
+        >
+          ⇋ Flip
+        </button>
+        <button
+          onClick={() => setCrop(flipCrop(crop, 'vertical'))}
+          aria-pressed={crop.flipV}
+          aria-label="Flip vertically"
+        >
+          ⇵ Flip
+        </button>
+        <label className="crop-zoom">
+          Zoom
+          <input
+            type="range"
+            min={MIN_CROP_ZOOM}
+            max={MAX_CROP_ZOOM}
+            step="0.05"
+            value={crop.zoom}
+            onChange={(e) => setCrop({ zoom: parseFloat(e.target.value) })}
+            aria-valuemin={MIN_CROP_ZOOM}
+            aria-valuemax={MAX_CROP_ZOOM}
+            aria-valuenow={crop.zoom}
+          />
+        </label>
+        <button onClick={resetCrop}>Reset</button>
+        <button className="crop-done" onClick={() => setIsCropping(false)}>
+          Done
+        </button>
+      </div>
+
+      <div ref={stageRef} className="crop-stage">
+        <div
+          className="crop-source"
+          style={{ width: display.width, height: display.height }}
+          onDoubleClick={handleDoubleClick}
+        >
+          <canvas ref={canvasRef} />
+          <div
+            className="crop-frame"
+            style={{
+              left: rect.x * scale,
+              top: rect.y * scale,
+              width: rect.width * scale,
+              height: rect.height * scale,
+            }}
+            tabIndex={0}
+            role="slider"
+            aria-label="Crop position (arrow keys move, double-click sets the focal point)"
+            aria-valuetext={`Centre ${Math.round(centerX * 100)}%, ${Math.round(centerY * 100)}%`}
+            onPointerDown={handlePointerDown('move')}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onKeyDown={handleKeyDown}
+          >
+            {/* Pointer events from the handle bubble to the frame */}
+            <div className="crop-handle" onPointerDown={handlePointerDown('resize')} />
+          </div>
+          <div
+            className="crop-focus"
+            style={{ left: crop.focusX * display.width, top: crop.focusY * display.height }}
+            aria-hidden="true"
+          />
+        </div>
+      </div>
+      <p className="crop-hint">Drag to move, drag the corner to resize, double-click to set the focal point.</p>
+    </div>
+  );
+}
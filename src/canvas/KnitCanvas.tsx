@@ -2,16 +2,15 @@
  * KnitCanvas component - manages canvas rendering and image processing
  */
 
-import { useEffect, useRef, useCallback } from 'react';
-import { useKnitStore } from '../state/useKnitStore';
-import { renderKnitFrame } from '../lib/render';
-import { LIDL_COLORS } from '../lib/palette';
+import { useEffect, useRef, useCallback, useMemo } from 'react';
+import { useKnitStore, selectActivePalette, selectAspectRatio } from '../state/useKnitStore';
+import { renderKnitFrame, paintKnitGrid, gridDimensions } from '../lib/render';
+import { createRenderClient, supportsWorkerRendering } from '../lib/renderWorker';
+import type { RenderClient } from '../lib/renderWorker';
+import { LIDL_COLORS, paletteColors } from '../lib/palette';
 import { drawGlyph } from '../lib/glyphs';
-import type { RGB } from '../types';
-import { ACTIVE_PALETTE } from '../lib/palette';
-
-// Use the light blue from the active palette as background (#0052B0)
-const BACKGROUND_COLOR: RGB = ACTIVE_PALETTE[0]; // #0052B0 - Light blue
+import { fitAspect } from '../lib/aspect';
+import { applyCellOverrides, brushOverride, cellAtPoint } from '../lib/overrides';
 
 /**
  * Main canvas component for rendering the knit grid
@@ -23,6 +22,9 @@ export function KnitCanvas() {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const videoObjectUrlRef = useRef<string | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  /** Id of the current cell editing stroke, or null when no pointer is down */
+  const strokeRef = useRef<number | null>(null);
+  const nextStrokeRef = useRef(1);
 
   // Use selectors to ensure we react to changes
   const image = useKnitStore((state) => state.image);
@@ -33,76 +35,181 @@ export function KnitCanvas() {
   const setCanvasSize = useKnitStore((state) => state.setCanvasSize);
   const isAnimating = useKnitStore((state) => state.isAnimating);
   const setIsAnimating = useKnitStore((state) => state.setIsAnimating);
+  const activePalette = useKnitStore(selectActivePalette);
+  const palette = useMemo(() => paletteColors(activePalette), [activePalette]);
+  const aspectRatio = useKnitStore(selectAspectRatio);
+  const crop = useKnitStore((state) => state.crop);
+  const importedGrid = useKnitStore((state) => state.importedGrid);
+  const cellOverrides = useKnitStore((state) => state.cellOverrides);
+  const isEditingCells = useKnitStore((state) => state.isEditingCells);
+  const cellBrush = useKnitStore((state) => state.cellBrush);
+  const setCellOverride = useKnitStore((state) => state.setCellOverride);
+  // First enabled swatch is the background
+  const backgroundColor = palette[0];
+
+  // Latest render inputs, read by the video loop without restarting it
+  const renderInputsRef = useRef({ params, palette, aspectRatio, crop, cellOverrides });
+  renderInputsRef.current = { params, palette, aspectRatio, crop, cellOverrides };
+
+  // Worker renderer (null when OffscreenCanvas workers are unavailable)
+  const rendererRef = useRef<RenderClient | null>(null);
+
+  useEffect(() => {
+    if (!supportsWorkerRendering()) return;
+
+    const renderer = createRenderClient();
+    rendererRef.current = renderer;
+
+    return () => {
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, []);
 
   /**
-   * Render a single frame from video
+   * Size the canvas to the largest area with the current aspect ratio that fits the container
+   * Resizing clears the canvas, so it only happens when the size changes
+   * @returns Canvas size, or null if there is no room to draw
    */
-  const renderVideoFrame = useCallback(async (video: HTMLVideoElement, size: number) => {
+  const fitCanvas = useCallback((): { width: number; height: number } | null => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    const container = containerRef.current;
+    if (!canvas || !container) return null;
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const rect = container.getBoundingClientRect();
+    const { width, height } = fitAspect(
+      Math.floor(rect.width),
+      Math.floor(rect.height),
+      renderInputsRef.current.aspectRatio
+    );
+    if (width === 0 || height === 0) return null;
+
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+    }
+    setCanvasSize(width, height);
+    return { width, height };
+  }, [setCanvasSize]);
 
-    // Crop video frame to square
-    const videoSize = Math.min(video.videoWidth, video.videoHeight);
-    const x = (video.videoWidth - videoSize) / 2;
-    const y = (video.videoHeight - videoSize) / 2;
-
-    // Create temporary canvas for cropped frame
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = videoSize;
-    tempCanvas.height = videoSize;
-    const tempCtx = tempCanvas.getContext('2d');
-    if (!tempCtx) return;
-
-    tempCtx.drawImage(video, x, y, videoSize, videoSize, 0, 0, videoSize, videoSize);
-
-    // Convert to ImageBitmap
-    const bitmap = await createImageBitmap(tempCanvas);
-    
-    // Render using the utility function
-    renderKnitFrame(ctx, bitmap, params, size);
-    
-    bitmap.close();
-  }, [params]);
+  /**
+   * Render a source frame to the canvas
+   * Uses the worker when available, otherwise renders on the main thread.
+   * Takes ownership of source
+   */
+  const drawFrame = useCallback(async (source: ImageBitmap, width: number, height: number) => {
+    const {
+      params: currentParams,
+      palette: currentPalette,
+      crop: currentCrop,
+      cellOverrides: currentOverrides,
+    } = renderInputsRef.current;
+    const renderer = rendererRef.current;
+
+    if (!renderer) {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (ctx) {
+        renderKnitFrame(ctx, source, currentParams, width, height, currentPalette, currentCrop, currentOverrides);
+      }
+      source.close();
+      return;
+    }
+
+    // Stale renders resolve to null and are simply skipped
+    const frame = await renderer.render(
+      source, currentParams, currentPalette, width, height, currentCrop, currentOverrides
+    );
+    if (!frame) return;
+
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (canvas && ctx && canvas.width === width && canvas.height === height) {
+      ctx.drawImage(frame, 0, 0);
+    }
+    frame.close();
+  }, []);
+
+  /**
+   * Render a single frame from video
+   * The renderer applies the crop and orientation to the frame
+   */
+  const renderVideoFrame = useCallback(async (video: HTMLVideoElement) => {
+    const size = fitCanvas();
+    if (!size) return;
+
+    const bitmap = await createImageBitmap(video);
+    await drawFrame(bitmap, size.width, size.height);
+  }, [drawFrame, fitCanvas]);
 
   /**
    * Render the knit grid to canvas
    */
   const render = useCallback(() => {
-    const canvas = canvasRef.current;
-    const container = containerRef.current;
-    if (!canvas || !container) return;
-
-    const ctx = canvas.getContext('2d');
+    const ctx = canvasRef.current?.getContext('2d');
     if (!ctx) return;
 
-    // Set canvas size to maintain 1:1 aspect ratio
-    const rect = container.getBoundingClientRect();
-    const containerWidth = Math.floor(rect.width);
-    const containerHeight = Math.floor(rect.height);
-    
-    // Use the smaller dimension to ensure square
-    const size = Math.min(containerWidth, containerHeight);
-
-    if (size === 0) return;
+    const size = fitCanvas();
+    if (!size) return;
+    const { width, height } = size;
+    setDirty(false);
 
-    canvas.width = size;
-    canvas.height = size;
-    setCanvasSize(size, size);
+    // An imported grid is already computed; just paint it at the current size
+    if (importedGrid) {
+      paintKnitGrid(ctx, applyCellOverrides(importedGrid.grid, cellOverrides), width, height, params.showGridLines);
+      return;
+    }
 
     // If no image, render placeholder
     if (!image) {
-      renderPlaceholder(ctx, size, size);
-      setDirty(false);
+      ctx.clearRect(0, 0, width, height);
+      renderPlaceholder(ctx, width, height);
       return;
     }
 
-    // Use the render utility function
-    renderKnitFrame(ctx, image, params, size);
-    setDirty(false);
-  }, [image, params, setDirty, setCanvasSize]);
+    // The worker takes ownership of the frame, so hand it a copy
+    createImageBitmap(image)
+      .then((copy) => drawFrame(copy, width, height))
+      .catch((error) => console.error('Failed to render frame:', error));
+  }, [image, importedGrid, params, palette, aspectRatio, crop, cellOverrides, drawFrame, fitCanvas, setDirty]);
+
+  /**
+   * Apply the cell brush to the cell under the pointer
+   * The cell follows the grid currently shown on the canvas
+   */
+  const editCellAt = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const stroke = strokeRef.current;
+    if (!canvas || stroke === null) return;
+
+    const { cols, rows } = importedGrid
+      ? importedGrid.grid
+      : gridDimensions(canvas.width, canvas.height, params.stitchPx);
+    const bounds = canvas.getBoundingClientRect();
+    const cell = cellAtPoint(
+      e.clientX - bounds.left, e.clientY - bounds.top, bounds.width, bounds.height, cols, rows
+    );
+    if (cell) setCellOverride(cell.x, cell.y, brushOverride(cellBrush), stroke);
+  }, [importedGrid, params.stitchPx, cellBrush, setCellOverride]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isEditingCells || (!image && !importedGrid)) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    // Each stroke is one undo step
+    strokeRef.current = nextStrokeRef.current++;
+    editCellAt(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (strokeRef.current !== null) editCellAt(e);
+  };
+
+  // Pointer capture ends by itself on pointerup
+  const handlePointerUp = () => {
+    strokeRef.current = null;
+  };
 
   /**
    * Render placeholder when no image is loaded
@@ -165,18 +272,6 @@ export function KnitCanvas() {
     video.src = objectUrl;
 
     const handleLoadedMetadata = () => {
-      const canvas = canvasRef.current;
-      const container = containerRef.current;
-      if (!canvas || !container) return;
-
-      const rect = container.getBoundingClientRect();
-      const size = Math.min(Math.floor(rect.width), Math.floor(rect.height));
-      if (size === 0) return;
-
-      canvas.width = size;
-      canvas.height = size;
-      setCanvasSize(size, size);
-
       // Start animation
       setIsAnimating(true);
       video.play();
@@ -187,7 +282,7 @@ export function KnitCanvas() {
           return;
         }
 
-        await renderVideoFrame(video, size);
+        await renderVideoFrame(video);
         animationFrameRef.current = requestAnimationFrame(animate);
       };
 
@@ -213,7 +308,7 @@ export function KnitCanvas() {
       }
       setIsAnimating(false);
     };
-  }, [videoFile, renderVideoFrame, setCanvasSize, setIsAnimating]);
+  }, [videoFile, renderVideoFrame, setIsAnimating]);
 
   /**
    * Render loop using requestAnimationFrame (for static images)
@@ -247,11 +342,21 @@ export function KnitCanvas() {
   }, [
     params.stitchPx,
     params.paletteMix,
+    params.brandLock,
+    params.colorMetric,
     params.dither,
+    params.ditherMode,
     params.contrast,
     params.saturation,
     params.edgeCrispness,
     params.showGridLines,
+    params.seed,
+    params.glyphMapping,
+    params.glyphT1,
+    params.glyphT2,
+    params.autoThresholds,
+    params.glyphTable,
+    aspectRatio,
     setDirty,
   ]);
 
@@ -286,15 +391,18 @@ export function KnitCanvas() {
       style={{
         width: '100%',
         height: '100%',
-        backgroundColor: `rgb(${Math.round(BACKGROUND_COLOR[0] * 255)}, ${Math.round(BACKGROUND_COLOR[1] * 255)}, ${Math.round(BACKGROUND_COLOR[2] * 255)})`,
       }}
     >
       <canvas
         ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
         style={{
           display: 'block',
-          width: '100%',
-          height: '100%',
+          cursor: isEditingCells ? 'crosshair' : undefined,
+          touchAction: isEditingCells ? 'none' : undefined,
+          backgroundColor: `rgb(${Math.round(backgroundColor[0] * 255)}, ${Math.round(backgroundColor[1] * 255)}, ${Math.round(backgroundColor[2] * 255)})`,
           imageRendering: 'pixelated', // Keep crisp at low resolutions
         }}
       />
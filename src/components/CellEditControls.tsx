@@ -0,0 +1,113 @@
+/**
+ * CellEditControls component - paint, erase and restore individual cells
+ */
+
+import { useMemo } from 'react';
+import { useKnitStore, selectActivePalette } from '../state/useKnitStore';
+import type { GlyphType } from '../types';
+
+const GLYPH_LABELS: Record<GlyphType, string> = {
+  diamond: '◆ Diamond',
+  square: '■ Square',
+  circle: '● Circle',
+};
+
+/**
+ * Cell editing mode toggle, brush picker and edit count
+ */
+export function CellEditControls() {
+  const image = useKnitStore((state) => state.image);
+  const importedGrid = useKnitStore((state) => state.importedGrid);
+  const cellOverrides = useKnitStore((state) => state.cellOverrides);
+  const isEditingCells = useKnitStore((state) => state.isEditingCells);
+  const setIsEditingCells = useKnitStore((state) => state.setIsEditingCells);
+  const cellBrush = useKnitStore((state) => state.cellBrush);
+  const setCellBrush = useKnitStore((state) => state.setCellBrush);
+  const clearCellOverrides = useKnitStore((state) => state.clearCellOverrides);
+  const activePalette = useKnitStore(selectActivePalette);
+
+  // Palette indices follow the enabled swatches (an imported grid brings its own colors)
+  const colors = useMemo(
+    () =>
+      importedGrid
+        ? importedGrid.grid.palette.map((color, i) => ({
+            name: importedGrid.names[i] ?? `Color ${i + 1}`,
+            css: `rgb(${color.map((c) => Math.round(c * 255)).join(', ')})`,
+          }))
+        : activePalette.swatches.filter((s) => s.enabled).map((s) => ({ name: s.name, css: s.hex })),
+    [activePalette, importedGrid]
+  );
+
+  const editCount = Object.keys(cellOverrides).length;
+  const glyph = cellBrush.kind === 'paint' ? cellBrush.glyph : 'square';
+  const paint = (colorIndex: number, brushGlyph: GlyphType = glyph) =>
+    setCellBrush({ kind: 'paint', colorIndex, glyph: brushGlyph });
+
+  return (
+    <div className="cell-edits">
+      <h3>Cell Edits</h3>
+      <button
+        className="crop-toggle"
+        onClick={() => setIsEditingCells(!isEditingCells)}
+        disabled={!image && !importedGrid}
+        aria-pressed={isEditingCells}
+      >
+        {isEditingCells ? 'Done Editing' : 'Edit Cells'}
+      </button>
+
+      {isEditingCells && (
+        <>
+          <div className="cell-brush-swatches" role="group" aria-label="Paint color">
+            {colors.map((color, i) => (
+              <button
+                key={i}
+                className="cell-brush-swatch"
+                style={{ backgroundColor: color.css }}
+                onClick={() => paint(i)}
+                aria-pressed={cellBrush.kind === 'paint' && cellBrush.colorIndex === i}
+                aria-label={`Paint ${color.name}`}
+                title={color.name}
+              />
+            ))}
+          </div>
+
+          <div className="control-group">
+            <label htmlFor="cell-brush-glyph">Glyph</label>
+            <select
+              id="cell-brush-glyph"
+              value={glyph}
+              onChange={(e) =>
+                paint(cellBrush.kind === 'paint' ? cellBrush.colorIndex : 1, e.target.value as GlyphType)
+              }
+            >
+              {(Object.keys(GLYPH_LABELS) as GlyphType[]).map((g) => (
+                <option key={g} value={g}>
+                  {GLYPH_LABELS[g]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="cell-brush-tools">
+            <button onClick={() => setCellBrush({ kind: 'erase' })} aria-pressed={cellBrush.kind === 'erase'}>
+              Erase
+            </button>
+            <button onClick={() => setCellBrush({ kind: 'restore' })} aria-pressed={cellBrush.kind === 'restore'}>
+              Restore
+            </button>
+          </div>
+          <p className="cell-edits-hint">
+            Click or drag over the canvas. Erase shows the background; Restore brings back the computed cell.
+          </p>
+        </>
+      )}
+
+      <div className="cell-edits-summary">
+        <span>{editCount === 1 ? '1 cell edited' : `${editCount} cells edited`}</span>
+        <button onClick={clearCellOverrides} disabled={editCount === 0}>
+          Clear edits
+        </button>
+      </div>
+    </div>
+  );
+}
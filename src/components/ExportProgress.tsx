@@ -0,0 +1,35 @@
+/**
+ * ExportProgress component - phase, progress bar, ETA and cancel button for the running export
+ */
+
+import { useKnitStore } from '../state/useKnitStore';
+import { EXPORT_PHASE_LABELS, formatDuration } from '../lib/exportJob';
+
+/**
+ * Progress of the running export; renders nothing when idle
+ */
+export function ExportProgress() {
+  const job = useKnitStore((state) => state.exportJob);
+  const cancelExportJob = useKnitStore((state) => state.cancelExportJob);
+
+  if (!job) return null;
+
+  const status = job.cancelling ? 'Cancelling…' : `${EXPORT_PHASE_LABELS[job.phase]}…`;
+
+  return (
+    <div className="export-progress" role="status" aria-live="polite">
+      <div className="export-progress-header">
+        <span>
+          {job.label}: {status}
+        </span>
+        <span className="control-value">
+          {job.percent}%{job.etaMs !== null && ` · ${formatDuration(job.etaMs)} left`}
+        </span>
+      </div>
+      <progress max={100} value={job.percent} aria-label={`${job.label} export progress`} />
+      <button onClick={cancelExportJob} disabled={job.cancelling}>
+        Cancel
+      </button>
+    </div>
+  );
+}
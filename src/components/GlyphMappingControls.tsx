@@ -0,0 +1,144 @@
+/**
+ * GlyphMappingControls component - choose how cells map to glyph shapes
+ */
+
+import { useMemo } from 'react';
+import { useKnitStore, selectActivePalette } from '../state/useKnitStore';
+import { glyphForIndex, GLYPH_CYCLE } from '../lib/mapping';
+import type { GlyphMapping, GlyphType } from '../types';
+
+const GLYPH_LABELS: Record<GlyphType, string> = {
+  diamond: '◆ Diamond',
+  square: '■ Square',
+  circle: '● Circle',
+};
+
+/**
+ * Glyph mapping strategy selector with threshold and table editors
+ */
+export function GlyphMappingControls() {
+  const params = useKnitStore((state) => state.params);
+  const updateParam = useKnitStore((state) => state.updateParam);
+  const activePalette = useKnitStore(selectActivePalette);
+
+  // Table rows follow the enabled swatches, which is how palette indices are assigned
+  const enabledSwatches = useMemo(
+    () => activePalette.swatches.filter((s) => s.enabled),
+    [activePalette]
+  );
+
+  const setThreshold = (key: 'glyphT1' | 'glyphT2', value: number) => {
+    // Keep t1 below t2
+    if (key === 'glyphT1') {
+      updateParam('glyphT1', Math.min(value, params.glyphT2 - 0.01));
+    } else {
+      updateParam('glyphT2', Math.max(value, params.glyphT1 + 0.01));
+    }
+  };
+
+  const setTableEntry = (index: number, glyph: GlyphType) => {
+    const table = enabledSwatches.map((_, i) => glyphForIndex(i, params.glyphTable));
+    table[index] = glyph;
+    updateParam('glyphTable', table);
+  };
+
+  return (
+    <>
+      <div className="control-group">
+        <label htmlFor="glyph-mapping">Glyph Mapping</label>
+        <select
+          id="glyph-mapping"
+          value={params.glyphMapping}
+          onChange={(e) => updateParam('glyphMapping', e.target.value as GlyphMapping)}
+        >
+          <option value="checkerboard">Checkerboard (prominent color)</option>
+          <option value="luminance">Luminance bands</option>
+          <option value="palette-index">By palette color</option>
+          <option value="custom">Custom color table</option>
+        </select>
+      </div>
+
+      {params.glyphMapping === 'luminance' && (
+        <>
+          <div className="control-group">
+            <label htmlFor="auto-thresholds">
+              <input
+                id="auto-thresholds"
+                type="checkbox"
+                checked={params.autoThresholds}
+                onChange={(e) => updateParam('autoThresholds', e.target.checked)}
+              />
+              Auto thresholds (from image)
+            </label>
+          </div>
+
+          <div className="control-group">
+            <label htmlFor="glyph-t1">
+              Diamond below
+              <span className="control-value">{params.glyphT1.toFixed(2)}</span>
+            </label>
+            <input
+              id="glyph-t1"
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={params.glyphT1}
+              disabled={params.autoThresholds}
+              onChange={(e) => setThreshold('glyphT1', parseFloat(e.target.value))}
+              aria-valuemin={0}
+              aria-valuemax={1}
+              aria-valuenow={params.glyphT1}
+            />
+          </div>
+
+          <div className="control-group">
+            <label htmlFor="glyph-t2">
+              Circle above
+              <span className="control-value">{params.glyphT2.toFixed(2)}</span>
+            </label>
+            <input
+              id="glyph-t2"
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={params.glyphT2}
+              disabled={params.autoThresholds}
+              onChange={(e) => setThreshold('glyphT2', parseFloat(e.target.value))}
+              aria-valuemin={0}
+              aria-valuemax={1}
+              aria-valuenow={params.glyphT2}
+            />
+          </div>
+        </>
+      )}
+
+      {params.glyphMapping === 'custom' && (
+        <ul className="glyph-table">
+          {enabledSwatches.map((swatch, index) => (
+            <li key={index} className="glyph-table-row">
+              <span className="glyph-table-swatch" style={{ backgroundColor: swatch.hex }} />
+              <span className="glyph-table-name">
+                {swatch.name}
+                {index === 0 && ' (background)'}
+              </span>
+              <select
+                value={glyphForIndex(index, params.glyphTable)}
+                disabled={index === 0}
+                onChange={(e) => setTableEntry(index, e.target.value as GlyphType)}
+                aria-label={`Glyph for ${swatch.name}`}
+              >
+                {GLYPH_CYCLE.map((glyph) => (
+                  <option key={glyph} value={glyph}>
+                    {GLYPH_LABELS[glyph]}
+                  </option>
+                ))}
+              </select>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,208 @@
+/**
+ * PaletteEditor component - choose and edit brand palettes
+ */
+
+import { useEffect, useState } from 'react';
+import { useKnitStore, selectActivePalette } from '../state/useKnitStore';
+import { hexToRgb, rgbToHex, MIN_PALETTE_SWATCHES, MAX_PALETTE_SWATCHES, MIN_ENABLED_SWATCHES, withEnabledMinimum } from '../lib/palette';
+import type { BrandPalette, PaletteSwatch } from '../types';
+
+/**
+ * Create a unique id for a custom palette
+ */
+function createPaletteId(): string {
+  return `palette-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+interface SwatchRowProps {
+  swatch: PaletteSwatch;
+  index: number;
+  readOnly: boolean;
+  canRemove: boolean;
+  canDisable: boolean;
+  onChange: (index: number, swatch: PaletteSwatch) => void;
+  onRemove: (index: number) => void;
+}
+
+/**
+ * Single swatch row with color picker, hex entry and enable toggle
+ */
+function SwatchRow({ swatch, index, readOnly, canRemove, canDisable, onChange, onRemove }: SwatchRowProps) {
+  // Keep the typed hex locally so partial input isn't rejected while typing
+  const [hexDraft, setHexDraft] = useState(swatch.hex);
+
+  useEffect(() => {
+    setHexDraft(swatch.hex);
+  }, [swatch.hex]);
+
+  const commitHex = (value: string) => {
+    setHexDraft(value);
+    const rgb = hexToRgb(value);
+    if (rgb) {
+      onChange(index, { ...swatch, hex: rgbToHex(rgb) });
+    }
+  };
+
+  const isValid = hexToRgb(hexDraft) !== null;
+
+  return (
+    <li className="swatch-row">
+      <input
+        type="checkbox"
+        checked={swatch.enabled}
+        disabled={readOnly || (swatch.enabled && !canDisable)}
+        onChange={(e) => onChange(index, { ...swatch, enabled: e.target.checked })}
+        aria-label={`Use ${swatch.name} in the mosaic`}
+      />
+      <input
+        type="color"
+        value={swatch.hex.toLowerCase()}
+        disabled={readOnly}
+        onChange={(e) => commitHex(e.target.value)}
+        aria-label={`${swatch.name} color`}
+      />
+      <input
+        type="text"
+        className={isValid ? 'swatch-hex' : 'swatch-hex invalid'}
+        value={hexDraft}
+        readOnly={readOnly}
+        maxLength={7}
+        onChange={(e) => commitHex(e.target.value)}
+        onBlur={() => setHexDraft(swatch.hex)}
+        aria-label={`${swatch.name} hex value`}
+        aria-invalid={!isValid}
+      />
+      <input
+        type="text"
+        className="swatch-name"
+        value={swatch.name}
+        readOnly={readOnly}
+        onChange={(e) => onChange(index, { ...swatch, name: e.target.value })}
+        aria-label={`Swatch ${index + 1} name`}
+      />
+      {!readOnly && (
+        <button
+          className="swatch-remove"
+          onClick={() => onRemove(index)}
+          disabled={!canRemove}
+          aria-label={`Remove ${swatch.name}`}
+        >
+          ×
+        </button>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Palette selection and editing panel
+ * Built-in palettes are read-only; duplicate one to edit it
+ */
+export function PaletteEditor() {
+  const palettes = useKnitStore((state) => state.palettes);
+  const activePalette = useKnitStore(selectActivePalette);
+  const setActivePalette = useKnitStore((state) => state.setActivePalette);
+  const savePalette = useKnitStore((state) => state.savePalette);
+  const updatePalette = useKnitStore((state) => state.updatePalette);
+  const deletePalette = useKnitStore((state) => state.deletePalette);
+
+  const readOnly = activePalette.builtIn === true;
+  const swatches = activePalette.swatches;
+  const enabledCount = swatches.filter((s) => s.enabled).length;
+
+  const handleDuplicate = () => {
+    const copy: BrandPalette = {
+      id: createPaletteId(),
+      name: `${activePalette.name} copy`,
+      swatches: swatches.map((s) => ({ ...s })),
+    };
+    savePalette(copy);
+  };
+
+  const handleSwatchChange = (index: number, swatch: PaletteSwatch) => {
+    const next = swatches.map((s, i) => (i === index ? swatch : s));
+    updatePalette(activePalette.id, { swatches: next });
+  };
+
+  const handleSwatchRemove = (index: number) => {
+    if (swatches.length <= MIN_PALETTE_SWATCHES) return;
+    // Always keep a background and at least one color to draw
+    const next = withEnabledMinimum(swatches.filter((_, i) => i !== index));
+    updatePalette(activePalette.id, { swatches: next });
+  };
+
+  const handleSwatchAdd = () => {
+    if (swatches.length >= MAX_PALETTE_SWATCHES) return;
+    const next = [...swatches, { name: `Color ${swatches.length + 1}`, hex: '#FFFFFF', enabled: true }];
+    updatePalette(activePalette.id, { swatches: next });
+  };
+
+  return (
+    <div className="palette-editor">
+      <h3>Palette</h3>
+
+      <div className="palette-select-row">
+        <select
+          value={activePalette.id}
+          onChange={(e) => setActivePalette(e.target.value)}
+          aria-label="Select palette"
+        >
+          {palettes.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}{p.builtIn ? '' : ' (custom)'}
+            </option>
+          ))}
+        </select>
+        <button onClick={handleDuplicate} aria-label="Duplicate palette for editing">
+          Duplicate
+        </button>
+        {!readOnly && (
+          <button
+            onClick={() => deletePalette(activePalette.id)}
+            aria-label={`Delete palette ${activePalette.name}`}
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      {!readOnly && (
+        <input
+          type="text"
+          className="palette-name"
+          value={activePalette.name}
+          onChange={(e) => updatePalette(activePalette.id, { name: e.target.value })}
+          aria-label="Palette name"
+        />
+      )}
+
+      <ul className="swatch-list">
+        {swatches.map((swatch, index) => (
+          <SwatchRow
+            key={index}
+            swatch={swatch}
+            index={index}
+            readOnly={readOnly}
+            canRemove={swatches.length > MIN_PALETTE_SWATCHES}
+            canDisable={enabledCount > MIN_ENABLED_SWATCHES}
+            onChange={handleSwatchChange}
+            onRemove={handleSwatchRemove}
+          />
+        ))}
+      </ul>
+
+      {readOnly ? (
+        <p className="palette-hint">Built-in palette. Duplicate it to make changes.</p>
+      ) : (
+        <button
+          className="swatch-add"
+          onClick={handleSwatchAdd}
+          disabled={swatches.length >= MAX_PALETTE_SWATCHES}
+        >
+          Add swatch ({swatches.length}/{MAX_PALETTE_SWATCHES})
+        </button>
+      )}
+      <p className="palette-hint">The first enabled swatch is the background.</p>
+    </div>
+  );
+}
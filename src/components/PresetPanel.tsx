@@ -0,0 +1,162 @@
+/**
+ * PresetPanel component - apply, save and share knit presets
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useKnitStore } from '../state/useKnitStore';
+import { exportPresets } from '../lib/export';
+import { parsePresetsJSON, MAX_PRESET_NAME_LENGTH } from '../lib/presets';
+import type { KnitPreset } from '../types';
+
+interface PresetRowProps {
+  preset: KnitPreset;
+  onApply: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Custom preset row with rename, apply and delete
+ */
+function PresetRow({ preset, onApply, onRename, onDelete }: PresetRowProps) {
+  // Keep the typed name locally so clearing the field doesn't reset it mid-edit
+  const [nameDraft, setNameDraft] = useState(preset.name);
+
+  useEffect(() => {
+    setNameDraft(preset.name);
+  }, [preset.name]);
+
+  const commitName = () => {
+    if (nameDraft !== preset.name) onRename(preset.id, nameDraft);
+    // Blank names are rejected by the store; show the kept name again
+    setNameDraft(preset.name);
+  };
+
+  return (
+    <li className="preset-row">
+      <input
+        type="text"
+        value={nameDraft}
+        maxLength={MAX_PRESET_NAME_LENGTH}
+        onChange={(e) => setNameDraft(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+        aria-label={`Rename preset ${preset.name}`}
+      />
+      <button onClick={() => onApply(preset.id)} aria-label={`Apply ${preset.name} preset`}>
+        Apply
+      </button>
+      <button className="preset-delete" onClick={() => onDelete(preset.id)} aria-label={`Delete preset ${preset.name}`}>
+        ×
+      </button>
+    </li>
+  );
+}
+
+/**
+ * Built-in and custom presets
+ * Built-in presets are read-only; custom presets can be renamed, deleted and shared as JSON
+ */
+export function PresetPanel() {
+  const presets = useKnitStore((state) => state.presets);
+  const applyPreset = useKnitStore((state) => state.applyPreset);
+  const savePreset = useKnitStore((state) => state.savePreset);
+  const updatePreset = useKnitStore((state) => state.updatePreset);
+  const deletePreset = useKnitStore((state) => state.deletePreset);
+  const importPresets = useKnitStore((state) => state.importPresets);
+  const showToast = useKnitStore((state) => state.showToast);
+
+  const [newName, setNewName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const builtIn = presets.filter((p) => p.builtIn);
+  const custom = presets.filter((p) => !p.builtIn);
+
+  const handleSave = () => {
+    savePreset(newName);
+    setNewName('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow importing the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePresetsJSON(await file.text());
+      importPresets(imported);
+      showToast('info', `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+      console.error('Failed to import presets:', error);
+      showToast('error', `Failed to import presets: ${error instanceof Error ? error.message : 'unknown error'}.`);
+    }
+  };
+
+  return (
+    <div className="presets">
+      <h3>Presets</h3>
+      <div className="preset-buttons">
+        {builtIn.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => applyPreset(preset.id)}
+            aria-label={`Apply ${preset.name} preset`}
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+
+      {custom.length > 0 && (
+        <ul className="preset-list">
+          {custom.map((preset) => (
+            <PresetRow
+              key={preset.id}
+              preset={preset}
+              onApply={applyPreset}
+              onRename={(id, name) => updatePreset(id, { name })}
+              onDelete={deletePreset}
+            />
+          ))}
+        </ul>
+      )}
+
+      <div className="preset-save-row">
+        <input
+          type="text"
+          value={newName}
+          placeholder="Preset name"
+          maxLength={MAX_PRESET_NAME_LENGTH}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+          }}
+          aria-label="New preset name"
+        />
+        <button onClick={handleSave}>Save current</button>
+      </div>
+
+      <div className="preset-file-row">
+        <button
+          onClick={() => exportPresets(presets)}
+          disabled={custom.length === 0}
+          aria-label="Export custom presets as JSON"
+        >
+          Export presets
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          style={{ display: 'none' }}
+          aria-label="Select preset JSON file"
+        />
+        <button onClick={() => importInputRef.current?.click()}>Import presets…</button>
+      </div>
+    </div>
+  );
+}
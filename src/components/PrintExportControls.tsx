@@ -0,0 +1,149 @@
+/**
+ * PrintExportControls component - print-ready PDF export settings
+ */
+
+import { useState } from 'react';
+import { useKnitStore, selectActivePalette } from '../state/useKnitStore';
+import { buildKnitGrid } from '../lib/render';
+import { exportPDF } from '../lib/export';
+import { paletteColors } from '../lib/palette';
+import { PAPER_SIZES } from '../lib/pdf';
+import type { PaperSize } from '../lib/pdf';
+
+/**
+ * Paper, bleed and mark options with an export button
+ * The grid uses the preview's columns and rows, or an imported grid as is
+ */
+export function PrintExportControls({ disabled }: { disabled: boolean }) {
+  const image = useKnitStore((state) => state.image);
+  const params = useKnitStore((state) => state.params);
+  const crop = useKnitStore((state) => state.crop);
+  const canvasWidth = useKnitStore((state) => state.canvasWidth);
+  const canvasHeight = useKnitStore((state) => state.canvasHeight);
+  const activePalette = useKnitStore(selectActivePalette);
+  const importedGrid = useKnitStore((state) => state.importedGrid);
+  const showToast = useKnitStore((state) => state.showToast);
+
+  const [paper, setPaper] = useState<PaperSize>('A4');
+  const [customWidthMm, setCustomWidthMm] = useState(500);
+  const [customHeightMm, setCustomHeightMm] = useState(700);
+  const [bleedMm, setBleedMm] = useState(3);
+  const [cropMarks, setCropMarks] = useState(true);
+  const [colorBar, setColorBar] = useState(true);
+
+  const handleExport = () => {
+    if (!image && !importedGrid) return;
+
+    try {
+      const grid = importedGrid
+        ? importedGrid.grid
+        : buildKnitGrid(image!, params, canvasWidth, canvasHeight, paletteColors(activePalette), crop);
+      exportPDF(grid, {
+        paper,
+        customWidthMm,
+        customHeightMm,
+        bleedMm,
+        cropMarks,
+        colorBar,
+        gridLines: params.showGridLines,
+        // Palette indices follow the enabled swatches
+        spotNames: importedGrid
+          ? importedGrid.names
+          : activePalette.swatches.filter((s) => s.enabled).map((s) => s.name),
+      });
+    } catch (error) {
+      console.error('Failed to export PDF:', error);
+      showToast('error', 'Failed to export PDF. Please try again.');
+    }
+  };
+
+  /**
+   * Parse a millimetre input, ignoring invalid values
+   */
+  const parseMm = (value: string, min: number, max: number, apply: (mm: number) => void) => {
+    const mm = parseFloat(value);
+    if (!Number.isNaN(mm)) apply(Math.max(min, Math.min(max, mm)));
+  };
+
+  return (
+    <div className="print-export">
+      <h3>Print PDF</h3>
+
+      <div className="print-row">
+        <label htmlFor="pdf-paper">Paper</label>
+        <select id="pdf-paper" value={paper} onChange={(e) => setPaper(e.target.value as PaperSize)}>
+          {(Object.keys(PAPER_SIZES) as (keyof typeof PAPER_SIZES)[]).map((size) => (
+            <option key={size} value={size}>
+              {size} ({PAPER_SIZES[size].width}×{PAPER_SIZES[size].height} mm)
+            </option>
+          ))}
+          <option value="custom">Custom (mm)</option>
+        </select>
+      </div>
+
+      {paper === 'custom' && (
+        <div className="print-row">
+          <input
+            type="number"
+            min="10"
+            max="5000"
+            value={customWidthMm}
+            onChange={(e) => parseMm(e.target.value, 10, 5000, setCustomWidthMm)}
+            aria-label="Custom width in millimetres"
+          />
+          <span>×</span>
+          <input
+            type="number"
+            min="10"
+            max="5000"
+            value={customHeightMm}
+            onChange={(e) => parseMm(e.target.value, 10, 5000, setCustomHeightMm)}
+            aria-label="Custom height in millimetres"
+          />
+          <span>mm</span>
+        </div>
+      )}
+
+      <div className="print-row">
+        <label htmlFor="pdf-bleed">Bleed (mm)</label>
+        <input
+          id="pdf-bleed"
+          type="number"
+          min="0"
+          max="20"
+          step="0.5"
+          value={bleedMm}
+          onChange={(e) => parseMm(e.target.value, 0, 20, setBleedMm)}
+        />
+      </div>
+
+      <label className="export-option" htmlFor="pdf-crop-marks">
+        <input
+          id="pdf-crop-marks"
+          type="checkbox"
+          checked={cropMarks}
+          onChange={(e) => setCropMarks(e.target.checked)}
+        />
+        Crop marks
+      </label>
+      <label className="export-option" htmlFor="pdf-color-bar">
+        <input
+          id="pdf-color-bar"
+          type="checkbox"
+          checked={colorBar}
+          onChange={(e) => setColorBar(e.target.checked)}
+        />
+        Color bar (spot swatches)
+      </label>
+
+      <button
+        onClick={handleExport}
+        className="export-button"
+        disabled={(!image && !importedGrid) || disabled}
+        aria-label="Export print-ready PDF"
+      >
+        Export PDF
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * Toasts component - non-blocking notifications that dismiss themselves
+ */
+
+import { useEffect } from 'react';
+import { useKnitStore } from '../state/useKnitStore';
+import type { Toast } from '../state/useKnitStore';
+
+/** How long each kind of toast stays up (ms) */
+const TOAST_DURATION: Record<Toast['kind'], number> = {
+  error: 8000,
+  info: 5000,
+};
+
+/** How long a toast with an action stays up, to leave time to act on it (ms) */
+const ACTION_TOAST_DURATION = 15000;
+
+/**
+ * A single notification with an optional action and a close button
+ */
+function ToastItem({ toast, onDismiss }: { toast: Toast; onDismiss: (id: number) => void }) {
+  useEffect(() => {
+    const duration = toast.action ? ACTION_TOAST_DURATION : TOAST_DURATION[toast.kind];
+    const timer = setTimeout(() => onDismiss(toast.id), duration);
+    return () => clearTimeout(timer);
+  }, [toast, onDismiss]);
+
+  return (
+    <div className={`toast toast-${toast.kind}`} role={toast.kind === 'error' ? 'alert' : 'status'}>
+      <span>{toast.message}</span>
+      {toast.action && (
+        <button
+          className="toast-action"
+          onClick={() => {
+            toast.action!.run();
+            onDismiss(toast.id);
+          }}
+        >
+          {toast.action.label}
+        </button>
+      )}
+      <button onClick={() => onDismiss(toast.id)} aria-label="Dismiss notification">
+        ×
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Stack of current notifications
+ */
+export function Toasts() {
+  const toasts = useKnitStore((state) => state.toasts);
+  const dismissToast = useKnitStore((state) => state.dismissToast);
+
+  return (
+    <div className="toasts">
+      {toasts.map((toast) => (
+        <ToastItem key={toast.id} toast={toast} onDismiss={dismissToast} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * Frame differencing shared by the animated image encoders (GIF, APNG, WebP)
+ */
+
+/** Rectangle in pixels */
+export interface FrameRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Differencing options */
+export interface FrameDiffOptions {
+  /** Only encode the region that changed since the previous frame (default true) */
+  changedOnly?: boolean;
+  /** Round the region's origin down to a multiple of this (WebP needs 2) */
+  align?: number;
+}
+
+/**
+ * Bounding rectangle of the pixels that differ between two frames
+ * @param previous Previous frame, one value per pixel (color index or packed RGBA)
+ * @param next Next frame
+ * @param width Frame width
+ * @param height Frame height
+ * @returns The changed rectangle, or null if the frames are identical
+ */
+export function diffRect(
+  previous: ArrayLike<number>,
+  next: ArrayLike<number>,
+  width: number,
+  height: number
+): FrameRect | null {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (previous[row + x] !== next[row + x]) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        maxY = y;
+      }
+    }
+  }
+
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Create a differ that decides which region of each frame to encode
+ * The first frame is always encoded in full. Later frames return the changed
+ * region (or the full frame when changedOnly is off), or null when nothing
+ * changed and the previous frame should simply be shown longer
+ * @param width Frame width
+ * @param height Frame height
+ * @param options Differencing options
+ */
+export function createFrameDiffer(
+  width: number,
+  height: number,
+  options: FrameDiffOptions = {}
+): (pixels: ArrayLike<number>) => FrameRect | null {
+  const { changedOnly = true, align = 1 } = options;
+  let previous: ArrayLike<number> | null = null;
+
+  return (pixels) => {
+    const full = { x: 0, y: 0, width, height };
+    if (!previous) {
+      previous = pixels;
+      return full;
+    }
+
+    const changed = diffRect(previous, pixels, width, height);
+    if (!changed) return null;
+    previous = pixels;
+    if (!changedOnly) return full;
+
+    const x = Math.floor(changed.x / align) * align;
+    const y = Math.floor(changed.y / align) * align;
+    return { x, y, width: changed.x + changed.width - x, height: changed.y + changed.height - y };
+  };
+}
+
+/**
+ * Copy a rectangle out of a frame of color indices
+ * @param indices Color index per pixel, row by row
+ * @param width Frame width
+ * @param rect Region to copy
+ */
+export function cropIndices(indices: Uint8Array, width: number, rect: FrameRect): Uint8Array {
+  if (rect.x === 0 && rect.width === width) {
+    return indices.subarray(rect.y * width, (rect.y + rect.height) * width);
+  }
+  const out = new Uint8Array(rect.width * rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const start = (rect.y + y) * width + rect.x;
+    out.set(indices.subarray(start, start + rect.width), y * rect.width);
+  }
+  return out;
+}
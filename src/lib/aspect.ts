@@ -0,0 +1,150 @@
+/**
+ * Aspect ratio presets and canvas/crop sizing helpers
+ */
+
+import type { AspectRatioPreset, ExportSizePreset } from '../types';
+
+/** Aspect ratio preset definition */
+interface AspectPresetInfo {
+  /** Display label */
+  label: string;
+  /** Width / height; null for the custom preset */
+  ratio: number | null;
+}
+
+/** Available aspect ratio presets */
+export const ASPECT_PRESETS: Record<AspectRatioPreset, AspectPresetInfo> = {
+  '1:1': { label: 'Square 1:1', ratio: 1 },
+  '4:5': { label: 'Portrait 4:5 (feed)', ratio: 4 / 5 },
+  '9:16': { label: 'Story 9:16', ratio: 9 / 16 },
+  '16:9': { label: 'Landscape 16:9 (video)', ratio: 16 / 9 },
+  'a4-portrait': { label: 'A-series portrait', ratio: 210 / 297 },
+  'a4-landscape': { label: 'A-series landscape', ratio: 297 / 210 },
+  custom: { label: 'Custom', ratio: null },
+};
+
+/** Short edge of exported images in pixels */
+export const EXPORT_SHORT_EDGE = 1080;
+
+/**
+ * Resolve an aspect ratio setting to a width / height ratio
+ * @param preset Aspect ratio preset
+ * @param customWidth Width part of a custom ratio
+ * @param customHeight Height part of a custom ratio
+ * @returns Width / height ratio (1 if the custom values are invalid)
+ */
+export function aspectRatioValue(
+  preset: AspectRatioPreset,
+  customWidth: number,
+  customHeight: number
+): number {
+  const fixed = ASPECT_PRESETS[preset]?.ratio;
+  if (fixed) return fixed;
+  if (customWidth > 0 && customHeight > 0 && Number.isFinite(customWidth / customHeight)) {
+    return customWidth / customHeight;
+  }
+  return 1;
+}
+
+/**
+ * Largest integer size with the given ratio that fits inside a box
+ * @param maxWidth Box width
+ * @param maxHeight Box height
+ * @param ratio Width / height
+ */
+export function fitAspect(maxWidth: number, maxHeight: number, ratio: number): { width: number; height: number } {
+  if (maxWidth <= 0 || maxHeight <= 0) return { width: 0, height: 0 };
+
+  if (maxWidth / maxHeight > ratio) {
+    return { width: Math.max(1, Math.floor(maxHeight * ratio)), height: Math.floor(maxHeight) };
+  }
+  return { width: Math.floor(maxWidth), height: Math.max(1, Math.floor(maxWidth / ratio)) };
+}
+
+/**
+ * Export dimensions for a ratio, with the short edge at a fixed size
+ * e.g. 1:1 → 1080×1080, 9:16 → 1080×1920, 16:9 → 1920×1080
+ * @param ratio Width / height
+ * @param shortEdge Short edge in pixels (default 1080)
+ */
+export function exportDimensions(ratio: number, shortEdge: number = EXPORT_SHORT_EDGE): { width: number; height: number } {
+  if (ratio >= 1) {
+    return { width: Math.round(shortEdge * ratio), height: shortEdge };
+  }
+  return { width: shortEdge, height: Math.round(shortEdge / ratio) };
+}
+
+/** Export size preset labels */
+export const EXPORT_SIZE_PRESETS: Record<ExportSizePreset, string> = {
+  '1080': '1080p',
+  '2160': '2160p',
+  '4k': '4K (3840 long edge)',
+  custom: 'Custom width',
+};
+
+/** Long edge of 4K exports in pixels */
+export const EXPORT_4K_LONG_EDGE = 3840;
+
+/** Largest exported edge in pixels (browsers cap canvas sizes) */
+export const MAX_EXPORT_EDGE = 8192;
+
+/**
+ * Export dimensions for a size preset
+ * 1080 and 2160 set the short edge, 4K sets the long edge, custom sets the width;
+ * both edges are kept within MAX_EXPORT_EDGE
+ * @param preset Export size preset
+ * @param ratio Width / height
+ * @param customWidth Width for the custom preset
+ */
+export function exportSizeFor(
+  preset: ExportSizePreset,
+  ratio: number,
+  customWidth: number
+): { width: number; height: number } {
+  let size: { width: number; height: number };
+  if (preset === '2160') {
+    size = exportDimensions(ratio, 2160);
+  } else if (preset === '4k') {
+    size = ratio >= 1
+      ? { width: EXPORT_4K_LONG_EDGE, height: Math.round(EXPORT_4K_LONG_EDGE / ratio) }
+      : { width: Math.round(EXPORT_4K_LONG_EDGE * ratio), height: EXPORT_4K_LONG_EDGE };
+  } else if (preset === 'custom' && customWidth > 0 && Number.isFinite(customWidth)) {
+    size = { width: Math.round(customWidth), height: Math.max(1, Math.round(customWidth / ratio)) };
+  } else {
+    size = exportDimensions(ratio);
+  }
+
+  const long = Math.max(size.width, size.height);
+  return long > MAX_EXPORT_EDGE ? fitAspect(MAX_EXPORT_EDGE, MAX_EXPORT_EDGE, ratio) : size;
+}
+
+/** Source rectangle in image pixels */
+export interface SourceRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Largest centered rectangle with the given ratio inside a source image
+ * @param sourceWidth Source image width
+ * @param sourceHeight Source image height
+ * @param ratio Width / height of the target
+ */
+export function centerCrop(sourceWidth: number, sourceHeight: number, ratio: number): SourceRect {
+  let width = sourceWidth;
+  let height = sourceWidth / ratio;
+
+  if (height > sourceHeight) {
+    height = sourceHeight;
+    width = sourceHeight * ratio;
+  }
+
+  return {
+    x: (sourceWidth - width) / 2,
+    y: (sourceHeight - height) / 2,
+    width,
+    height,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Autosave of the current project in IndexedDB
+ * The project record and its source media are stored under separate keys so
+ * the media is only written again when a new file is loaded
+ */
+
+import type { KnitProject } from './project';
+import { projectRecord, readProjectRecord } from './project';
+
+const DB_NAME = 'lidl-knit';
+const DB_VERSION = 1;
+const STORE_NAME = 'autosave';
+const PROJECT_KEY = 'project';
+const SOURCE_KEY = 'source';
+
+/** Delay between the last change and the autosave (ms) */
+export const AUTOSAVE_DELAY_MS = 1000;
+
+let database: Promise<IDBDatabase> | null = null;
+
+/** Source most recently written to (or read from) the autosave */
+let savedSource: File | null | undefined;
+
+/**
+ * Open the autosave database, creating it on first use
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+/**
+ * Wait for a request to finish
+ */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wait for a transaction to commit
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Autosave was aborted'));
+  });
+}
+
+/**
+ * Save the current project
+ * @param project Project to autosave
+ */
+export async function saveAutosave(project: KnitProject): Promise<void> {
+  const { source, ...record } = projectRecord(project);
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  store.put(record, PROJECT_KEY);
+  if (source !== savedSource) store.put(source, SOURCE_KEY);
+  await transactionDone(transaction);
+  savedSource = source;
+}
+
+/**
+ * Load the autosaved project
+ * @returns The project, or null if nothing has been saved yet
+ * @throws Error if the database cannot be opened or the saved project is invalid
+ */
+export async function loadAutosave(): Promise<KnitProject | null> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const [record, source] = await Promise.all([
+    requestResult(store.get(PROJECT_KEY)),
+    requestResult(store.get(SOURCE_KEY)),
+  ]);
+  if (!record) return null;
+
+  const project = readProjectRecord({ ...record, source: source ?? null });
+  savedSource = project.source;
+  return project;
+}
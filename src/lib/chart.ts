@@ -0,0 +1,306 @@
+/**
+ * Knitting chart: the computed grid laid out as a numbered stitch chart
+ * The chart is built as a small display list so the PNG (canvas) and PDF
+ * outputs draw exactly the same thing
+ */
+
+import type { KnitGrid, RGB, Canvas2DContext } from '../types';
+import { luminanceFromRGB } from './mapping';
+import { writePDF, pdfNumber as num, pdfString } from './pdf';
+
+/** One symbol per palette index (the background is left blank); max 16 swatches */
+export const CHART_SYMBOLS = [' ', 'X', 'O', '/', '\\', '+', '-', '=', '#', '*', 'V', 'T', 'H', 'Z', 'A', 'S'];
+
+/** Stitches between bold guide lines */
+export const CHART_GUIDE_INTERVAL = 10;
+
+/** Drawing primitive, in top-down coordinates */
+export type ChartOp =
+  | { type: 'rect'; x: number; y: number; width: number; height: number; fill: RGB }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; width: number; color: RGB }
+  | { type: 'text'; x: number; y: number; text: string; size: number; align: 'left' | 'center' | 'right'; color: RGB };
+
+/** Laid-out chart */
+export interface ChartDrawing {
+  width: number;
+  height: number;
+  ops: ChartOp[];
+}
+
+const BLACK: RGB = [0, 0, 0];
+const WHITE: RGB = [1, 1, 1];
+const GUIDE_GRAY: RGB = [0.6, 0.6, 0.6];
+
+/**
+ * Symbol for a palette index
+ */
+export function chartSymbol(index: number): string {
+  return CHART_SYMBOLS[index] ?? '?';
+}
+
+/**
+ * Palette index for a cell; empty cells are knitted in the background color
+ */
+function cellIndex(grid: KnitGrid, x: number, y: number): number {
+  return grid.cells[y][x]?.colorIndex ?? 0;
+}
+
+/**
+ * Count stitches per palette color
+ * @param grid Computed knit grid
+ * @returns Stitch count for each palette index
+ */
+export function stitchCounts(grid: KnitGrid): number[] {
+  const counts = new Array<number>(grid.palette.length).fill(0);
+  for (let y = 0; y < grid.rows; y++) {
+    for (let x = 0; x < grid.cols; x++) {
+      counts[cellIndex(grid, x, y)]++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Side a row number is printed on for flat knitting
+ * Right-side (odd) rows are read right to left and numbered on the right;
+ * wrong-side (even) rows are read left to right and numbered on the left
+ * @param row Row number, 1 = bottom row
+ */
+export function rowNumberSide(row: number): 'left' | 'right' {
+  return row % 2 === 1 ? 'right' : 'left';
+}
+
+/**
+ * Lay out a knitting chart for a grid
+ * Row 1 is the bottom row and stitch 1 the rightmost column, as charts are read
+ * @param grid Computed knit grid
+ * @param names Color names, one per palette index
+ * @param cellSize Size of one stitch square
+ */
+export function buildChart(grid: KnitGrid, names: string[], cellSize: number): ChartDrawing {
+  const { cols, rows, palette } = grid;
+  const c = cellSize;
+  const ops: ChartOp[] = [];
+  const fontSize = c * 0.6;
+
+  const margin = c;
+  const gutter = c * 3;
+  const gridX = margin + gutter;
+  const gridY = margin + c * 2;
+  const gridWidth = cols * c;
+  const gridHeight = rows * c;
+  const counts = stitchCounts(grid);
+  const legendY = gridY + gridHeight + c * 2.5;
+  const legendRow = c * 1.5;
+
+  const width = Math.max(gridX + gridWidth + gutter + margin, margin * 2 + c * 24);
+  const height = legendY + (palette.length + 1) * legendRow + margin;
+
+  ops.push({ type: 'rect', x: 0, y: 0, width, height, fill: WHITE });
+  ops.push({
+    type: 'text',
+    x: margin,
+    y: margin + c * 0.5,
+    text: `Knitting chart - ${cols} stitches x ${rows} rows`,
+    size: c * 0.8,
+    align: 'left',
+    color: BLACK,
+  });
+
+  // Cells: colored square with the color's symbol in a contrasting tone
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const index = cellIndex(grid, x, y);
+      const color = palette[index];
+      const cx = gridX + x * c;
+      const cy = gridY + y * c;
+      ops.push({ type: 'rect', x: cx, y: cy, width: c, height: c, fill: color });
+      const symbol = chartSymbol(index);
+      if (symbol.trim()) {
+        ops.push({
+          type: 'text',
+          x: cx + c / 2,
+          y: cy + c / 2,
+          text: symbol,
+          size: fontSize,
+          align: 'center',
+          color: luminanceFromRGB(color) > 0.4 ? BLACK : WHITE,
+        });
+      }
+    }
+  }
+
+  // Grid lines, bold every 10 stitches counted from the right and rows from the bottom
+  for (let i = 0; i <= cols; i++) {
+    const stitch = cols - i;
+    const bold = stitch % CHART_GUIDE_INTERVAL === 0 || i === 0;
+    const x = gridX + i * c;
+    ops.push({
+      type: 'line',
+      x1: x,
+      y1: gridY,
+      x2: x,
+      y2: gridY + gridHeight,
+      width: bold ? c / 8 : c / 24,
+      color: bold ? BLACK : GUIDE_GRAY,
+    });
+  }
+  for (let j = 0; j <= rows; j++) {
+    const row = rows - j;
+    const bold = row % CHART_GUIDE_INTERVAL === 0 || j === 0;
+    const y = gridY + j * c;
+    ops.push({
+      type: 'line',
+      x1: gridX,
+      y1: y,
+      x2: gridX + gridWidth,
+      y2: y,
+      width: bold ? c / 8 : c / 24,
+      color: bold ? BLACK : GUIDE_GRAY,
+    });
+  }
+
+  // Row numbers on alternating sides
+  for (let row = 1; row <= rows; row++) {
+    const y = gridY + (rows - row + 0.5) * c;
+    const right = rowNumberSide(row) === 'right';
+    ops.push({
+      type: 'text',
+      x: right ? gridX + gridWidth + c * 0.4 : gridX - c * 0.4,
+      y,
+      text: String(row),
+      size: fontSize,
+      align: right ? 'left' : 'right',
+      color: BLACK,
+    });
+  }
+
+  // Stitch numbers below the chart (1 and every guide interval)
+  for (let stitch = 1; stitch <= cols; stitch++) {
+    if (stitch !== 1 && stitch % CHART_GUIDE_INTERVAL !== 0) continue;
+    ops.push({
+      type: 'text',
+      x: gridX + (cols - stitch + 0.5) * c,
+      y: gridY + gridHeight + c * 0.8,
+      text: String(stitch),
+      size: fontSize,
+      align: 'center',
+      color: BLACK,
+    });
+  }
+
+  // Legend: symbol swatch, name and stitch count per color, then the total
+  palette.forEach((color, index) => {
+    const y = legendY + index * legendRow;
+    ops.push({ type: 'rect', x: margin, y, width: c, height: c, fill: color });
+    ops.push({ type: 'line', x1: margin, y1: y, x2: margin + c, y2: y, width: c / 24, color: BLACK });
+    ops.push({ type: 'line', x1: margin, y1: y + c, x2: margin + c, y2: y + c, width: c / 24, color: BLACK });
+    ops.push({ type: 'line', x1: margin, y1: y, x2: margin, y2: y + c, width: c / 24, color: BLACK });
+    ops.push({ type: 'line', x1: margin + c, y1: y, x2: margin + c, y2: y + c, width: c / 24, color: BLACK });
+    const symbol = chartSymbol(index);
+    if (symbol.trim()) {
+      ops.push({
+        type: 'text',
+        x: margin + c / 2,
+        y: y + c / 2,
+        text: symbol,
+        size: fontSize,
+        align: 'center',
+        color: luminanceFromRGB(color) > 0.4 ? BLACK : WHITE,
+      });
+    }
+    ops.push({
+      type: 'text',
+      x: margin + c * 1.6,
+      y: y + c / 2,
+      text: `${names[index] ?? `Color ${index + 1}`}${symbol.trim() ? '' : ' (blank)'}: ${counts[index]} stitches`,
+      size: fontSize,
+      align: 'left',
+      color: BLACK,
+    });
+  });
+  ops.push({
+    type: 'text',
+    x: margin,
+    y: legendY + palette.length * legendRow + c / 2,
+    text: `Total: ${cols * rows} stitches`,
+    size: fontSize,
+    align: 'left',
+    color: BLACK,
+  });
+
+  return { width, height, ops };
+}
+
+/**
+ * Convert an RGB color in [0, 1] to a CSS rgb() string
+ */
+function toCss(color: RGB): string {
+  return `rgb(${color.map((c) => Math.round(c * 255)).join(', ')})`;
+}
+
+/**
+ * Paint a chart to a canvas context
+ * @param ctx Canvas rendering context (at least drawing.width × drawing.height)
+ * @param drawing Laid-out chart
+ */
+export function paintChart(ctx: Canvas2DContext, drawing: ChartDrawing): void {
+  ctx.textBaseline = 'middle';
+  for (const op of drawing.ops) {
+    switch (op.type) {
+      case 'rect':
+        ctx.fillStyle = toCss(op.fill);
+        ctx.fillRect(op.x, op.y, op.width, op.height);
+        break;
+      case 'line':
+        ctx.strokeStyle = toCss(op.color);
+        ctx.lineWidth = op.width;
+        ctx.beginPath();
+        ctx.moveTo(op.x1, op.y1);
+        ctx.lineTo(op.x2, op.y2);
+        ctx.stroke();
+        break;
+      case 'text':
+        ctx.fillStyle = toCss(op.color);
+        ctx.font = `${op.size}px "Courier New", monospace`;
+        ctx.textAlign = op.align;
+        ctx.fillText(op.text, op.x, op.y);
+        break;
+    }
+  }
+}
+
+/**
+ * Serialize a chart as a single-page PDF (one chart unit = one point)
+ * Text uses Courier, whose fixed advance (0.6 em) makes alignment exact
+ * @param drawing Laid-out chart
+ * @returns PDF file bytes
+ */
+export function chartToPDF(drawing: ChartDrawing): Uint8Array<ArrayBuffer> {
+  const { width, height } = drawing;
+  const content: string[] = [];
+  const rgb = (c: RGB) => c.map(num).join(' ');
+
+  for (const op of drawing.ops) {
+    switch (op.type) {
+      case 'rect':
+        content.push(`${rgb(op.fill)} rg ${num(op.x)} ${num(height - op.y - op.height)} ${num(op.width)} ${num(op.height)} re f`);
+        break;
+      case 'line':
+        content.push(
+          `${rgb(op.color)} RG ${num(op.width)} w ${num(op.x1)} ${num(height - op.y1)} m ${num(op.x2)} ${num(height - op.y2)} l S`
+        );
+        break;
+      case 'text': {
+        const textWidth = op.text.length * op.size * 0.6;
+        const x = op.align === 'left' ? op.x : op.align === 'center' ? op.x - textWidth / 2 : op.x - textWidth;
+        // Baseline sits about a third of the size below the vertical centre
+        const baseline = height - op.y - op.size * 0.3;
+        content.push(`BT ${rgb(op.color)} rg /F2 ${num(op.size)} Tf ${num(x)} ${num(baseline)} Td ${pdfString(op.text)} Tj ET`);
+        break;
+      }
+    }
+  }
+
+  return writePDF({ width, height, content: content.join('\n') });
+}
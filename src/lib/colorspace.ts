@@ -0,0 +1,191 @@
+/**
+ * Color space conversions (sRGB, linear RGB, OKLab)
+ */
+
+import type { RGB } from '../types';
+
+/**
+ * Convert sRGB to linear RGB (gamma correction)
+ */
+export function srgbToLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert linear RGB to sRGB (inverse gamma correction)
+ */
+export function linearToSrgb(c: number): number {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+}
+
+/**
+ * Convert RGB tuple from sRGB to linear
+ */
+export function toLinear(rgb: RGB): RGB {
+  return [srgbToLinear(rgb[0]), srgbToLinear(rgb[1]), srgbToLinear(rgb[2])];
+}
+
+/**
+ * Convert an sRGB color to OKLab
+ * @param rgb sRGB color in [0, 1] range
+ * @returns [L, a, b] with L in [0, 1]
+ */
+export function rgbToOklab(rgb: RGB): [number, number, number] {
+  const [r, g, b] = toLinear(rgb);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ];
+}
+
+/**
+ * Convert an OKLab color back to sRGB
+ * Out-of-gamut results are clamped to [0, 1]
+ * @param lab [L, a, b] OKLab color
+ * @returns sRGB color in [0, 1] range
+ */
+export function oklabToRgb(lab: [number, number, number]): RGB {
+  const [L, a, b] = lab;
+
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+
+  const r = 4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s;
+  const g = -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s;
+  const bl = -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s;
+
+  return [
+    Math.max(0, Math.min(1, linearToSrgb(r))),
+    Math.max(0, Math.min(1, linearToSrgb(g))),
+    Math.max(0, Math.min(1, linearToSrgb(bl))),
+  ];
+}
+
+/**
+ * Interpolate between two sRGB colors in OKLab space
+ * Perceptually even blend - avoids the muddy midpoints of sRGB mixing
+ * @param from Start color (t = 0)
+ * @param to End color (t = 1)
+ * @param t Blend amount in [0, 1]
+ * @returns Blended sRGB color
+ */
+export function mixOklab(from: RGB, to: RGB, t: number): RGB {
+  if (t <= 0) return from;
+  if (t >= 1) return to;
+
+  const a = rgbToOklab(from);
+  const b = rgbToOklab(to);
+
+  return oklabToRgb([
+    a[0] + (b[0] - a[0]) * t,
+    a[1] + (b[1] - a[1]) * t,
+    a[2] + (b[2] - a[2]) * t,
+  ]);
+}
+
+/** D65 reference white for CIELAB */
+const D65_WHITE: [number, number, number] = [0.95047, 1.0, 1.08883];
+
+/**
+ * CIELAB companding function
+ */
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+/**
+ * Convert an sRGB color to CIELAB (D65)
+ * @param rgb sRGB color in [0, 1] range
+ * @returns [L, a, b] with L in [0, 100]
+ */
+export function rgbToLab(rgb: RGB): [number, number, number] {
+  const [r, g, b] = toLinear(rgb);
+
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / D65_WHITE[0];
+  const y = (0.2126729 * r + 0.7151522 * g + 0.0721750 * b) / D65_WHITE[1];
+  const z = (0.0193339 * r + 0.1191920 * g + 0.9503041 * b) / D65_WHITE[2];
+
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * CIEDE2000 color difference between two CIELAB colors
+ * @param lab1 First color [L, a, b]
+ * @param lab2 Second color [L, a, b]
+ * @returns ΔE00 (≈1 is a just-noticeable difference)
+ */
+export function ciede2000(lab1: [number, number, number], lab2: [number, number, number]): number {
+  const [L1, a1, b1] = lab1;
+  const [L2, a2, b2] = lab2;
+  const rad = Math.PI / 180;
+
+  const C1 = Math.hypot(a1, b1);
+  const C2 = Math.hypot(a2, b2);
+  const Cbar7 = Math.pow((C1 + C2) / 2, 7);
+  const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + Math.pow(25, 7))));
+
+  const a1p = (1 + G) * a1;
+  const a2p = (1 + G) * a2;
+  const C1p = Math.hypot(a1p, b1);
+  const C2p = Math.hypot(a2p, b2);
+
+  const hueAngle = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / rad;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hueAngle(b1, a1p);
+  const h2p = hueAngle(b2, a2p);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * rad);
+
+  const Lbarp = (L1 + L2) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hbarp = (h1p + h2p) / 2;
+    else if (h1p + h2p < 360) hbarp = (h1p + h2p + 360) / 2;
+    else hbarp = (h1p + h2p - 360) / 2;
+  }
+
+  const T = 1
+    - 0.17 * Math.cos((hbarp - 30) * rad)
+    + 0.24 * Math.cos(2 * hbarp * rad)
+    + 0.32 * Math.cos((3 * hbarp + 6) * rad)
+    - 0.20 * Math.cos((4 * hbarp - 63) * rad);
+
+  const dTheta = 30 * Math.exp(-Math.pow((hbarp - 275) / 25, 2));
+  const Cbarp7 = Math.pow(Cbarp, 7);
+  const Rc = 2 * Math.sqrt(Cbarp7 / (Cbarp7 + Math.pow(25, 7)));
+  const Sl = 1 + (0.015 * Math.pow(Lbarp - 50, 2)) / Math.sqrt(20 + Math.pow(Lbarp - 50, 2));
+  const Sc = 1 + 0.045 * Cbarp;
+  const Sh = 1 + 0.015 * Cbarp * T;
+  const Rt = -Math.sin(2 * dTheta * rad) * Rc;
+
+  const lTerm = dLp / Sl;
+  const cTerm = dCp / Sc;
+  const hTerm = dHp / Sh;
+
+  return Math.sqrt(lTerm * lTerm + cTerm * cTerm + hTerm * hTerm + Rt * cTerm * hTerm);
+}
@@ -0,0 +1,170 @@
+/**
+ * Source crop, rotation and flip
+ * Orientation (rotate, then flip) is applied first; the crop rectangle lives in the oriented source
+ */
+
+import type { Canvas2DContext, CropSettings } from '../types';
+import { centerCrop } from './aspect';
+import type { SourceRect } from './aspect';
+
+/** Zoom range for the crop rectangle */
+export const MIN_CROP_ZOOM = 1;
+export const MAX_CROP_ZOOM = 8;
+
+/** Anything drawImage accepts that also reports its size */
+type SizedImageSource = CanvasImageSource & { width: number; height: number };
+
+/**
+ * Size of the source after rotation
+ * @param width Source width
+ * @param height Source height
+ * @param rotation Clockwise rotation in degrees
+ */
+export function orientedSize(
+  width: number,
+  height: number,
+  rotation: CropSettings['rotation']
+): { width: number; height: number } {
+  return rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Crop rectangle in oriented source pixels
+ * The rectangle is centred on the focal point where the source allows, and
+ * kept inside the source otherwise
+ * @param crop Crop settings
+ * @param sourceWidth Source width (before rotation)
+ * @param sourceHeight Source height (before rotation)
+ * @param ratio Target width / height
+ */
+export function cropRect(
+  crop: CropSettings,
+  sourceWidth: number,
+  sourceHeight: number,
+  ratio: number
+): SourceRect {
+  const oriented = orientedSize(sourceWidth, sourceHeight, crop.rotation);
+  const base = centerCrop(oriented.width, oriented.height, ratio);
+  const zoom = Math.max(MIN_CROP_ZOOM, Math.min(MAX_CROP_ZOOM, crop.zoom));
+  const width = base.width / zoom;
+  const height = base.height / zoom;
+
+  const x = Math.max(0, Math.min(oriented.width - width, crop.focusX * oriented.width - width / 2));
+  const y = Math.max(0, Math.min(oriented.height - height, crop.focusY * oriented.height - height / 2));
+
+  return { x, y, width, height };
+}
+
+/**
+ * Apply the crop orientation to a context so source pixels land in oriented coordinates
+ */
+function applyOrientation(ctx: Canvas2DContext, crop: CropSettings, sourceWidth: number, sourceHeight: number): void {
+  const oriented = orientedSize(sourceWidth, sourceHeight, crop.rotation);
+
+  // Flips act on the oriented image
+  if (crop.flipH) {
+    ctx.translate(oriented.width, 0);
+    ctx.scale(-1, 1);
+  }
+  if (crop.flipV) {
+    ctx.translate(0, oriented.height);
+    ctx.scale(1, -1);
+  }
+
+  switch (crop.rotation) {
+    case 90:
+      ctx.translate(sourceHeight, 0);
+      ctx.rotate(Math.PI / 2);
+      break;
+    case 180:
+      ctx.translate(sourceWidth, sourceHeight);
+      ctx.rotate(Math.PI);
+      break;
+    case 270:
+      ctx.translate(0, sourceWidth);
+      ctx.rotate(-Math.PI / 2);
+      break;
+  }
+}
+
+/**
+ * Draw a region of the oriented source scaled to fill a destination rectangle
+ * @param ctx Destination context
+ * @param image Source image
+ * @param crop Crop settings (for orientation)
+ * @param rect Region in oriented source pixels
+ * @param destWidth Destination width
+ * @param destHeight Destination height
+ */
+export function drawOrientedRegion(
+  ctx: Canvas2DContext,
+  image: SizedImageSource,
+  crop: CropSettings,
+  rect: SourceRect,
+  destWidth: number,
+  destHeight: number
+): void {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, destWidth, destHeight);
+  ctx.clip();
+  ctx.scale(destWidth / rect.width, destHeight / rect.height);
+  ctx.translate(-rect.x, -rect.y);
+  applyOrientation(ctx, crop, image.width, image.height);
+  ctx.drawImage(image, 0, 0);
+  ctx.restore();
+}
+
+/**
+ * Draw the cropped, oriented source scaled to fill a destination rectangle
+ * @param ctx Destination context
+ * @param image Source image
+ * @param crop Crop settings
+ * @param ratio Target width / height
+ * @param destWidth Destination width
+ * @param destHeight Destination height
+ */
+export function drawCroppedSource(
+  ctx: Canvas2DContext,
+  image: SizedImageSource,
+  crop: CropSettings,
+  ratio: number,
+  destWidth: number,
+  destHeight: number
+): void {
+  const rect = cropRect(crop, image.width, image.height, ratio);
+  drawOrientedRegion(ctx, image, crop, rect, destWidth, destHeight);
+}
+
+/**
+ * Rotate the crop by 90° so the picture turns the way the user asked
+ * The focal point follows the picture
+ * @param crop Crop settings
+ * @param clockwise Rotation direction as seen on screen
+ */
+export function rotateCrop(crop: CropSettings, clockwise: boolean): CropSettings {
+  // A single flip mirrors the rotation direction
+  const mirrored = crop.flipH !== crop.flipV;
+  const step = clockwise !== mirrored ? 90 : 270;
+  const rotation = ((crop.rotation + step) % 360) as CropSettings['rotation'];
+
+  return {
+    ...crop,
+    rotation,
+    focusX: clockwise ? 1 - crop.focusY : crop.focusY,
+    focusY: clockwise ? crop.focusX : 1 - crop.focusX,
+  };
+}
+
+/**
+ * Mirror the crop horizontally or vertically
+ * The focal point follows the picture
+ * @param crop Crop settings
+ * @param axis 'horizontal' mirrors left-right, 'vertical' mirrors top-bottom
+ */
+export function flipCrop(crop: CropSettings, axis: 'horizontal' | 'vertical'): CropSettings {
+  if (axis === 'horizontal') {
+    return { ...crop, flipH: !crop.flipH, focusX: 1 - crop.focusX };
+  }
+  return { ...crop, flipV: !crop.flipV, focusY: 1 - crop.focusY };
+}
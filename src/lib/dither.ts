@@ -0,0 +1,278 @@
+/**
+ * Dithering: ordered threshold matrices and error diffusion across the cell grid
+ */
+
+import type { RGB, DitherMode } from '../types';
+import { cellRandom } from './random';
+
+/** Error-diffusion modes (everything else is an ordered threshold dither) */
+export type DiffusionMode = 'floyd-steinberg' | 'atkinson' | 'sierra-lite';
+
+/** Error-diffusion kernel: [dx, dy, weight] entries relative to the current cell */
+interface DiffusionKernel {
+  taps: [number, number, number][];
+  divisor: number;
+}
+
+/**
+ * Error-diffusion kernels (dx is mirrored on right-to-left rows)
+ * Atkinson intentionally diffuses only 6/8 of the error
+ */
+const DIFFUSION_KERNELS: Record<DiffusionMode, DiffusionKernel> = {
+  'floyd-steinberg': {
+    taps: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]],
+    divisor: 16,
+  },
+  atkinson: {
+    taps: [[1, 0, 1], [2, 0, 1], [-1, 1, 1], [0, 1, 1], [1, 1, 1], [0, 2, 1]],
+    divisor: 8,
+  },
+  'sierra-lite': {
+    taps: [[1, 0, 2], [-1, 1, 1], [0, 1, 1]],
+    divisor: 4,
+  },
+};
+
+/**
+ * Check whether a dither mode is an error-diffusion mode
+ */
+export function isErrorDiffusion(mode: DitherMode): mode is DiffusionMode {
+  return mode in DIFFUSION_KERNELS;
+}
+
+/**
+ * Build a Bayer index matrix of size n × n (n a power of two)
+ * @returns Row-major matrix of ranks 0 … n² - 1
+ */
+export function bayerMatrix(n: number): number[] {
+  if (n <= 1) return [0];
+
+  const half = n / 2;
+  const prev = bayerMatrix(half);
+  const matrix = new Array<number>(n * n);
+  // Quadrant offsets: top-left, top-right, bottom-left, bottom-right
+  const offsets = [0, 2, 3, 1];
+
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      const quadrant = (y < half ? 0 : 2) + (x < half ? 0 : 1);
+      const base = prev[(y % half) * half + (x % half)];
+      matrix[y * n + x] = 4 * base + offsets[quadrant];
+    }
+  }
+
+  return matrix;
+}
+
+const BAYER_MATRICES: Record<number, number[]> = {
+  2: bayerMatrix(2),
+  4: bayerMatrix(4),
+  8: bayerMatrix(8),
+};
+
+/** Size of the generated blue-noise tile */
+const BLUE_NOISE_SIZE = 16;
+
+let blueNoiseCache: number[] | null = null;
+
+/**
+ * Generate a blue-noise rank matrix with the void-and-cluster method (Ulichney 1993)
+ * The tile is deterministic and toroidal, so it repeats seamlessly
+ * @returns Row-major matrix of ranks 0 … size² - 1
+ */
+function generateBlueNoise(size: number): number[] {
+  const total = size * size;
+  const sigma = 1.5;
+
+  // Gaussian weights for toroidal offsets
+  const kernel = new Float64Array(total);
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) {
+      const wx = Math.min(dx, size - dx);
+      const wy = Math.min(dy, size - dy);
+      kernel[dy * size + dx] = Math.exp(-(wx * wx + wy * wy) / (2 * sigma * sigma));
+    }
+  }
+
+  const energy = new Float64Array(total);
+  const pattern = new Uint8Array(total);
+
+  const toggle = (bits: Uint8Array, field: Float64Array, index: number, on: boolean) => {
+    bits[index] = on ? 1 : 0;
+    const px = index % size;
+    const py = Math.floor(index / size);
+    const sign = on ? 1 : -1;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const dx = (x - px + size) % size;
+        const dy = (y - py + size) % size;
+        field[y * size + x] += sign * kernel[dy * size + dx];
+      }
+    }
+  };
+
+  const tightestCluster = (bits: Uint8Array, field: Float64Array) => {
+    let best = -1;
+    for (let i = 0; i < total; i++) {
+      if (bits[i] && (best < 0 || field[i] > field[best])) best = i;
+    }
+    return best;
+  };
+
+  const largestVoid = (bits: Uint8Array, field: Float64Array) => {
+    let best = -1;
+    for (let i = 0; i < total; i++) {
+      if (!bits[i] && (best < 0 || field[i] < field[best])) best = i;
+    }
+    return best;
+  };
+
+  // Initial pattern: ~10% of cells from a fixed seed
+  for (let i = 0; i < total; i++) {
+    if (cellRandom(0x5eed, i % size, Math.floor(i / size)) < 0.1) {
+      toggle(pattern, energy, i, true);
+    }
+  }
+
+  // Spread the initial points: move the tightest cluster into the largest void until stable
+  for (let iteration = 0; iteration < total; iteration++) {
+    const cluster = tightestCluster(pattern, energy);
+    toggle(pattern, energy, cluster, false);
+    const gap = largestVoid(pattern, energy);
+    toggle(pattern, energy, gap, true);
+    if (gap === cluster) break;
+  }
+
+  const ranks = new Array<number>(total).fill(0);
+  const ones = pattern.reduce((sum, bit) => sum + bit, 0);
+
+  // Rank the initial points by repeatedly removing the tightest cluster
+  const bits = pattern.slice();
+  const field = energy.slice();
+  for (let rank = ones - 1; rank >= 0; rank--) {
+    const cluster = tightestCluster(bits, field);
+    toggle(bits, field, cluster, false);
+    ranks[cluster] = rank;
+  }
+
+  // Rank the remaining cells by repeatedly filling the largest void
+  for (let rank = ones; rank < total; rank++) {
+    const gap = largestVoid(pattern, energy);
+    toggle(pattern, energy, gap, true);
+    ranks[gap] = rank;
+  }
+
+  return ranks;
+}
+
+/**
+ * Get the blue-noise rank matrix (generated once, then cached)
+ */
+export function blueNoiseMatrix(): number[] {
+  if (!blueNoiseCache) {
+    blueNoiseCache = generateBlueNoise(BLUE_NOISE_SIZE);
+  }
+  return blueNoiseCache;
+}
+
+/**
+ * Get the ordered-dither threshold for a cell
+ * @param mode Ordered dither mode
+ * @param x Cell x coordinate
+ * @param y Cell y coordinate
+ * @returns Threshold in [0, 1) range
+ */
+export function orderedThreshold(mode: DitherMode, x: number, y: number): number {
+  let size: number;
+  let matrix: number[];
+
+  switch (mode) {
+    case 'bayer2':
+      size = 2;
+      matrix = BAYER_MATRICES[2];
+      break;
+    case 'bayer8':
+      size = 8;
+      matrix = BAYER_MATRICES[8];
+      break;
+    case 'blue-noise':
+      size = BLUE_NOISE_SIZE;
+      matrix = blueNoiseMatrix();
+      break;
+    case 'bayer4':
+    default:
+      size = 4;
+      matrix = BAYER_MATRICES[4];
+      break;
+  }
+
+  return matrix[(y % size) * size + (x % size)] / (size * size);
+}
+
+/**
+ * Diffuse quantization error across the cell grid
+ * Scans serpentine (alternating row direction) to avoid directional artifacts
+ * @param colors Adjusted cell colors (cells[y][x]); null cells are skipped and receive no error
+ * @param cols Number of columns
+ * @param rows Number of rows
+ * @param mode Error-diffusion mode
+ * @param amount Fraction of the error to diffuse (0 = none, 1 = full)
+ * @param quantize Maps a color to the palette color it will be drawn with
+ * @returns Colors with diffused error applied; quantizing these gives the dithered result
+ */
+export function applyErrorDiffusion(
+  colors: (RGB | null)[][],
+  cols: number,
+  rows: number,
+  mode: DiffusionMode,
+  amount: number,
+  quantize: (rgb: RGB) => RGB
+): (RGB | null)[][] {
+  const kernel = DIFFUSION_KERNELS[mode];
+  const error = new Float32Array(cols * rows * 3);
+  const result: (RGB | null)[][] = [];
+
+  for (let y = 0; y < rows; y++) {
+    result[y] = new Array(cols).fill(null);
+  }
+
+  for (let y = 0; y < rows; y++) {
+    const leftToRight = y % 2 === 0;
+    const direction = leftToRight ? 1 : -1;
+
+    for (let i = 0; i < cols; i++) {
+      const x = leftToRight ? i : cols - 1 - i;
+      const color = colors[y][x];
+      if (!color) continue;
+
+      const e = (y * cols + x) * 3;
+      const value: RGB = [
+        Math.max(0, Math.min(1, color[0] + error[e])),
+        Math.max(0, Math.min(1, color[1] + error[e + 1])),
+        Math.max(0, Math.min(1, color[2] + error[e + 2])),
+      ];
+      result[y][x] = value;
+
+      if (amount <= 0) continue;
+
+      const target = quantize(value);
+      const errR = (value[0] - target[0]) * amount;
+      const errG = (value[1] - target[1]) * amount;
+      const errB = (value[2] - target[2]) * amount;
+
+      for (const [dx, dy, weight] of kernel.taps) {
+        const nx = x + dx * direction;
+        const ny = y + dy;
+        if (nx < 0 || nx >= cols || ny >= rows) continue;
+
+        const n = (ny * cols + nx) * 3;
+        const w = weight / kernel.divisor;
+        error[n] += errR * w;
+        error[n + 1] += errG * w;
+        error[n + 2] += errB * w;
+      }
+    }
+  }
+
+  return result;
+}
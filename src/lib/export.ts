@@ -1,27 +1,70 @@
 /**
- * Export functionality for PNG, GIF, and MP4
+ * Export functionality for PNG, SVG, PDF, knitting charts, grid data, GIF, APNG, WebP, and MP4
  */
 
-import GIF from 'gif.js';
+import { knitGridToSVG } from './svg';
+import type { SvgOptions } from './svg';
+import { buildKnitPDF } from './pdf';
+import type { PdfOptions } from './pdf';
+import { buildChart, paintChart, chartToPDF } from './chart';
+import { gridToJSON, gridToCSV } from './gridData';
+import { muxMP4 } from './mp4';
+import type { Mp4Sample } from './mp4';
+import { createGIFEncoder, indexPixels } from './gif';
+import { createAPNGEncoder, insertChunks } from './png';
+import { muxAnimatedWebP } from './webp';
+import type { WebpFrame } from './webp';
+import { createFrameDiffer } from './animation';
+import { paintKnitGrid } from './render';
+import { throwIfCancelled } from './exportJob';
+import { presetsToJSON } from './presets';
+import { projectToJSON, PROJECT_EXTENSION } from './project';
+import type { KnitProject } from './project';
+import type { KnitGrid, KnitPreset, RGB } from '../types';
 
 /**
- * Export canvas to PNG file
- * Handles device pixel ratio for high-DPI displays
- * @param canvas Canvas element to export
+ * Download a blob as a file
+ * @param blob File contents
+ * @param filename Download filename
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/** PNG export options */
+export interface PngExportOptions {
+  /** Whether to draw grid lines behind the glyphs */
+  showGridLines: boolean;
+  /** Grid line width (default 1) */
+  lineWidth?: number;
+  /** Extra chunks (e.g. text metadata) inserted before IEND */
+  chunks?: Uint8Array[];
+}
+
+/**
+ * Export a knit grid to a PNG file
+ * The grid is painted directly at the output size, so stitches stay crisp at any resolution
+ * @param grid Computed knit grid
  * @param filename Output filename (default: 'lidl-knit.png')
- * @param targetWidth Optional target width (defaults to canvas width)
- * @param targetHeight Optional target height (defaults to canvas height)
+ * @param width Output width
+ * @param height Output height
+ * @param options Grid lines and extra chunks
  */
-export function exportPNG(
-  canvas: HTMLCanvasElement,
+export async function exportPNG(
+  grid: KnitGrid,
   filename: string = 'lidl-knit.png',
-  targetWidth?: number,
-  targetHeight?: number
-): void {
-  const width = targetWidth ?? canvas.width;
-  const height = targetHeight ?? canvas.height;
-
-  // Create export canvas at target size
+  width: number,
+  height: number,
+  options: PngExportOptions
+): Promise<void> {
+  const { showGridLines, lineWidth = 1, chunks = [] } = options;
   const exportCanvas = document.createElement('canvas');
   exportCanvas.width = width;
   exportCanvas.height = height;
@@ -31,171 +74,588 @@ export function exportPNG(
     throw new Error('Failed to get 2D context for export');
   }
 
-  // Disable smoothing for crisp export
-  ctx.imageSmoothingEnabled = false;
+  paintKnitGrid(ctx, grid, width, height, showGridLines, lineWidth);
 
-  // Draw source canvas scaled to target size
-  ctx.drawImage(canvas, 0, 0, width, height);
+  const blob = await new Promise<Blob | null>((resolve) => exportCanvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('Failed to create blob from canvas');
+  }
+  if (chunks.length === 0) {
+    downloadBlob(blob, filename);
+    return;
+  }
 
-  // Convert to blob and download
-  exportCanvas.toBlob((blob) => {
-    if (!blob) {
-      console.error('Failed to create blob from canvas');
-      return;
-    }
+  const png = insertChunks(new Uint8Array(await blob.arrayBuffer()), chunks);
+  downloadBlob(new Blob([png], { type: 'image/png' }), filename);
+}
 
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  }, 'image/png');
+/**
+ * Export a knit grid as an SVG vector file
+ * @param grid Computed knit grid
+ * @param filename Output filename (default: 'lidl-knit.svg')
+ * @param width Document width
+ * @param height Document height
+ * @param options Background and grid-line layers
+ */
+export function exportSVG(
+  grid: KnitGrid,
+  filename: string = 'lidl-knit.svg',
+  width: number = 1080,
+  height: number = 1080,
+  options: SvgOptions = {}
+): void {
+  const svg = knitGridToSVG(grid, width, height, options);
+  downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), filename);
 }
 
 /**
- * Export frames as animated GIF
- * @param frames Array of canvas elements or ImageData representing frames
+ * Export a knit grid as a print-ready PDF
+ * @param grid Computed knit grid
+ * @param options Paper size, bleed, marks and spot color names
+ * @param filename Output filename (default: 'lidl-knit.pdf')
+ */
+export function exportPDF(grid: KnitGrid, options: PdfOptions, filename: string = 'lidl-knit.pdf'): void {
+  const bytes = buildKnitPDF(grid, options);
+  downloadBlob(new Blob([bytes], { type: 'application/pdf' }), filename);
+}
+
+/** Stitch square size for chart exports (pixels for PNG, points for PDF) */
+const CHART_CELL_PX = 24;
+const CHART_CELL_PT = 12;
+
+/**
+ * Export a knitting chart (symbols, row numbers, legend and stitch counts)
+ * @param grid Computed knit grid
+ * @param names Color names, one per palette index
+ * @param format Output format
+ * @param filename Output filename (defaults to 'lidl-knit-chart.png' or '.pdf')
+ */
+export async function exportChart(
+  grid: KnitGrid,
+  names: string[],
+  format: 'png' | 'pdf',
+  filename: string = `lidl-knit-chart.${format}`
+): Promise<void> {
+  if (format === 'pdf') {
+    const bytes = chartToPDF(buildChart(grid, names, CHART_CELL_PT));
+    downloadBlob(new Blob([bytes], { type: 'application/pdf' }), filename);
+    return;
+  }
+
+  const drawing = buildChart(grid, names, CHART_CELL_PX);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(drawing.width);
+  canvas.height = Math.ceil(drawing.height);
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Failed to get 2D context for chart export');
+  }
+
+  paintChart(ctx, drawing);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('Failed to create blob from chart canvas');
+  }
+  downloadBlob(blob, filename);
+}
+
+/**
+ * Export the grid as machine-readable data
+ * JSON holds the palette and every cell (and can be imported again); CSV is a color-index matrix
+ * @param grid Computed knit grid
+ * @param names Color names, one per palette index
+ * @param format Output format
+ * @param filename Output filename (defaults to 'lidl-knit-grid.json' or '.csv')
+ */
+export function exportGridData(
+  grid: KnitGrid,
+  names: string[],
+  format: 'json' | 'csv',
+  filename: string = `lidl-knit-grid.${format}`
+): void {
+  const blob = format === 'json'
+    ? new Blob([gridToJSON(grid, names)], { type: 'application/json' })
+    : new Blob([gridToCSV(grid)], { type: 'text/csv' });
+  downloadBlob(blob, filename);
+}
+
+/**
+ * Export custom presets as a shareable JSON file
+ * @param presets Presets (built-in presets are left out)
+ * @param filename Output filename (defaults to 'lidl-knit-presets.json')
+ */
+export function exportPresets(presets: KnitPreset[], filename: string = 'lidl-knit-presets.json'): void {
+  downloadBlob(new Blob([presetsToJSON(presets)], { type: 'application/json' }), filename);
+}
+
+/**
+ * Save a project file bundling the source media and settings
+ * @param project Project to save
+ * @param filename Output filename (defaults to 'lidl-knit.knitproj')
+ */
+export async function exportProject(project: KnitProject, filename: string = `lidl-knit${PROJECT_EXTENSION}`): Promise<void> {
+  downloadBlob(new Blob([await projectToJSON(project)], { type: 'application/json' }), filename);
+}
+
+/** Progress and cancellation hooks for frame-by-frame exports */
+export interface ExportTaskOptions {
+  /** Cancels the export; it then rejects with an AbortError */
+  signal?: AbortSignal;
+  /** Called as frames are encoded */
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Frames for a video export, produced one at a time
+ * A frame may be redrawn into the same canvas as the one before, so each is
+ * used before the next is requested
+ */
+export interface FrameSequence {
+  /** Number of frames */
+  count: number;
+  /** Frames in display order */
+  frames: AsyncIterable<CanvasImageSource>;
+}
+
+/** Animated image export options */
+export interface AnimationOptions extends ExportTaskOptions {
+  /** Delay per frame in milliseconds, or one delay per frame (default 100ms = 10fps) */
+  delay?: number | number[];
+  /** Number of plays; 0 loops forever (default) */
+  loopCount?: number;
+  /** Only store the region that changed since the previous frame (default true) */
+  changedOnly?: boolean;
+}
+
+/**
+ * Delay for frame i
+ */
+function frameDelay(delay: AnimationOptions['delay'] = 100, i: number): number {
+  return Array.isArray(delay) ? delay[i] ?? delay[delay.length - 1] : delay;
+}
+
+/**
+ * Create a canvas to read frame pixels from at the output size
+ */
+function createReadbackContext(width: number, height: number): CanvasRenderingContext2D {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  if (!ctx) {
+    throw new Error('Failed to get 2D context for animation export');
+  }
+
+  // Crisp scaling keeps pixels on palette colors
+  ctx.imageSmoothingEnabled = false;
+  return ctx;
+}
+
+/**
+ * Read the pixels of each frame at the output size
+ * Yields to the page between frames
+ */
+async function* readFrames(
+  sequence: FrameSequence,
+  width: number,
+  height: number,
+  options: AnimationOptions
+): AsyncGenerator<{ image: ImageData; delay: number }> {
+  const { delay, signal, onProgress } = options;
+  const ctx = createReadbackContext(width, height);
+  let i = 0;
+  for await (const frame of sequence.frames) {
+    throwIfCancelled(signal);
+    onProgress?.(i, sequence.count);
+    ctx.drawImage(frame, 0, 0, width, height);
+    yield { image: ctx.getImageData(0, 0, width, height), delay: frameDelay(delay, i) };
+    i++;
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  throwIfCancelled(signal);
+  onProgress?.(sequence.count, sequence.count);
+}
+
+/**
+ * Export frames as a palette-exact animated GIF
+ * Pixels snap to the given colors without dithering; the GIF's color table is exactly those colors.
+ * Frames are encoded as they arrive
+ * @param frames Frames to encode
+ * @param colors Color table (the active palette, plus the grid-line color when shown)
  * @param filename Output filename (default: 'lidl-knit.gif')
- * @param delay Delay between frames in milliseconds (default: 100ms = 10fps)
  * @param width Width of output GIF
  * @param height Height of output GIF
+ * @param options Frame delay, loop count, differencing, progress and cancellation
  */
 export async function exportGIF(
-  frames: HTMLCanvasElement[],
+  frames: FrameSequence,
+  colors: RGB[],
   filename: string = 'lidl-knit.gif',
-  delay: number = 100,
   width: number = 1080,
-  height: number = 1080
+  height: number = 1080,
+  options: AnimationOptions = {}
+): Promise<void> {
+  const encoder = createGIFEncoder({
+    width,
+    height,
+    colors,
+    loopCount: options.loopCount,
+    changedOnly: options.changedOnly,
+  });
+  for await (const { image, delay } of readFrames(frames, width, height, options)) {
+    encoder.addFrame({ indices: indexPixels(image.data, colors), delay });
+  }
+  downloadBlob(new Blob([encoder.finish()], { type: 'image/gif' }), filename);
+}
+
+/**
+ * Export frames as an animated PNG
+ * Frames are indexed-color images whose palette is exactly the given colors, encoded as they arrive
+ * @param frames Frames to encode
+ * @param colors Palette (the active palette, plus the grid-line color when shown)
+ * @param filename Output filename (default: 'lidl-knit.png')
+ * @param width Width of output image
+ * @param height Height of output image
+ * @param options Frame delay, loop count, differencing, progress and cancellation
+ */
+export async function exportAPNG(
+  frames: FrameSequence,
+  colors: RGB[],
+  filename: string = 'lidl-knit.png',
+  width: number = 1080,
+  height: number = 1080,
+  options: AnimationOptions = {}
 ): Promise<void> {
-  return new Promise((resolve) => {
-    const gif = new GIF({
-      workers: 2,
-      quality: 10,
+  const encoder = createAPNGEncoder({
+    width,
+    height,
+    colors,
+    loopCount: options.loopCount,
+    changedOnly: options.changedOnly,
+  });
+  for await (const { image, delay } of readFrames(frames, width, height, options)) {
+    await encoder.addFrame({ indices: indexPixels(image.data, colors), delay });
+  }
+  const bytes = await encoder.finish();
+  throwIfCancelled(options.signal);
+  downloadBlob(new Blob([bytes], { type: 'image/apng' }), filename);
+}
+
+/**
+ * Export frames as a lossless animated WebP
+ * The browser encodes each frame (or changed region) as a lossless still as it arrives; they are then muxed
+ * @param frames Frames to encode
+ * @param filename Output filename (default: 'lidl-knit.webp')
+ * @param width Width of output image
+ * @param height Height of output image
+ * @param options Frame delay, loop count, differencing, progress and cancellation
+ * @throws Error if the browser cannot encode WebP
+ */
+export async function exportWebP(
+  frames: FrameSequence,
+  filename: string = 'lidl-knit.webp',
+  width: number = 1080,
+  height: number = 1080,
+  options: AnimationOptions = {}
+): Promise<void> {
+  const region = document.createElement('canvas');
+  const regionCtx = region.getContext('2d');
+
+  if (!regionCtx) {
+    throw new Error('Failed to get 2D context for WebP export');
+  }
+
+  // WebP frame offsets must be even
+  const differ = createFrameDiffer(width, height, { changedOnly: options.changedOnly, align: 2 });
+  const webpFrames: WebpFrame[] = [];
+  for await (const { image, delay: duration } of readFrames(frames, width, height, options)) {
+    const pixels = new Uint32Array(image.data.buffer);
+    const rect = differ(pixels);
+    if (!rect) {
+      webpFrames[webpFrames.length - 1].duration += duration;
+      continue;
+    }
+
+    region.width = rect.width;
+    region.height = rect.height;
+    regionCtx.putImageData(image, -rect.x, -rect.y, rect.x, rect.y, rect.width, rect.height);
+    // Quality 1 selects lossless encoding
+    const blob = await new Promise<Blob | null>((resolve) => region.toBlob(resolve, 'image/webp', 1));
+    // Browsers that cannot encode WebP hand back a PNG instead
+    if (!blob || blob.type !== 'image/webp') {
+      throw new Error('This browser cannot encode WebP images');
+    }
+    webpFrames.push({ ...rect, duration, image: new Uint8Array(await blob.arrayBuffer()) });
+  }
+
+  const bytes = muxAnimatedWebP(webpFrames, { width, height, loopCount: options.loopCount });
+  downloadBlob(new Blob([bytes], { type: 'image/webp' }), filename);
+}
+
+/** H.264 codecs to try, constrained baseline first (no B-frames, so decode order = display order) */
+const H264_CODECS = ['avc1.42E033', 'avc1.42E028', 'avc1.4D0033', 'avc1.640033'];
+
+/** Target bitrate per pixel per frame */
+const MP4_BITS_PER_PIXEL = 0.25;
+
+/** Seconds between keyframes */
+const MP4_KEYFRAME_INTERVAL = 2;
+
+/** Encode queue length before waiting for the encoder to catch up */
+const MAX_ENCODE_QUEUE = 8;
+
+/**
+ * Find an H.264 encoder configuration the browser supports
+ * @returns Encoder config, or null when WebCodecs H.264 encoding is unavailable
+ */
+async function findH264Config(width: number, height: number, fps: number): Promise<VideoEncoderConfig | null> {
+  if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') return null;
+
+  for (const codec of H264_CODECS) {
+    const config: VideoEncoderConfig = {
+      codec,
       width,
       height,
-      repeat: 0, // Loop forever
-    });
-
-    // Add frames
-    frames.forEach((frame) => {
-      gif.addFrame(frame, { delay });
-    });
-
-    gif.on('finished', (blob: Blob) => {
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-      resolve();
-    });
-
-    gif.on('progress', (p: number) => {
-      console.log(`GIF export progress: ${Math.round(p * 100)}%`);
-    });
-
-    gif.render();
+      framerate: fps,
+      bitrate: Math.round(width * height * fps * MP4_BITS_PER_PIXEL),
+      avc: { format: 'avc' },
+    };
+    try {
+      const support = await VideoEncoder.isConfigSupported(config);
+      if (support.supported) return config;
+    } catch {
+      // Try the next profile
+    }
+  }
+  return null;
+}
+
+/**
+ * Copy a WebCodecs buffer source into a new byte array
+ */
+function copyBytes(source: AllowSharedBufferSource): Uint8Array {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+    : new Uint8Array(source).slice();
+}
+
+/**
+ * Encode frames to H.264 with WebCodecs as they arrive and mux them into an MP4
+ * Frame i is stamped at exactly i / fps seconds
+ * @returns MP4 file bytes, or null when H.264 encoding is unsupported
+ */
+async function encodeMP4(
+  frames: FrameSequence,
+  fps: number,
+  width: number,
+  height: number,
+  options: ExportTaskOptions
+): Promise<Uint8Array<ArrayBuffer> | null> {
+  const { signal, onProgress } = options;
+  // H.264 needs even dimensions
+  const encodeWidth = width - (width % 2);
+  const encodeHeight = height - (height % 2);
+  const config = await findH264Config(encodeWidth, encodeHeight, fps);
+  if (!config) return null;
+
+  const frameDuration = 1_000_000 / fps;
+  const samples: Mp4Sample[] = [];
+  let avcC = null as Uint8Array | null;
+  let encodeError = null as Error | null;
+
+  const encoder = new VideoEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      samples.push({
+        data,
+        timestamp: chunk.timestamp,
+        duration: chunk.duration ?? frameDuration,
+        keyframe: chunk.type === 'key',
+      });
+      const description = metadata?.decoderConfig?.description;
+      if (description && !avcC) {
+        avcC = copyBytes(description);
+      }
+    },
+    error: (error) => {
+      encodeError = error;
+    },
   });
+  encoder.configure(config);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = encodeWidth;
+  canvas.height = encodeHeight;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    encoder.close();
+    throw new Error('Failed to get 2D context');
+  }
+
+  const keyframeInterval = Math.max(1, Math.round(fps * MP4_KEYFRAME_INTERVAL));
+  let i = 0;
+  try {
+    for await (const source of frames.frames) {
+      if (encodeError) break;
+      throwIfCancelled(signal);
+      onProgress?.(i, frames.count);
+      ctx.drawImage(source, 0, 0, encodeWidth, encodeHeight);
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(i * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      encoder.encode(frame, { keyFrame: i % keyframeInterval === 0 });
+      frame.close();
+      i++;
+
+      // Don't queue every frame at once
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise((resolve) => encoder.addEventListener('dequeue', resolve, { once: true }));
+      }
+    }
+
+    if (!encodeError) {
+      await encoder.flush();
+      onProgress?.(frames.count, frames.count);
+    }
+  } finally {
+    if (encoder.state !== 'closed') {
+      encoder.close();
+    }
+  }
+
+  if (encodeError) throw encodeError;
+  throwIfCancelled(signal);
+  if (!avcC) {
+    throw new Error('H.264 encoder did not provide a decoder configuration');
+  }
+
+  return muxMP4({ width: encodeWidth, height: encodeHeight, avcC }, samples);
 }
 
 /**
- * Export frames as MP4 video using MediaRecorder API
- * @param frames Array of canvas elements representing frames
+ * Export frames as an MP4 video
+ * Encodes H.264 with WebCodecs as frames arrive and muxes a real .mp4 with exact frame timing;
+ * browsers without H.264 encoding fall back to a MediaRecorder WebM
+ * @param frames Frames to encode
  * @param filename Output filename (default: 'lidl-knit.mp4')
  * @param fps Frames per second (default: 10)
- * @param width Width of output video
- * @param height Height of output video
+ * @param width Width of output video (rounded down to even for H.264)
+ * @param height Height of output video (rounded down to even for H.264)
+ * @param options Progress and cancellation
+ * @returns The container that was written
  */
 export async function exportMP4(
-  frames: HTMLCanvasElement[],
+  frames: FrameSequence,
   filename: string = 'lidl-knit.mp4',
   fps: number = 10,
   width: number = 1080,
-  height: number = 1080
+  height: number = 1080,
+  options: ExportTaskOptions = {}
+): Promise<'mp4' | 'webm'> {
+  const mp4 = await encodeMP4(frames, fps, width, height, options);
+  if (mp4) {
+    downloadBlob(new Blob([mp4], { type: 'video/mp4' }), filename);
+    return 'mp4';
+  }
+
+  await recordWebM(frames, filename.replace(/\.mp4$/i, '') + '.webm', fps, width, height, options);
+  return 'webm';
+}
+
+/**
+ * Record frames as WebM using the MediaRecorder API
+ * Fallback for browsers without WebCodecs H.264; timing follows the recorder's clock.
+ * Rendering a frame can take longer than showing it, so the recorder only runs
+ * for one frame interval after each frame is drawn
+ * @param frames Frames to record
+ * @param filename Output filename
+ * @param fps Frames per second
+ * @param width Width of output video
+ * @param height Height of output video
+ * @param options Progress and cancellation (a cancelled recording is discarded)
+ */
+async function recordWebM(
+  frames: FrameSequence,
+  filename: string,
+  fps: number,
+  width: number,
+  height: number,
+  options: ExportTaskOptions
 ): Promise<void> {
-  return new Promise((resolve, reject) => {
-    // Create a temporary canvas for recording
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d');
-
-    if (!ctx) {
-      reject(new Error('Failed to get 2D context'));
-      return;
-    }
+  const { signal, onProgress } = options;
 
-    // Create a MediaStream from the canvas
-    const stream = canvas.captureStream(fps);
+  // Create a temporary canvas for recording
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
 
-    // Set up MediaRecorder
-    const options: MediaRecorderOptions = {
-      mimeType: 'video/webm;codecs=vp9',
-    };
+  if (!ctx) {
+    throw new Error('Failed to get 2D context');
+  }
 
-    // Fallback to vp8 if vp9 is not supported
-    if (!MediaRecorder.isTypeSupported(options.mimeType!)) {
-      options.mimeType = 'video/webm;codecs=vp8';
-    }
+  // Create a MediaStream from the canvas
+  const stream = canvas.captureStream(fps);
 
-    // Final fallback
-    if (!MediaRecorder.isTypeSupported(options.mimeType!)) {
-      options.mimeType = 'video/webm';
-    }
+  // Set up MediaRecorder
+  const recorderOptions: MediaRecorderOptions = {
+    mimeType: 'video/webm;codecs=vp9',
+  };
 
-    const mediaRecorder = new MediaRecorder(stream, options);
-    const chunks: Blob[] = [];
+  // Fallback to vp8 if vp9 is not supported
+  if (!MediaRecorder.isTypeSupported(recorderOptions.mimeType!)) {
+    recorderOptions.mimeType = 'video/webm;codecs=vp8';
+  }
 
-    mediaRecorder.ondataavailable = (e) => {
-      if (e.data.size > 0) {
-        chunks.push(e.data);
-      }
-    };
+  // Final fallback
+  if (!MediaRecorder.isTypeSupported(recorderOptions.mimeType!)) {
+    recorderOptions.mimeType = 'video/webm';
+  }
 
-    mediaRecorder.onstop = () => {
-      const blob = new Blob(chunks, { type: 'video/webm' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = filename.replace('.mp4', '.webm'); // Browser exports as webm
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-      resolve();
-    };
+  const mediaRecorder = new MediaRecorder(stream, recorderOptions);
+  const chunks: Blob[] = [];
 
-    mediaRecorder.onerror = (e) => {
-      reject(e);
-    };
+  mediaRecorder.ondataavailable = (e) => {
+    if (e.data.size > 0) {
+      chunks.push(e.data);
+    }
+  };
 
-    // Start recording
-    mediaRecorder.start();
+  const stopped = new Promise<void>((resolve, reject) => {
+    mediaRecorder.onstop = () => resolve();
+    mediaRecorder.onerror = (e) => reject(e);
+  });
 
-    // Draw frames at the specified FPS
-    let frameIndex = 0;
-    const frameInterval = 1000 / fps;
+  // Start recording, paused until the first frame is drawn
+  mediaRecorder.start();
+  mediaRecorder.pause();
 
-    const drawNextFrame = () => {
-      if (frameIndex >= frames.length) {
-        mediaRecorder.stop();
-        return;
-      }
+  const frameInterval = 1000 / fps;
+  let frameIndex = 0;
+  try {
+    for await (const frame of frames.frames) {
+      throwIfCancelled(signal);
+      onProgress?.(frameIndex, frames.count);
 
-      // Draw frame to canvas
-      ctx.drawImage(frames[frameIndex], 0, 0, width, height);
+      // Draw while recording so the canvas stream picks the frame up
+      mediaRecorder.resume();
+      ctx.drawImage(frame, 0, 0, width, height);
+      await new Promise((resolve) => setTimeout(resolve, frameInterval));
+      mediaRecorder.pause();
       frameIndex++;
+    }
+  } finally {
+    mediaRecorder.stop();
+    await stopped;
+  }
 
-      setTimeout(drawNextFrame, frameInterval);
-    };
-
-    // Start drawing frames
-    drawNextFrame();
-  });
+  throwIfCancelled(signal);
+  onProgress?.(frames.count, frames.count);
+  downloadBlob(new Blob(chunks, { type: 'video/webm' }), filename);
 }
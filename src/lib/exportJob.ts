@@ -0,0 +1,92 @@
+/**
+ * Export job progress: phases, overall percent, ETA and cancellation helpers
+ * Video exports decode, render and encode each frame in turn
+ */
+
+/** Stage of a video export */
+export type ExportPhase = 'decoding' | 'rendering' | 'encoding';
+
+/** Progress callback: phase, items done and items in the phase */
+export type ExportProgressCallback = (phase: ExportPhase, done: number, total: number) => void;
+
+/** Display labels for each phase */
+export const EXPORT_PHASE_LABELS: Record<ExportPhase, string> = {
+  decoding: 'Decoding video',
+  rendering: 'Rendering frames',
+  encoding: 'Encoding',
+};
+
+/** Where each phase starts within a frame's share of the job */
+const PHASE_OFFSETS: Record<ExportPhase, number> = {
+  decoding: 0,
+  rendering: 1 / 3,
+  encoding: 2 / 3,
+};
+
+/** Progress needed before an ETA is shown (early estimates swing wildly) */
+const MIN_ETA_FRACTION = 0.05;
+
+/**
+ * Overall progress of an export
+ * Frames are decoded, rendered and encoded one at a time, so each phase of
+ * frame i covers a third of frame i's slot
+ * @param phase Current phase
+ * @param done Frames finished in the phase
+ * @param total Frames in the export
+ * @returns Progress from 0 to 1
+ */
+export function exportProgress(phase: ExportPhase, done: number, total: number): number {
+  if (total <= 0) return 0;
+  const frame = done >= total ? total : done + PHASE_OFFSETS[phase];
+  return Math.max(0, Math.min(1, frame / total));
+}
+
+/**
+ * Estimate the time left from the time spent so far
+ * @param elapsedMs Time since the job started
+ * @param progress Progress from 0 to 1
+ * @returns Milliseconds left, or null while there is too little progress to tell
+ */
+export function estimateRemaining(elapsedMs: number, progress: number): number | null {
+  if (progress < MIN_ETA_FRACTION || elapsedMs <= 0) return null;
+  if (progress >= 1) return 0;
+  return (elapsedMs * (1 - progress)) / progress;
+}
+
+/**
+ * Format a duration for display, e.g. "8s" or "2m 05s"
+ * @param ms Duration in milliseconds
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+/**
+ * Error thrown when an export is cancelled
+ * @param signal Signal that was aborted (its reason is used when it is an Error)
+ */
+export function abortError(signal?: AbortSignal): Error {
+  if (signal?.reason instanceof Error) return signal.reason;
+  const error = new Error('Export cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Throw if an export has been cancelled
+ * @param signal Cancellation signal
+ * @throws Error named AbortError if the signal is aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw abortError(signal);
+}
+
+/**
+ * Whether an error means the export was cancelled
+ * @param error Caught error
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
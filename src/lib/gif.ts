@@ -0,0 +1,269 @@
+/**
+ * Palette-exact animated GIF encoder
+ * Every pixel snaps to the given colors (no dithering, no re-quantization), the
+ * global color table holds exactly those colors, and each frame after the first
+ * only stores the rectangle that changed
+ */
+
+import type { RGB } from '../types';
+import { createFrameDiffer, cropIndices } from './animation';
+import type { FrameRect } from './animation';
+
+/** One animation frame */
+export interface GifFrame {
+  /** Color table index per pixel, row by row (width × height) */
+  indices: Uint8Array;
+  /** Display time in milliseconds */
+  delay: number;
+}
+
+/** Encoder options */
+export interface GifOptions {
+  width: number;
+  height: number;
+  /** Global color table (at most 256 colors) */
+  colors: RGB[];
+  /** Number of plays; 0 loops forever (default) */
+  loopCount?: number;
+  /** Only store the region that changed since the previous frame (default true) */
+  changedOnly?: boolean;
+}
+
+/** Largest LZW code (12-bit) */
+const MAX_CODE = 4096;
+
+/**
+ * Map RGBA pixels to the nearest color (no dithering)
+ * @param data RGBA pixels (alpha is ignored)
+ * @param colors Colors to snap to
+ * @returns Color index per pixel
+ */
+export function indexPixels(data: Uint8ClampedArray, colors: RGB[]): Uint8Array {
+  const targets = colors.map((c) => c.map((v) => Math.round(v * 255)));
+  const indices = new Uint8Array(data.length / 4);
+  // Rendered frames reuse a handful of colors (plus antialiased edges)
+  const cache = new Map<number, number>();
+
+  for (let i = 0; i < indices.length; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const key = (r << 16) | (g << 8) | b;
+    let index = cache.get(key);
+    if (index === undefined) {
+      let best = Infinity;
+      index = 0;
+      targets.forEach(([tr, tg, tb], j) => {
+        const distance = (r - tr) ** 2 + (g - tg) ** 2 + (b - tb) ** 2;
+        if (distance < best) {
+          best = distance;
+          index = j;
+        }
+      });
+      cache.set(key, index);
+    }
+    indices[i] = index;
+  }
+
+  return indices;
+}
+
+/**
+ * Number of bits needed to index a color table of the given size (at least 1)
+ */
+function tableBits(colorCount: number): number {
+  let bits = 1;
+  while (1 << bits < colorCount) bits++;
+  return bits;
+}
+
+/**
+ * LZW-compress color indices as GIF image data sub-blocks
+ * @param indices Color indices
+ * @param minCodeSize LZW minimum code size (2-8)
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [minCodeSize];
+  const block: number[] = [];
+
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const writeByte = (byte: number) => {
+    block.push(byte);
+    if (block.length === 255) {
+      out.push(255, ...block);
+      block.length = 0;
+    }
+  };
+  // Codes are packed least significant bit first
+  const writeCode = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      writeByte(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  // Key: prefix code * 256 + next index
+  let table = new Map<number, number>();
+
+  writeCode(clearCode, codeSize);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = prefix * 256 + index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    writeCode(prefix, codeSize);
+    if (nextCode === MAX_CODE) {
+      // Table full: start over
+      writeCode(clearCode, codeSize);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      // The decoder widens its codes one entry later than it adds them
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  writeCode(prefix, codeSize);
+  writeCode(endCode, codeSize);
+
+  if (bitCount > 0) writeByte(bitBuffer & 0xff);
+  if (block.length > 0) out.push(block.length, ...block);
+  out.push(0); // block terminator
+
+  return new Uint8Array(out);
+}
+
+/**
+ * Little-endian 16-bit value
+ */
+const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+/** Incremental GIF encoder */
+export interface GifEncoder {
+  /** Add the next frame in display order */
+  addFrame(frame: GifFrame): void;
+  /**
+   * Finish the file
+   * @throws Error if no frames were added
+   */
+  finish(): Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Create an incremental animated GIF encoder
+ * Each frame is compressed once the next differing frame arrives (identical
+ * consecutive frames are merged into one longer frame), so only the pending
+ * and previous frames are held in memory
+ * @param options Size, color table and loop count
+ * @throws Error if there are too many colors
+ */
+export function createGIFEncoder(options: GifOptions): GifEncoder {
+  const { width, height, colors, loopCount = 0, changedOnly = true } = options;
+  if (colors.length === 0 || colors.length > 256) {
+    throw new Error('GIF color table must have 1-256 colors');
+  }
+
+  const bits = tableBits(colors.length);
+  const minCodeSize = Math.max(2, bits);
+  const bytes: number[] = [];
+  const chunks: Uint8Array[] = [];
+
+  // Header and logical screen with the global color table
+  bytes.push(...Array.from('GIF89a', (c) => c.charCodeAt(0)));
+  bytes.push(...u16(width), ...u16(height), 0x80 | ((bits - 1) << 4) | (bits - 1), 0, 0);
+  for (let i = 0; i < 1 << bits; i++) {
+    const color = colors[i] ?? [0, 0, 0];
+    bytes.push(...color.map((c) => Math.round(Math.max(0, Math.min(1, c)) * 255)));
+  }
+
+  // NETSCAPE2.0 loop extension; its count is repeats after the first play
+  if (loopCount !== 1) {
+    const repeats = loopCount === 0 ? 0 : loopCount - 1;
+    bytes.push(0x21, 0xff, 11, ...Array.from('NETSCAPE2.0', (c) => c.charCodeAt(0)), 3, 1, ...u16(repeats), 0);
+  }
+  chunks.push(new Uint8Array(bytes));
+
+  // Frame rectangle waiting for its final delay (in centiseconds)
+  let pending: { rect: FrameRect; indices: Uint8Array; delay: number } | null = null;
+  const differ = createFrameDiffer(width, height, { changedOnly });
+  let elapsed = 0;
+
+  const writePending = () => {
+    if (!pending) return;
+    const { rect } = pending;
+    chunks.push(
+      new Uint8Array([
+        // Graphic control: keep the previous frame under the next rectangle
+        0x21, 0xf9, 4, 1 << 2, ...u16(pending.delay), 0, 0,
+        // Image descriptor using the global color table
+        0x2c, ...u16(rect.x), ...u16(rect.y), ...u16(rect.width), ...u16(rect.height), 0,
+      ])
+    );
+    chunks.push(lzwEncode(pending.indices, minCodeSize));
+    pending = null;
+  };
+
+  return {
+    addFrame(frame) {
+      // Delays are rounded on the running total so they never drift
+      const start = Math.round(elapsed / 10);
+      elapsed += frame.delay;
+      const delay = Math.round(elapsed / 10) - start;
+
+      const rect = differ(frame.indices);
+      if (!rect) {
+        pending!.delay += delay;
+        return;
+      }
+      writePending();
+      pending = { rect, indices: cropIndices(frame.indices, width, rect), delay };
+    },
+
+    finish() {
+      if (!pending) {
+        throw new Error('No frames to encode');
+      }
+      writePending();
+      chunks.push(new Uint8Array([0x3b]));
+
+      const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+      let offset = 0;
+      for (const chunk of chunks) {
+        out.set(chunk, offset);
+        offset += chunk.length;
+      }
+      return out;
+    },
+  };
+}
+
+/**
+ * Encode an animated GIF
+ * Identical consecutive frames are merged into one longer frame
+ * @param frames Frames in display order
+ * @param options Size, color table and loop count
+ * @returns GIF file bytes
+ * @throws Error if there are no frames or too many colors
+ */
+export function encodeGIF(frames: GifFrame[], options: GifOptions): Uint8Array<ArrayBuffer> {
+  const encoder = createGIFEncoder(options);
+  for (const frame of frames) {
+    encoder.addFrame(frame);
+  }
+  return encoder.finish();
+}
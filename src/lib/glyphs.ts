@@ -2,7 +2,7 @@
  * Glyph drawing functions - pixel-aligned for crisp rendering
  */
 
-import type { GlyphType } from '../types';
+import type { GlyphType, Canvas2DContext } from '../types';
 
 /**
  * Draw a square glyph, pixel-aligned
@@ -11,7 +11,7 @@ import type { GlyphType } from '../types';
  * @param cy Center y coordinate
  * @param size Size of the glyph (diameter/width)
  */
-export function drawSquare(ctx: CanvasRenderingContext2D, cx: number, cy: number, size: number): void {
+export function drawSquare(ctx: Canvas2DContext, cx: number, cy: number, size: number): void {
   const half = size * 0.5;
   // Snap to pixel grid for crisp rendering
   const x = Math.round(cx - half);
@@ -28,7 +28,7 @@ export function drawSquare(ctx: CanvasRenderingContext2D, cx: number, cy: number
  * @param cy Center y coordinate
  * @param size Size of the glyph (diameter)
  */
-export function drawCircle(ctx: CanvasRenderingContext2D, cx: number, cy: number, size: number): void {
+export function drawCircle(ctx: Canvas2DContext, cx: number, cy: number, size: number): void {
   const radius = size * 0.5;
   // Snap center to half-pixels for better anti-aliasing
   const x = Math.round(cx * 2) / 2;
@@ -46,7 +46,7 @@ export function drawCircle(ctx: CanvasRenderingContext2D, cx: number, cy: number
  * @param cy Center y coordinate
  * @param size Size of the glyph (diameter)
  */
-export function drawDiamond(ctx: CanvasRenderingContext2D, cx: number, cy: number, size: number): void {
+export function drawDiamond(ctx: Canvas2DContext, cx: number, cy: number, size: number): void {
   const half = size * 0.5;
   // Snap center to pixel grid
   const x = Math.round(cx);
@@ -71,7 +71,7 @@ export function drawDiamond(ctx: CanvasRenderingContext2D, cx: number, cy: numbe
  * @param size Size of the glyph
  */
 export function drawGlyph(
-  ctx: CanvasRenderingContext2D,
+  ctx: Canvas2DContext,
   glyph: GlyphType,
   cx: number,
   cy: number,
@@ -89,3 +89,34 @@ export function drawGlyph(
       break;
   }
 }
+
+/** Resolution-independent glyph outline, for vector output */
+export type GlyphShape =
+  | { type: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: 'circle'; cx: number; cy: number; r: number }
+  | { type: 'polygon'; points: [number, number][] };
+
+/**
+ * Describe a glyph outline without pixel snapping
+ * Matches the shapes drawn by drawGlyph
+ * @param glyph Glyph type
+ * @param cx Center x coordinate
+ * @param cy Center y coordinate
+ * @param size Size of the glyph
+ */
+export function glyphShape(glyph: GlyphType, cx: number, cy: number, size: number): GlyphShape {
+  const half = size * 0.5;
+
+  switch (glyph) {
+    case 'square':
+      return { type: 'rect', x: cx - half, y: cy - half, width: size, height: size };
+    case 'circle':
+      return { type: 'circle', cx, cy, r: half };
+    case 'diamond':
+      // Top, right, bottom, left
+      return {
+        type: 'polygon',
+        points: [[cx, cy - half], [cx + half, cy], [cx, cy + half], [cx - half, cy]],
+      };
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Machine-readable grid export and import
+ * JSON keeps everything needed to re-render the grid at any size; CSV is a
+ * plain color-index matrix for LED walls, pixel boards and knitting machines
+ */
+
+import type { CellData, GlyphType, KnitGrid, RGB } from '../types';
+import { hexToRgb, rgbToHex } from './palette';
+
+/** Format tag written to (and required in) grid JSON files */
+export const GRID_DATA_FORMAT = 'lidl-knit-grid';
+export const GRID_DATA_VERSION = 1;
+
+const GLYPHS: GlyphType[] = ['diamond', 'square', 'circle'];
+
+/** Serialized cell; color is only written when it differs from the palette color */
+export interface GridCellRecord extends Pick<CellData, 'glyph' | 'colorIndex' | 'isEdge'> {
+  color?: string;
+}
+
+/** Grid JSON document */
+export interface GridData {
+  format: typeof GRID_DATA_FORMAT;
+  version: number;
+  cols: number;
+  rows: number;
+  /** Background hex color */
+  background: string;
+  /** Palette hex colors; cell colorIndex points into this list */
+  palette: string[];
+  /** Color names, one per palette entry */
+  names: string[];
+  /** Rows top to bottom; null cells show the background */
+  cells: (GridCellRecord | null)[][];
+}
+
+/** Grid restored from a JSON file */
+export interface ImportedGrid {
+  grid: KnitGrid;
+  /** Color names, one per palette entry */
+  names: string[];
+}
+
+/**
+ * Convert a grid to its JSON document
+ * @param grid Computed knit grid
+ * @param names Color names, one per palette index
+ */
+export function gridToData(grid: KnitGrid, names: string[]): GridData {
+  const palette = grid.palette.map(rgbToHex);
+  return {
+    format: GRID_DATA_FORMAT,
+    version: GRID_DATA_VERSION,
+    cols: grid.cols,
+    rows: grid.rows,
+    background: rgbToHex(grid.background),
+    palette,
+    names: palette.map((_, i) => names[i] ?? `Color ${i + 1}`),
+    cells: grid.cells.map((row) =>
+      row.map((cell) => {
+        if (!cell) return null;
+        const record: GridCellRecord = { glyph: cell.glyph, colorIndex: cell.colorIndex, isEdge: cell.isEdge };
+        const color = rgbToHex(cell.color);
+        if (color !== palette[cell.colorIndex]) record.color = color;
+        return record;
+      })
+    ),
+  };
+}
+
+/**
+ * Serialize a grid as JSON
+ * @param grid Computed knit grid
+ * @param names Color names, one per palette index
+ */
+export function gridToJSON(grid: KnitGrid, names: string[]): string {
+  return JSON.stringify(gridToData(grid, names));
+}
+
+/**
+ * Serialize a grid as a CSV matrix of palette indices, one line per row (top to bottom)
+ * Empty cells are written as the background index 0
+ * @param grid Computed knit grid
+ */
+export function gridToCSV(grid: KnitGrid): string {
+  const lines: string[] = [];
+  for (let y = 0; y < grid.rows; y++) {
+    const row = grid.cells[y] ?? [];
+    const indices: number[] = [];
+    for (let x = 0; x < grid.cols; x++) {
+      indices.push(row[x]?.colorIndex ?? 0);
+    }
+    lines.push(indices.join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse a hex color, failing with a message that names the field
+ */
+function parseColor(value: unknown, field: string): RGB {
+  const rgb = typeof value === 'string' ? hexToRgb(value) : null;
+  if (!rgb) {
+    throw new Error(`Invalid color in ${field}`);
+  }
+  return rgb;
+}
+
+/**
+ * Check that a value is a positive whole number
+ */
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Restore a grid from its JSON serialization
+ * @param text Grid JSON
+ * @returns The grid and its color names
+ * @throws Error if the file is not a valid grid
+ */
+export function parseGridJSON(text: string): ImportedGrid {
+  let data: Partial<GridData>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Grid file is not valid JSON');
+  }
+
+  if (!data || data.format !== GRID_DATA_FORMAT) {
+    throw new Error('Not a knit grid file');
+  }
+  if (typeof data.version !== 'number' || data.version > GRID_DATA_VERSION) {
+    throw new Error('Unsupported knit grid version');
+  }
+
+  const { cols, rows } = data;
+  if (!isCount(cols) || !isCount(rows)) {
+    throw new Error('Grid size must be positive whole numbers');
+  }
+  if (!Array.isArray(data.palette) || data.palette.length === 0) {
+    throw new Error('Grid palette is missing');
+  }
+
+  const palette = data.palette.map((hex, i) => parseColor(hex, `palette[${i}]`));
+  const background = data.background === undefined ? palette[0] : parseColor(data.background, 'background');
+  const names = palette.map((_, i) => {
+    const name = Array.isArray(data.names) ? data.names[i] : undefined;
+    return typeof name === 'string' ? name : `Color ${i + 1}`;
+  });
+
+  if (!Array.isArray(data.cells) || data.cells.length !== rows) {
+    throw new Error(`Grid must have ${rows} rows of cells`);
+  }
+
+  const cells = data.cells.map((row, y) => {
+    if (!Array.isArray(row) || row.length !== cols) {
+      throw new Error(`Row ${y + 1} must have ${cols} cells`);
+    }
+    return row.map((record, x): CellData | null => {
+      if (record === null) return null;
+      const where = `cell ${x + 1},${y + 1}`;
+      if (!GLYPHS.includes(record.glyph)) {
+        throw new Error(`Unknown glyph in ${where}`);
+      }
+      if (!Number.isInteger(record.colorIndex) || record.colorIndex < 0 || record.colorIndex >= palette.length) {
+        throw new Error(`Color index out of range in ${where}`);
+      }
+      return {
+        glyph: record.glyph,
+        color: record.color === undefined ? palette[record.colorIndex] : parseColor(record.color, where),
+        colorIndex: record.colorIndex,
+        isEdge: record.isEdge === true,
+      };
+    });
+  });
+
+  return { grid: { cols, rows, background, palette, cells }, names };
+}
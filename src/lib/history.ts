@@ -0,0 +1,88 @@
+/**
+ * Undo/redo history
+ * The past holds snapshots taken before each change; changes with the same
+ * coalesce key in quick succession (a slider drag, a crop drag) share one entry
+ */
+
+/** Snapshot taken before a change */
+export interface HistoryEntry<T> {
+  state: T;
+  /** Changes with the same key can be merged into this entry; null never merges */
+  key: string | null;
+  /** Time of the latest change merged into this entry (ms) */
+  time: number;
+}
+
+/** Undo and redo stacks */
+export interface History<T> {
+  /** Oldest first */
+  past: HistoryEntry<T>[];
+  /** Next redo last */
+  future: T[];
+}
+
+/** Most undo steps kept */
+export const MAX_HISTORY = 100;
+
+/** Changes with the same key closer together than this are merged (ms) */
+export const HISTORY_COALESCE_MS = 1000;
+
+/**
+ * Empty history
+ */
+export function createHistory<T>(): History<T> {
+  return { past: [], future: [] };
+}
+
+/**
+ * Record the state before a change
+ * Clears the redo stack
+ * @param history Current history
+ * @param before State before the change
+ * @param key Coalesce key (e.g. 'param:stitchPx'), or null for a change that always gets its own entry
+ * @param now Current time in ms
+ */
+export function recordChange<T>(history: History<T>, before: T, key: string | null, now: number): History<T> {
+  const last = history.past[history.past.length - 1];
+  // After an undo the last entry belongs to an older run, so never merge into it
+  const mergeable = last && history.future.length === 0 && key !== null && last.key === key;
+  if (mergeable && now - last.time < HISTORY_COALESCE_MS) {
+    // Keep the state from before the first change of the run
+    return { past: [...history.past.slice(0, -1), { ...last, time: now }], future: [] };
+  }
+
+  const past = [...history.past, { state: before, key, time: now }];
+  return { past: past.slice(-MAX_HISTORY), future: [] };
+}
+
+/**
+ * Step back
+ * @param history Current history
+ * @param current State to move onto the redo stack
+ * @returns The state to restore and the new history, or null if there is nothing to undo
+ */
+export function undo<T>(history: History<T>, current: T): { state: T; history: History<T> } | null {
+  const last = history.past[history.past.length - 1];
+  if (!last) return null;
+  return {
+    state: last.state,
+    history: { past: history.past.slice(0, -1), future: [...history.future, current] },
+  };
+}
+
+/**
+ * Step forward again
+ * @param history Current history
+ * @param current State to move onto the undo stack
+ * @param now Current time in ms
+ * @returns The state to restore and the new history, or null if there is nothing to redo
+ */
+export function redo<T>(history: History<T>, current: T, now: number): { state: T; history: History<T> } | null {
+  const next = history.future[history.future.length - 1];
+  if (next === undefined) return null;
+  return {
+    state: next,
+    // Redone steps never merge with later changes
+    history: { past: [...history.past, { state: current, key: null, time: now }], future: history.future.slice(0, -1) },
+  };
+}
@@ -26,12 +26,16 @@ export function luminanceFromRGB(rgb: RGB): number {
 /**
  * Detect edges in downsampled image using Sobel operator
  * Returns a 2D boolean array indicating edge cells
- * @param imageData Downsampled ImageData
+ * @param imageData Downsampled ImageData (only the RGBA data is read)
  * @param width Width of the image
  * @param height Height of the image
  * @returns 2D boolean array (edgeMap[y][x])
  */
-export function detectEdges(imageData: ImageData, width: number, height: number): boolean[][] {
+export function detectEdges(
+  imageData: { data: Uint8ClampedArray },
+  width: number,
+  height: number
+): boolean[][] {
   const edgeMap: boolean[][] = [];
   const data = imageData.data;
   const threshold = 0.15; // Edge detection threshold
@@ -115,18 +119,71 @@ export function pickGlyph(
   }
 }
 
+/** Glyph order used when cycling glyphs by palette index */
+export const GLYPH_CYCLE: GlyphType[] = ['diamond', 'square', 'circle'];
+
+/**
+ * Pick a glyph for a palette color index
+ * @param colorIndex Palette color index
+ * @param table Optional color → glyph table; indices beyond it fall back to GLYPH_CYCLE
+ * @returns Selected glyph type
+ */
+export function glyphForIndex(colorIndex: number, table?: GlyphType[]): GlyphType {
+  return table?.[colorIndex] ?? GLYPH_CYCLE[colorIndex % GLYPH_CYCLE.length];
+}
+
+/** Number of bins in a luminance histogram */
+export const HISTOGRAM_BINS = 256;
+
+/**
+ * Build a luminance histogram
+ * @param lumas Luminance values in [0, 1]
+ * @returns Counts per bin (HISTOGRAM_BINS bins over [0, 1])
+ */
+export function luminanceHistogram(lumas: Iterable<number>): number[] {
+  const histogram = new Array<number>(HISTOGRAM_BINS).fill(0);
+  for (const luma of lumas) {
+    const bin = Math.min(HISTOGRAM_BINS - 1, Math.max(0, Math.floor(luma * HISTOGRAM_BINS)));
+    histogram[bin]++;
+  }
+  return histogram;
+}
+
 /**
  * Calculate default thresholds based on luminance distribution
  * Adjusted to ensure all three shapes (diamond, square, circle) appear
- * Based on the three palette colors:
+ * Without a histogram, defaults are based on the three palette colors:
  * - Dark blue (#012464): ~0.13 luminance → diamond
  * - Light blue (#0052B0): ~0.28 luminance → square
  * - Yellow (#FFF202): ~0.89 luminance → circle
+ * With a histogram, thresholds split the image into luminance tertiles so
+ * each glyph covers roughly a third of the cells
+ * @param histogram Optional luminance histogram (see luminanceHistogram)
  * @returns Tuple of [t1, t2] thresholds
  */
-export function calculateThresholds(): [number, number] {
-  // Thresholds adjusted to better distribute the three palette colors
-  // t1: between dark blue (0.13) and light blue (0.28) → ~0.20
-  // t2: between light blue (0.28) and yellow (0.89) → ~0.50
-  return [0.20, 0.50];
+export function calculateThresholds(histogram?: number[]): [number, number] {
+  const total = histogram?.reduce((sum, count) => sum + count, 0) ?? 0;
+
+  if (!histogram || total === 0) {
+    // Thresholds adjusted to better distribute the three palette colors
+    // t1: between dark blue (0.13) and light blue (0.28) → ~0.20
+    // t2: between light blue (0.28) and yellow (0.89) → ~0.50
+    return [0.20, 0.50];
+  }
+
+  const bins = histogram.length;
+  const percentile = (fraction: number) => {
+    const target = total * fraction;
+    let cumulative = 0;
+    for (let i = 0; i < bins; i++) {
+      cumulative += histogram[i];
+      if (cumulative >= target) return (i + 1) / bins;
+    }
+    return 1;
+  };
+
+  const t1 = percentile(1 / 3);
+  // Keep the bands non-empty when the image is nearly flat
+  const t2 = Math.max(percentile(2 / 3), t1 + 1 / bins);
+  return [t1, Math.min(1, t2)];
 }
@@ -0,0 +1,227 @@
+/**
+ * Minimal ISO-BMFF (MP4) muxer for a single H.264 video track
+ * Takes encoded chunks as produced by WebCodecs (length-prefixed NAL units plus
+ * the avcC decoder configuration) and writes a progressive, fast-start .mp4:
+ * ftyp, moov (with one chunk holding every sample), then mdat
+ */
+
+/** Encoded video sample; times are in microseconds like WebCodecs chunks */
+export interface Mp4Sample {
+  /** Encoded frame (AVCC length-prefixed NAL units) */
+  data: Uint8Array;
+  /** Presentation timestamp in microseconds */
+  timestamp: number;
+  /** Duration in microseconds (used for the last sample) */
+  duration: number;
+  /** Whether the sample is a sync (IDR) frame */
+  keyframe: boolean;
+}
+
+/** H.264 video track description */
+export interface Mp4Track {
+  width: number;
+  height: number;
+  /** AVCDecoderConfigurationRecord (WebCodecs decoderConfig.description) */
+  avcC: Uint8Array;
+  /** Media time units per second (default 90000) */
+  timescale?: number;
+}
+
+/** Default media timescale; divides evenly for common frame rates */
+export const MP4_TIMESCALE = 90000;
+
+/** Identity transformation matrix (16.16 and 2.30 fixed point) */
+const MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+const u8 = (value: number) => new Uint8Array([value & 0xff]);
+
+const u16 = (value: number) => new Uint8Array([(value >>> 8) & 0xff, value & 0xff]);
+
+const u24 = (value: number) => new Uint8Array([(value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+
+function u32(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value >>> 0));
+  return bytes;
+}
+
+const ascii = (text: string) => new Uint8Array(Array.from(text, (c) => c.charCodeAt(0) & 0xff));
+
+const zeros = (length: number) => new Uint8Array(length);
+
+/**
+ * Concatenate byte arrays
+ */
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Write a box: 32-bit size, four-character type, payload
+ */
+function box(type: string, ...parts: Uint8Array[]): Uint8Array {
+  const payload = concat(parts);
+  return concat([u32(payload.length + 8), ascii(type), payload]);
+}
+
+/**
+ * Write a full box (box with version and flags)
+ */
+function fullBox(type: string, version: number, flags: number, ...parts: Uint8Array[]): Uint8Array {
+  return box(type, u8(version), u24(flags), ...parts);
+}
+
+/**
+ * Convert microseconds to media time units
+ */
+function toTimescale(microseconds: number, timescale: number): number {
+  return Math.round((microseconds * timescale) / 1_000_000);
+}
+
+/**
+ * Per-sample durations in media time units
+ * Derived from consecutive timestamps so rounding never accumulates drift
+ */
+export function sampleDurations(samples: Mp4Sample[], timescale: number): number[] {
+  return samples.map((sample, i) => {
+    const start = toTimescale(sample.timestamp, timescale);
+    const next = samples[i + 1];
+    const end = next
+      ? toTimescale(next.timestamp, timescale)
+      : toTimescale(sample.timestamp + sample.duration, timescale);
+    return Math.max(0, end - start);
+  });
+}
+
+/**
+ * Run-length encode durations for the stts box
+ */
+function timeToSample(durations: number[]): [count: number, delta: number][] {
+  const entries: [number, number][] = [];
+  for (const delta of durations) {
+    const last = entries[entries.length - 1];
+    if (last && last[1] === delta) {
+      last[0]++;
+    } else {
+      entries.push([1, delta]);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Build the moov box
+ * @param chunkOffset File offset of the first sample (the single chunk)
+ */
+function movie(track: Mp4Track, samples: Mp4Sample[], chunkOffset: number): Uint8Array {
+  const timescale = track.timescale ?? MP4_TIMESCALE;
+  const durations = sampleDurations(samples, timescale);
+  const duration = durations.reduce((sum, d) => sum + d, 0);
+  const stts = timeToSample(durations);
+  const syncSamples = samples.flatMap((sample, i) => (sample.keyframe ? [i + 1] : []));
+
+  const sampleEntry = box(
+    'avc1',
+    zeros(6),
+    u16(1), // data_reference_index
+    zeros(16), // pre_defined + reserved
+    u16(track.width),
+    u16(track.height),
+    u32(0x00480000, 0x00480000), // 72 dpi
+    u32(0),
+    u16(1), // frame_count
+    zeros(32), // compressorname
+    u16(0x0018), // depth
+    u16(0xffff), // pre_defined = -1
+    box('avcC', track.avcC)
+  );
+
+  const sampleTable = box(
+    'stbl',
+    fullBox('stsd', 0, 0, u32(1), sampleEntry),
+    fullBox('stts', 0, 0, u32(stts.length), ...stts.map(([count, delta]) => u32(count, delta))),
+    fullBox('stss', 0, 0, u32(syncSamples.length, ...syncSamples)),
+    fullBox('stsc', 0, 0, u32(1, 1, samples.length, 1)),
+    fullBox('stsz', 0, 0, u32(0, samples.length, ...samples.map((s) => s.data.length))),
+    fullBox('stco', 0, 0, u32(1, chunkOffset))
+  );
+
+  const media = box(
+    'mdia',
+    fullBox('mdhd', 0, 0, u32(0, 0, timescale, duration), u16(0x55c4), u16(0)), // language 'und'
+    fullBox('hdlr', 0, 0, u32(0), ascii('vide'), zeros(12), ascii('VideoHandler\0')),
+    box(
+      'minf',
+      fullBox('vmhd', 0, 1, zeros(8)),
+      box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+      sampleTable
+    )
+  );
+
+  return box(
+    'moov',
+    fullBox(
+      'mvhd',
+      0,
+      0,
+      u32(0, 0, timescale, duration, 0x00010000),
+      u16(0x0100), // volume
+      zeros(10),
+      u32(...MATRIX),
+      zeros(24),
+      u32(2) // next_track_ID
+    ),
+    box(
+      'trak',
+      fullBox(
+        'tkhd',
+        0,
+        3, // enabled, in movie
+        u32(0, 0, 1, 0, duration),
+        zeros(8),
+        u16(0), // layer
+        u16(0), // alternate_group
+        u16(0), // volume
+        u16(0),
+        u32(...MATRIX),
+        u32(track.width * 0x10000, track.height * 0x10000)
+      ),
+      media
+    )
+  );
+}
+
+/**
+ * Mux encoded H.264 samples into an MP4 file
+ * Samples must be in decode order without B-frame reordering
+ * @param track Track size and decoder configuration
+ * @param samples Encoded samples; the first must be a keyframe
+ * @returns MP4 file bytes
+ * @throws Error if there are no samples or the first is not a keyframe
+ */
+export function muxMP4(track: Mp4Track, samples: Mp4Sample[]): Uint8Array<ArrayBuffer> {
+  if (samples.length === 0) {
+    throw new Error('No samples to mux');
+  }
+  if (!samples[0].keyframe) {
+    throw new Error('The first sample must be a keyframe');
+  }
+
+  const ftyp = box('ftyp', ascii('isom'), u32(0x200), ascii('isomiso2avc1mp41'));
+  const mdatHeaderSize = 8;
+
+  // The moov size does not depend on the offset value, so lay it out once to measure it
+  const moovSize = movie(track, samples, 0).length;
+  const moov = movie(track, samples, ftyp.length + moovSize + mdatHeaderSize);
+
+  const mediaSize = samples.reduce((sum, sample) => sum + sample.data.length, 0);
+  return concat([ftyp, moov, u32(mediaSize + mdatHeaderSize), ascii('mdat'), ...samples.map((s) => s.data)]);
+}
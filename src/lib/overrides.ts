@@ -0,0 +1,145 @@
+/**
+ * Manual cell edits applied on top of a computed knit grid
+ * Overrides are keyed by column and row, so they stay in place while other
+ * settings change; overrides outside the current grid or palette are skipped
+ */
+
+import type { GlyphType, KnitGrid } from '../types';
+
+const GLYPHS: GlyphType[] = ['diamond', 'square', 'circle'];
+
+/** Manual edit of one cell: a palette color and glyph, or null to show the background */
+export type CellOverride = { colorIndex: number; glyph: GlyphType } | null;
+
+/** Manual cell edits keyed by `${x},${y}` */
+export type CellOverrides = Record<string, CellOverride>;
+
+/** What a click in cell editing mode does */
+export type CellBrush =
+  | { kind: 'paint'; colorIndex: number; glyph: GlyphType }
+  | { kind: 'erase' }
+  | { kind: 'restore' };
+
+/** Default brush: second palette color as a square */
+export const DEFAULT_CELL_BRUSH: CellBrush = { kind: 'paint', colorIndex: 1, glyph: 'square' };
+
+/**
+ * Key of a cell in an overrides map
+ * @param x Column
+ * @param y Row
+ */
+export function cellKey(x: number, y: number): string {
+  return `${x},${y}`;
+}
+
+/**
+ * Override a brush stroke writes
+ * @param brush Cell brush
+ * @returns The override, or undefined when the brush removes overrides
+ */
+export function brushOverride(brush: CellBrush): CellOverride | undefined {
+  if (brush.kind === 'paint') return { colorIndex: brush.colorIndex, glyph: brush.glyph };
+  return brush.kind === 'erase' ? null : undefined;
+}
+
+/**
+ * Set or remove the override of one cell
+ * @param overrides Current overrides
+ * @param x Column
+ * @param y Row
+ * @param override New override, or undefined to go back to the computed cell
+ * @returns New overrides, or the same object if nothing changed
+ */
+export function withCellOverride(
+  overrides: CellOverrides,
+  x: number,
+  y: number,
+  override: CellOverride | undefined
+): CellOverrides {
+  const key = cellKey(x, y);
+  if (override === undefined) {
+    if (!(key in overrides)) return overrides;
+    const { [key]: _removed, ...rest } = overrides;
+    return rest;
+  }
+  if (key in overrides && JSON.stringify(overrides[key]) === JSON.stringify(override)) return overrides;
+  return { ...overrides, [key]: override };
+}
+
+/**
+ * Apply manual edits to a computed grid
+ * @param grid Computed knit grid
+ * @param overrides Cell overrides
+ * @returns A new grid, or the same grid when there is nothing to apply
+ */
+export function applyCellOverrides(grid: KnitGrid, overrides: CellOverrides): KnitGrid {
+  const keys = Object.keys(overrides);
+  if (keys.length === 0) return grid;
+
+  const cells = grid.cells.map((row) => [...row]);
+  for (const key of keys) {
+    const [x, y] = key.split(',').map(Number);
+    if (!(y >= 0 && y < grid.rows && x >= 0 && x < grid.cols)) continue;
+
+    const override = overrides[key];
+    if (override === null) {
+      cells[y][x] = null;
+    } else if (override.colorIndex < grid.palette.length) {
+      cells[y][x] = {
+        glyph: override.glyph,
+        color: grid.palette[override.colorIndex],
+        colorIndex: override.colorIndex,
+        isEdge: false,
+      };
+    }
+  }
+  return { ...grid, cells };
+}
+
+/**
+ * Cell under a point of the output area
+ * @param px Point x
+ * @param py Point y
+ * @param width Output width
+ * @param height Output height
+ * @param cols Number of columns
+ * @param rows Number of rows
+ * @returns Column and row, or null outside the grid
+ */
+export function cellAtPoint(
+  px: number,
+  py: number,
+  width: number,
+  height: number,
+  cols: number,
+  rows: number
+): { x: number; y: number } | null {
+  const x = Math.floor((px / width) * cols);
+  const y = Math.floor((py / height) * rows);
+  if (!(x >= 0 && x < cols && y >= 0 && y < rows)) return null;
+  return { x, y };
+}
+
+/**
+ * Validate overrides read from a file
+ * Invalid entries are dropped
+ * @param value Untrusted value (e.g. parsed JSON)
+ */
+export function parseCellOverrides(value: unknown): CellOverrides {
+  const overrides: CellOverrides = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return overrides;
+
+  for (const [key, entry] of Object.entries(value)) {
+    if (!/^\d+,\d+$/.test(key)) continue;
+    if (entry === null) {
+      overrides[key] = null;
+      continue;
+    }
+    const { colorIndex, glyph } = (entry ?? {}) as Record<string, unknown>;
+    const validIndex = typeof colorIndex === 'number' && Number.isInteger(colorIndex) && colorIndex >= 0;
+    if (validIndex && GLYPHS.includes(glyph as GlyphType)) {
+      overrides[key] = { colorIndex, glyph: glyph as GlyphType };
+    }
+  }
+  return overrides;
+}
@@ -2,7 +2,9 @@
  * Lidl brand color palette and quantization functions
  */
 
-import type { RGB } from '../types';
+import type { RGB, BrandPalette, PaletteSwatch, ColorMetric, DitherMode } from '../types';
+import { toLinear, mixOklab, rgbToOklab, rgbToLab, ciede2000 } from './colorspace';
+import { orderedThreshold } from './dither';
 
 /**
  * Lidl brand colors in linearized RGB [0, 1] range
@@ -35,63 +37,327 @@ export const ACTIVE_PALETTE: RGB[] = [
   [0xFF / 255, 0xF2 / 255, 0x02 / 255], // #FFF202 - Yellow
 ];
 
+/** Minimum number of swatches in a palette */
+export const MIN_PALETTE_SWATCHES = 2;
+
+/** Maximum number of swatches in a palette */
+export const MAX_PALETTE_SWATCHES = 16;
+
+/** Minimum number of enabled swatches: the first is the background, so one alone draws nothing */
+export const MIN_ENABLED_SWATCHES = 2;
+
+/**
+ * Parse a hex color string (#RGB or #RRGGBB, '#' optional)
+ * @param hex Hex color string
+ * @returns RGB color in [0, 1] range, or null if the string is not a valid hex color
+ */
+export function hexToRgb(hex: string): RGB | null {
+  let value = hex.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(value)) {
+    value = value.split('').map((c) => c + c).join('');
+  }
+  if (!/^[0-9a-f]{6}$/i.test(value)) return null;
+
+  return [
+    parseInt(value.slice(0, 2), 16) / 255,
+    parseInt(value.slice(2, 4), 16) / 255,
+    parseInt(value.slice(4, 6), 16) / 255,
+  ];
+}
+
 /**
- * Convert sRGB to linear RGB (gamma correction)
+ * Format an RGB color as an uppercase #RRGGBB hex string
+ * @param rgb RGB color in [0, 1] range
  */
-function srgbToLinear(c: number): number {
-  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+export function rgbToHex(rgb: RGB): string {
+  return '#' + rgb
+    .map((c) => Math.round(Math.max(0, Math.min(1, c)) * 255).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
 }
 
 /**
- * Convert RGB tuple from sRGB to linear
+ * Create a swatch from a named RGB color
  */
-function toLinear(rgb: RGB): RGB {
-  return [srgbToLinear(rgb[0]), srgbToLinear(rgb[1]), srgbToLinear(rgb[2])];
+function swatch(name: string, rgb: RGB): PaletteSwatch {
+  return { name, hex: rgbToHex(rgb), enabled: true };
 }
 
+/**
+ * Built-in palettes - read-only, always available
+ * The Christmas palette matches ACTIVE_PALETTE and is the default
+ */
+export const BUILT_IN_PALETTES: BrandPalette[] = [
+  {
+    id: 'christmas',
+    name: 'Christmas',
+    builtIn: true,
+    swatches: [
+      swatch('Blue', ACTIVE_PALETTE[0]),
+      swatch('Navy', ACTIVE_PALETTE[1]),
+      swatch('Yellow', ACTIVE_PALETTE[2]),
+    ],
+  },
+  {
+    id: 'lidl-brand',
+    name: 'Lidl Brand',
+    builtIn: true,
+    swatches: [
+      swatch('Royal Blue', LIDL_COLORS.blueRoyal),
+      swatch('Navy', LIDL_COLORS.navy),
+      swatch('Yellow', LIDL_COLORS.yellow),
+      swatch('Red', LIDL_COLORS.red),
+      swatch('Mid Blue', LIDL_COLORS.blueMid),
+    ],
+  },
+  {
+    id: 'festive',
+    name: 'Festive',
+    builtIn: true,
+    swatches: [
+      swatch('Green', LIDL_COLORS.green),
+      swatch('Red', LIDL_COLORS.red),
+      swatch('Cream', LIDL_COLORS.cream),
+      swatch('Soft Yellow', LIDL_COLORS.yellowSoft),
+    ],
+  },
+  {
+    id: 'neutral',
+    name: 'Neutral',
+    builtIn: true,
+    swatches: [
+      swatch('Charcoal', LIDL_COLORS.charcoal),
+      swatch('Cream', LIDL_COLORS.cream),
+      swatch('Yellow', LIDL_COLORS.yellow),
+    ],
+  },
+];
+
+/** Default palette id */
+export const DEFAULT_PALETTE_ID = 'christmas';
 
 /**
- * Calculate Euclidean distance between two RGB colors in linear space
+ * Get the enabled colors of a palette, in swatch order
+ * Invalid hex values are skipped; falls back to ACTIVE_PALETTE if nothing usable is left
+ * @param palette Brand palette
+ * @returns Palette colors; the first entry is the background color
  */
-function colorDistance(a: RGB, b: RGB): number {
-  const aLin = toLinear(a);
-  const bLin = toLinear(b);
-  const dr = aLin[0] - bLin[0];
-  const dg = aLin[1] - bLin[1];
-  const db = aLin[2] - bLin[2];
-  return Math.sqrt(dr * dr + dg * dg + db * db);
+export function paletteColors(palette: BrandPalette | null | undefined): RGB[] {
+  if (!palette) return ACTIVE_PALETTE;
+
+  const colors: RGB[] = [];
+  for (const entry of palette.swatches) {
+    if (!entry.enabled) continue;
+    const rgb = hexToRgb(entry.hex);
+    if (rgb) colors.push(rgb);
+  }
+
+  return colors.length > 0 ? colors : ACTIVE_PALETTE;
 }
 
 /**
- * Find the nearest Lidl brand color to the given RGB
- * Uses only the active palette (colors from reference images)
+ * Validate a palette from untrusted data (storage, embedded settings, links)
+ * A palette with too few enabled swatches gets its first disabled ones enabled again
+ * @param value Untrusted value (e.g. parsed JSON)
+ * @throws Error if the value is not a palette or has an invalid color
  */
-export function nearestBrandColor(rgb: RGB): RGB {
-  let minDist = Infinity;
-  let nearest: RGB = ACTIVE_PALETTE[0];
+export function parsePalette(value: unknown): BrandPalette {
+  const palette = value as Partial<BrandPalette> | null;
+  const swatches = palette?.swatches;
+  if (
+    !palette ||
+    typeof palette.id !== 'string' ||
+    typeof palette.name !== 'string' ||
+    !Array.isArray(swatches) ||
+    swatches.length < MIN_PALETTE_SWATCHES ||
+    swatches.length > MAX_PALETTE_SWATCHES
+  ) {
+    throw new Error('Invalid palette');
+  }
 
-  for (const color of ACTIVE_PALETTE) {
-    const dist = colorDistance(rgb, color);
-    if (dist < minDist) {
-      minDist = dist;
-      nearest = color;
+  const parsed = swatches.map((swatch: Partial<PaletteSwatch>): PaletteSwatch => {
+    if (typeof swatch?.name !== 'string' || typeof swatch.hex !== 'string' || !hexToRgb(swatch.hex)) {
+      throw new Error('Invalid palette color');
     }
+    return { name: swatch.name, hex: swatch.hex, enabled: swatch.enabled !== false };
+  });
+
+  return { id: palette.id, name: palette.name, swatches: withEnabledMinimum(parsed) };
+}
+
+/**
+ * Enable the first disabled swatches until MIN_ENABLED_SWATCHES are enabled
+ * @param swatches Palette swatches
+ * @returns The same swatches if enough are enabled, otherwise an updated copy
+ */
+export function withEnabledMinimum(swatches: PaletteSwatch[]): PaletteSwatch[] {
+  let missing = MIN_ENABLED_SWATCHES - swatches.filter((s) => s.enabled).length;
+  if (missing <= 0) return swatches;
+  return swatches.map((swatch) => {
+    if (swatch.enabled || missing <= 0) return swatch;
+    missing--;
+    return { ...swatch, enabled: true };
+  });
+}
+
+/**
+ * Whether two palettes have the same swatches (names, colors and enabled flags, in order)
+ * @param a First palette's swatches
+ * @param b Second palette's swatches
+ */
+export function sameSwatches(a: PaletteSwatch[], b: PaletteSwatch[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((swatch, i) =>
+      swatch.name === b[i].name &&
+      swatch.enabled === b[i].enabled &&
+      swatch.hex.toLowerCase() === b[i].hex.toLowerCase()
+    )
+  );
+}
+
+/** Color in the working space of a distance metric */
+type MetricColor = [number, number, number];
+
+/**
+ * Convert a color into the working space of a distance metric
+ */
+function toMetricSpace(rgb: RGB, metric: ColorMetric): MetricColor {
+  switch (metric) {
+    case 'oklab':
+      return rgbToOklab(rgb);
+    case 'ciede2000':
+      return rgbToLab(rgb);
+    case 'linear-rgb':
+    default:
+      return toLinear(rgb);
   }
+}
 
-  return nearest;
+/**
+ * Distance between two colors already converted to the metric's working space
+ */
+function metricDistance(a: MetricColor, b: MetricColor, metric: ColorMetric): number {
+  if (metric === 'ciede2000') return ciede2000(a, b);
+  const d0 = a[0] - b[0];
+  const d1 = a[1] - b[1];
+  const d2 = a[2] - b[2];
+  return Math.sqrt(d0 * d0 + d1 * d1 + d2 * d2);
+}
+
+/**
+ * Calculate the distance between two RGB colors
+ * @param a First color (sRGB)
+ * @param b Second color (sRGB)
+ * @param metric Distance metric (default: Euclidean in linear RGB)
+ */
+export function colorDistance(a: RGB, b: RGB, metric: ColorMetric = 'linear-rgb'): number {
+  return metricDistance(toMetricSpace(a, metric), toMetricSpace(b, metric), metric);
+}
+
+/**
+ * Palette prepared for nearest-color lookups under a distance metric
+ * Palette colors are converted once so each lookup only converts the input color
+ */
+export interface ColorMatcher {
+  /** Palette colors (sRGB) */
+  palette: RGB[];
+  /** Distance metric */
+  metric: ColorMetric;
+  /** Index of the palette color nearest to rgb */
+  nearestIndex: (rgb: RGB) => number;
+}
+
+// Matchers are cached per palette array and metric
+const matcherCache = new WeakMap<RGB[], Map<ColorMetric, ColorMatcher>>();
+
+/**
+ * Get a (cached) color matcher for a palette and metric
+ * @param palette Palette colors
+ * @param metric Distance metric
+ */
+export function getColorMatcher(palette: RGB[], metric: ColorMetric = 'linear-rgb'): ColorMatcher {
+  let byMetric = matcherCache.get(palette);
+  if (!byMetric) {
+    byMetric = new Map();
+    matcherCache.set(palette, byMetric);
+  }
+
+  let matcher = byMetric.get(metric);
+  if (!matcher) {
+    const converted = palette.map((color) => toMetricSpace(color, metric));
+    matcher = {
+      palette,
+      metric,
+      nearestIndex: (rgb) => {
+        const input = toMetricSpace(rgb, metric);
+        let minDist = Infinity;
+        let nearest = 0;
+
+        for (let i = 0; i < converted.length; i++) {
+          const dist = metricDistance(input, converted[i], metric);
+          if (dist < minDist) {
+            minDist = dist;
+            nearest = i;
+          }
+        }
+
+        return nearest;
+      },
+    };
+    byMetric.set(metric, matcher);
+  }
+
+  return matcher;
+}
+
+/**
+ * Find the index of the nearest brand color to the given RGB
+ * @param rgb Color to quantize
+ * @param palette Palette colors to search (defaults to the active Christmas palette)
+ * @param metric Distance metric (default: Euclidean in linear RGB)
+ * @returns Index into the palette
+ */
+export function nearestBrandIndex(
+  rgb: RGB,
+  palette: RGB[] = ACTIVE_PALETTE,
+  metric: ColorMetric = 'linear-rgb'
+): number {
+  return getColorMatcher(palette, metric).nearestIndex(rgb);
+}
+
+/**
+ * Find the nearest brand color to the given RGB
+ * @param rgb Color to quantize
+ * @param palette Palette colors to search (defaults to the active Christmas palette)
+ * @param metric Distance metric (default: Euclidean in linear RGB)
+ */
+export function nearestBrandColor(
+  rgb: RGB,
+  palette: RGB[] = ACTIVE_PALETTE,
+  metric: ColorMetric = 'linear-rgb'
+): RGB {
+  return palette[nearestBrandIndex(rgb, palette, metric)];
 }
 
 /**
  * Blend between original color and nearest brand color
- * For strict palette enforcement, always returns the nearest palette color
+ * Interpolates in OKLab so intermediate mixes stay perceptually even.
+ * For strict palette enforcement (brand lock), use nearestBrandColor instead
  * @param rgb Original RGB color
  * @param mix Mix amount (0 = original, 1 = full brand color)
- * @returns Always returns the nearest palette color (strict enforcement)
+ * @param palette Palette colors to search
+ * @param metric Distance metric used to find the nearest brand color
+ * @returns Blended RGB color
  */
-export function applyPaletteMix(rgb: RGB, _mix: number): RGB {
-  // Always use strict palette quantization - return nearest palette color
-  // This ensures only the three palette colors are ever used
-  return nearestBrandColor(rgb);
+export function applyPaletteMix(
+  rgb: RGB,
+  mix: number,
+  palette: RGB[] = ACTIVE_PALETTE,
+  metric: ColorMetric = 'linear-rgb'
+): RGB {
+  if (mix <= 0) return rgb;
+  return mixOklab(rgb, nearestBrandColor(rgb, palette, metric), mix);
 }
 
 /**
@@ -118,18 +384,50 @@ export function bayer4(x: number, y: number): number {
 }
 
 /**
- * Apply Bayer dithering to an RGB color
+ * Typical spacing between palette colors, per channel
+ * The mean distance from each color to its nearest neighbour, divided by √3 so
+ * that shifting all three channels by this much moves a color one palette step
+ * @param palette Palette colors
+ * @returns Spacing in [0, 1] (1 for palettes with fewer than two colors)
+ */
+export function paletteSpread(palette: RGB[]): number {
+  if (palette.length < 2) return 1;
+  let total = 0;
+  for (const color of palette) {
+    let nearest = Infinity;
+    for (const other of palette) {
+      if (other === color) continue;
+      nearest = Math.min(nearest, Math.hypot(color[0] - other[0], color[1] - other[1], color[2] - other[2]));
+    }
+    total += nearest;
+  }
+  return Math.min(1, total / palette.length / Math.sqrt(3));
+}
+
+/**
+ * Apply ordered dithering to an RGB color
+ * The threshold offset spans ±spread/2 at full amount, so it should be on the
+ * order of the palette spacing (see paletteSpread) to mix neighbouring colors
  * @param rgb Original RGB color
  * @param amount Dither amount (0 = no dither, 1 = full dither)
  * @param x Pixel x coordinate
  * @param y Pixel y coordinate
+ * @param mode Ordered dither matrix (default: 4×4 Bayer)
+ * @param spread Threshold spread at full amount (default 1, i.e. ±0.5)
  * @returns Dithered RGB color
  */
-export function applyDither(rgb: RGB, amount: number, x: number, y: number): RGB {
+export function applyDither(
+  rgb: RGB,
+  amount: number,
+  x: number,
+  y: number,
+  mode: DitherMode = 'bayer4',
+  spread: number = 1
+): RGB {
   if (amount <= 0) return rgb;
 
-  const threshold = bayer4(x, y);
-  const ditherValue = (threshold - 0.5) * amount * 0.1; // Scale to ±5% max
+  const threshold = mode === 'bayer4' ? bayer4(x, y) : orderedThreshold(mode, x, y);
+  const ditherValue = (threshold - 0.5) * amount * spread;
 
   return [
     Math.max(0, Math.min(1, rgb[0] + ditherValue)),
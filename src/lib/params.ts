@@ -0,0 +1,169 @@
+/**
+ * Knit parameter schema, validation and versioned storage
+ * Every field is checked against its type and the limits of its control, so
+ * stale or hand-edited values fall back to the defaults instead of breaking
+ * rendering. Stored params carry a version; when KnitParams changes, bump
+ * PARAMS_VERSION and add a migration from the previous version
+ */
+
+import type { ColorMetric, DitherMode, GlyphMapping, GlyphType, KnitParams } from '../types';
+import { DEFAULT_PARAMS } from '../types';
+
+/** Version of the stored params format */
+export const PARAMS_VERSION = 1;
+
+/** Validation rule for one parameter */
+export type ParamSchema =
+  | { type: 'number'; min: number; max: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'glyphs' };
+
+const COLOR_METRICS: readonly ColorMetric[] = ['linear-rgb', 'oklab', 'ciede2000'];
+
+const DITHER_MODES: readonly DitherMode[] = [
+  'bayer2',
+  'bayer4',
+  'bayer8',
+  'blue-noise',
+  'floyd-steinberg',
+  'atkinson',
+  'sierra-lite',
+];
+
+const GLYPH_MAPPINGS: readonly GlyphMapping[] = ['checkerboard', 'luminance', 'palette-index', 'custom'];
+
+const GLYPH_TYPES: readonly GlyphType[] = ['diamond', 'square', 'circle'];
+
+/** Rules for every parameter; number ranges match the sliders and inputs */
+export const PARAMS_SCHEMA: Record<keyof KnitParams, ParamSchema> = {
+  stitchPx: { type: 'number', min: 8, max: 50, integer: true },
+  paletteMix: { type: 'number', min: 0, max: 1 },
+  brandLock: { type: 'boolean' },
+  colorMetric: { type: 'enum', values: COLOR_METRICS },
+  dither: { type: 'number', min: 0, max: 1 },
+  ditherMode: { type: 'enum', values: DITHER_MODES },
+  contrast: { type: 'number', min: 0.5, max: 1.5 },
+  saturation: { type: 'number', min: 0, max: 2 },
+  edgeCrispness: { type: 'number', min: 0, max: 1 },
+  showGridLines: { type: 'boolean' },
+  seed: { type: 'number', min: 0, max: 999999, integer: true },
+  glyphMapping: { type: 'enum', values: GLYPH_MAPPINGS },
+  glyphT1: { type: 'number', min: 0, max: 1 },
+  glyphT2: { type: 'number', min: 0, max: 1 },
+  autoThresholds: { type: 'boolean' },
+  glyphTable: { type: 'glyphs' },
+};
+
+/** Upgrade raw params from one version to the next */
+export type ParamsMigration = (params: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from
+ * Version 0 is the unversioned format stored before versioning was added
+ */
+export const PARAMS_MIGRATIONS: Record<number, ParamsMigration> = {
+  // Before brand lock existed every cell was snapped to the palette, so old params keep brand lock on
+  0: (params) => ('brandLock' in params ? params : { ...params, brandLock: true }),
+};
+
+/** Params as written to storage */
+export interface StoredParams {
+  version: number;
+  params: KnitParams;
+}
+
+/**
+ * Take the fields of a value that match the type of a default, falling back to the default
+ * @param defaults Default object; its keys and value types are kept
+ * @param value Untrusted value (e.g. parsed JSON)
+ */
+export function mergeKnown<T extends object>(defaults: T, value: unknown): T {
+  if (!value || typeof value !== 'object') return { ...defaults };
+
+  const result = { ...defaults };
+  const record = value as Record<string, unknown>;
+  for (const key of Object.keys(defaults) as (keyof T & string)[]) {
+    const fallback = defaults[key];
+    const field = record[key];
+    const sameType = Array.isArray(fallback) ? Array.isArray(field) : typeof field === typeof fallback;
+    if (sameType) result[key] = field as T[keyof T & string];
+  }
+  return result;
+}
+
+/**
+ * Check one value against its rule
+ * Numbers are clamped into range; anything else invalid is rejected
+ * @returns The valid value, or undefined to use the default
+ */
+function validateParam(schema: ParamSchema, value: unknown): unknown {
+  switch (schema.type) {
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+      const clamped = Math.max(schema.min, Math.min(schema.max, value));
+      return schema.integer ? Math.round(clamped) : clamped;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : undefined;
+    case 'enum':
+      return typeof value === 'string' && schema.values.includes(value) ? value : undefined;
+    case 'glyphs':
+      return Array.isArray(value) && value.every((glyph) => GLYPH_TYPES.includes(glyph)) ? [...value] : undefined;
+  }
+}
+
+/**
+ * Knit parameters from untrusted data
+ * Unknown keys are dropped; missing or invalid fields fall back to the defaults
+ * @param value Untrusted value (e.g. parsed JSON)
+ */
+export function sanitizeParams(value: unknown): KnitParams {
+  const params = { ...DEFAULT_PARAMS };
+  if (!value || typeof value !== 'object') return params;
+
+  const record = value as Record<string, unknown>;
+  const result = params as Record<keyof KnitParams, unknown>;
+  for (const key of Object.keys(PARAMS_SCHEMA) as (keyof KnitParams)[]) {
+    const valid = validateParam(PARAMS_SCHEMA[key], record[key]);
+    if (valid !== undefined) result[key] = valid;
+  }
+
+  // The luminance thresholds only make sense in order
+  if (params.glyphT1 >= params.glyphT2) {
+    params.glyphT1 = DEFAULT_PARAMS.glyphT1;
+    params.glyphT2 = DEFAULT_PARAMS.glyphT2;
+  }
+  return params;
+}
+
+/**
+ * Wrap params with the current version for storage
+ * @param params Knit parameters
+ */
+export function toStoredParams(params: KnitParams): StoredParams {
+  return { version: PARAMS_VERSION, params };
+}
+
+/**
+ * Read stored params of any version
+ * Older versions are migrated step by step, then validated; params from a newer
+ * version are validated as they are, and a malformed version counts as version 0
+ * @param data Parsed storage value: a StoredParams record, or bare params from before versioning
+ */
+export function fromStoredParams(data: unknown): KnitParams {
+  const record = data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+  const versioned = typeof record.version === 'number' && typeof record.params === 'object';
+
+  // Versions that are not whole non-negative numbers are read as unversioned
+  const validVersion = Number.isInteger(record.version) && (record.version as number) >= 0;
+  let version = versioned && validVersion ? (record.version as number) : 0;
+  let params = (versioned ? record.params : record) as Record<string, unknown> | null;
+  if (!params) return sanitizeParams(null);
+
+  for (; version < PARAMS_VERSION; version++) {
+    const migrate = PARAMS_MIGRATIONS[version];
+    if (migrate) params = migrate(params);
+  }
+  return sanitizeParams(params);
+}
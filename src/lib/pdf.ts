@@ -0,0 +1,376 @@
+/**
+ * Dependency-free PDF writer for print-ready knit grid output
+ * Glyphs are vector paths using the same geometry as the canvas renderer; every
+ * palette entry is a named spot (Separation) color so print partners can map inks
+ */
+
+import type { KnitGrid, RGB } from '../types';
+import { glyphShape } from './glyphs';
+import type { GlyphShape } from './glyphs';
+import { gridLayout, GRID_LINE_COLOR, GRID_LINE_OPACITY } from './render';
+
+/** Standard paper sizes (portrait, millimetres) */
+export const PAPER_SIZES = {
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+  A2: { width: 420, height: 594 },
+  A1: { width: 594, height: 841 },
+  A0: { width: 841, height: 1189 },
+} as const;
+
+/** Paper size choice */
+export type PaperSize = keyof typeof PAPER_SIZES | 'custom';
+
+/** PDF output options */
+export interface PdfOptions {
+  /** Paper size (trim size) */
+  paper: PaperSize;
+  /** Trim width for custom paper (mm) */
+  customWidthMm?: number;
+  /** Trim height for custom paper (mm) */
+  customHeightMm?: number;
+  /** Bleed around the trim (mm) */
+  bleedMm: number;
+  /** Draw crop marks at the trim corners */
+  cropMarks: boolean;
+  /** Draw a color bar of the palette swatches */
+  colorBar: boolean;
+  /** Draw grid lines behind the glyphs */
+  gridLines?: boolean;
+  /** Spot color names, one per palette entry */
+  spotNames?: string[];
+}
+
+/** Points per millimetre */
+const PT_PER_MM = 72 / 25.4;
+
+/** Space outside the bleed for crop marks and the color bar (mm) */
+const SLUG_MM = 15;
+
+/** Crop mark length and gap from the bleed edge (mm) */
+const MARK_LENGTH_MM = 5;
+const MARK_OFFSET_MM = 2;
+
+/** Color bar swatch size (mm) */
+const SWATCH_MM = 8;
+
+/** Bezier control point distance for a quarter circle */
+const KAPPA = 0.5522847498;
+
+/**
+ * Format a number for a content stream (at most 3 decimals)
+ */
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+export { num as pdfNumber };
+
+/**
+ * Encode a string as a PDF name (without the leading slash)
+ * Delimiters, whitespace and non-ASCII characters are written as #xx
+ */
+export function pdfName(value: string): string {
+  let result = '';
+  for (const byte of new TextEncoder().encode(value)) {
+    const ch = String.fromCharCode(byte);
+    if (byte < 0x21 || byte > 0x7e || '#()<>[]{}/%'.includes(ch)) {
+      result += '#' + byte.toString(16).toUpperCase().padStart(2, '0');
+    } else {
+      result += ch;
+    }
+  }
+  return result || 'Unnamed';
+}
+
+/**
+ * Encode text as a PDF literal string (Latin-1; other characters become '?')
+ */
+export function pdfString(value: string): string {
+  let result = '(';
+  for (const ch of value) {
+    const code = ch.charCodeAt(0);
+    if (ch === '(' || ch === ')' || ch === '\\') {
+      result += '\\' + ch;
+    } else if (code >= 0x20 && code <= 0x7e) {
+      result += ch;
+    } else if (code <= 0xff && ch.length === 1) {
+      result += '\\' + code.toString(8).padStart(3, '0');
+    } else {
+      result += '?';
+    }
+  }
+  return result + ')';
+}
+
+/**
+ * Separation (spot) color space with an RGB alternate
+ * @param name Encoded PDF name of the ink
+ * @param color Full-tint color
+ */
+function separation(name: string, color: RGB): string {
+  return `[/Separation /${name} /DeviceRGB << /FunctionType 2 /Domain [0 1] /C0 [1 1 1] /C1 [${color.map(num).join(' ')}] /N 1 >>]`;
+}
+
+/** Single-page PDF description */
+export interface PdfPage {
+  /** Page width in points */
+  width: number;
+  /** Page height in points */
+  height: number;
+  /** Content stream (ASCII); fonts /F1 (Helvetica) and /F2 (Courier) are available */
+  content: string;
+  /** Extra page dictionary entries, e.g. trim and bleed boxes */
+  boxes?: string[];
+  /** Color space resources (resource name → object body) */
+  colorSpaces?: Record<string, string>;
+  /** Graphics state resources (resource name → dictionary) */
+  extGStates?: Record<string, string>;
+}
+
+/**
+ * Serialize a single-page PDF
+ * @param page Page size, content and resources
+ * @returns PDF file bytes
+ */
+export function writePDF(page: PdfPage): Uint8Array<ArrayBuffer> {
+  // 1 catalog, 2 pages, 3 page, 4 content, 5-6 fonts, then color spaces
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '', // Page, filled in once the resources are known
+    `<< /Length ${page.content.length} >>\nstream\n${page.content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+  ];
+
+  const colorSpaceRefs = Object.entries(page.colorSpaces ?? {}).map(([name, body]) => {
+    objects.push(body);
+    return `/${name} ${objects.length} 0 R`;
+  });
+  const extGStates = Object.entries(page.extGStates ?? {}).map(([name, dict]) => `/${name} ${dict}`);
+
+  objects[2] = [
+    '<< /Type /Page /Parent 2 0 R',
+    `/MediaBox [0 0 ${num(page.width)} ${num(page.height)}]`,
+    ...(page.boxes ?? []),
+    `/Resources << /Font << /F1 5 0 R /F2 6 0 R >> /ColorSpace << ${colorSpaceRefs.join(' ')} >> /ExtGState << ${extGStates.join(' ')} >> >>`,
+    '/Contents 4 0 R >>',
+  ].join('\n');
+
+  // Serialize with a cross-reference table (all content is ASCII, so length = bytes)
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
+
+/**
+ * Trim size in millimetres, oriented to match the artwork
+ * @param options PDF options
+ * @param ratio Artwork width / height (standard sizes turn landscape when > 1)
+ */
+export function trimSizeMm(options: PdfOptions, ratio: number): { width: number; height: number } {
+  if (options.paper === 'custom') {
+    return {
+      width: Math.max(1, options.customWidthMm ?? PAPER_SIZES.A4.width),
+      height: Math.max(1, options.customHeightMm ?? PAPER_SIZES.A4.height),
+    };
+  }
+  const { width, height } = PAPER_SIZES[options.paper];
+  return ratio > 1 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Append a glyph outline as path operators
+ */
+function shapePath(shape: GlyphShape): string {
+  switch (shape.type) {
+    case 'rect':
+      return `${num(shape.x)} ${num(shape.y)} ${num(shape.width)} ${num(shape.height)} re`;
+    case 'polygon': {
+      const [first, ...rest] = shape.points;
+      return [
+        `${num(first[0])} ${num(first[1])} m`,
+        ...rest.map(([x, y]) => `${num(x)} ${num(y)} l`),
+        'h',
+      ].join(' ');
+    }
+    case 'circle': {
+      // Four cubic Bezier quarter arcs
+      const { cx, cy, r } = shape;
+      const k = r * KAPPA;
+      return [
+        `${num(cx + r)} ${num(cy)} m`,
+        `${num(cx + r)} ${num(cy + k)} ${num(cx + k)} ${num(cy + r)} ${num(cx)} ${num(cy + r)} c`,
+        `${num(cx - k)} ${num(cy + r)} ${num(cx - r)} ${num(cy + k)} ${num(cx - r)} ${num(cy)} c`,
+        `${num(cx - r)} ${num(cy - k)} ${num(cx - k)} ${num(cy - r)} ${num(cx)} ${num(cy - r)} c`,
+        `${num(cx + k)} ${num(cy - r)} ${num(cx + r)} ${num(cy - k)} ${num(cx + r)} ${num(cy)} c`,
+        'h',
+      ].join(' ');
+    }
+  }
+}
+
+/**
+ * Check whether two colors are the same 8-bit color
+ */
+function sameColor(a: RGB, b: RGB): boolean {
+  return a.every((c, i) => Math.round(c * 255) === Math.round(b[i] * 255));
+}
+
+/**
+ * Build a print-ready PDF of a knit grid
+ * The artwork is fitted inside the trim, the background runs into the bleed,
+ * and marks sit in a slug area outside the bleed
+ * @param grid Computed knit grid
+ * @param options Paper, bleed and mark options
+ * @returns PDF file bytes
+ */
+export function buildKnitPDF(grid: KnitGrid, options: PdfOptions): Uint8Array<ArrayBuffer> {
+  const { cols, rows, palette } = grid;
+  const ratio = cols > 0 && rows > 0 ? cols / rows : 1;
+  const trim = trimSizeMm(options, ratio);
+  const bleed = Math.max(0, options.bleedMm);
+  const slug = options.cropMarks || options.colorBar ? SLUG_MM : 0;
+
+  // Page geometry in points (PDF origin is bottom-left)
+  const pt = (mm: number) => mm * PT_PER_MM;
+  const pageWidth = pt(trim.width + 2 * (bleed + slug));
+  const pageHeight = pt(trim.height + 2 * (bleed + slug));
+  const trimX = pt(bleed + slug);
+  const trimY = pt(bleed + slug);
+  const trimWidth = pt(trim.width);
+  const trimHeight = pt(trim.height);
+  const box = (x: number, y: number, w: number, h: number) => `[${num(x)} ${num(y)} ${num(x + w)} ${num(y + h)}]`;
+
+  // One Separation color space per palette entry (names kept unique), plus /All for registration marks
+  const labels = palette.map((_, i) => options.spotNames?.[i] || `Color ${i + 1}`);
+  const spotNames: string[] = [];
+  labels.forEach((label) => {
+    let name = pdfName(label);
+    for (let n = 2; spotNames.includes(name); n++) {
+      name = pdfName(`${label} ${n}`);
+    }
+    spotNames.push(name);
+  });
+  const spotFill = (index: number) => `/CS${index} cs 1 scn`;
+  const rgbFill = (c: RGB) => `${num(c[0])} ${num(c[1])} ${num(c[2])} rg`;
+  const rgbStroke = (c: RGB) => `${num(c[0])} ${num(c[1])} ${num(c[2])} RG`;
+
+  const content: string[] = [];
+
+  // Background through the bleed
+  content.push(
+    palette.length > 0 && sameColor(grid.background, palette[0]) ? spotFill(0) : rgbFill(grid.background),
+    `${num(trimX - pt(bleed))} ${num(trimY - pt(bleed))} ${num(trimWidth + 2 * pt(bleed))} ${num(trimHeight + 2 * pt(bleed))} re f`
+  );
+
+  if (cols > 0 && rows > 0) {
+    // Fit the artwork inside the trim, centred
+    const scale = Math.min(trimWidth / cols, trimHeight / rows);
+    const artWidth = cols * scale;
+    const artHeight = rows * scale;
+    const artX = trimX + (trimWidth - artWidth) / 2;
+    const artTop = trimY + (trimHeight + artHeight) / 2;
+    const { cellWidth, cellHeight, glyphSize } = gridLayout(cols, rows, artWidth, artHeight);
+
+    // Flip to top-down coordinates so the layout matches the canvas
+    content.push('q', `1 0 0 -1 ${num(artX)} ${num(artTop)} cm`);
+
+    if (options.gridLines) {
+      content.push('q', '/GSGrid gs', rgbStroke(GRID_LINE_COLOR), `${num(Math.max(0.25, scale / 40))} w`);
+      for (let y = 0; y <= rows; y++) {
+        content.push(`0 ${num(y * cellHeight)} m ${num(artWidth)} ${num(y * cellHeight)} l S`);
+      }
+      for (let x = 0; x <= cols; x++) {
+        content.push(`${num(x * cellWidth)} 0 m ${num(x * cellWidth)} ${num(artHeight)} l S`);
+      }
+      content.push('Q');
+    }
+
+    // Group paths by fill so each color is set once
+    const paths = new Map<string, string[]>();
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        const cell = grid.cells[y][x];
+        if (!cell) continue;
+
+        const spot = palette[cell.colorIndex] && sameColor(cell.color, palette[cell.colorIndex]);
+        const fill = spot ? spotFill(cell.colorIndex) : rgbFill(cell.color);
+        let list = paths.get(fill);
+        if (!list) {
+          list = [];
+          paths.set(fill, list);
+        }
+        list.push(shapePath(glyphShape(cell.glyph, (x + 0.5) * cellWidth, (y + 0.5) * cellHeight, glyphSize)));
+      }
+    }
+    for (const [fill, list] of paths) {
+      content.push(fill, ...list, 'f');
+    }
+
+    content.push('Q');
+  }
+
+  if (options.cropMarks) {
+    // Registration color prints on every separation
+    content.push('q', '/CSAll CS 1 SCN', '0.25 w');
+    const offset = pt(bleed + MARK_OFFSET_MM);
+    const length = pt(MARK_LENGTH_MM);
+    for (const x of [trimX, trimX + trimWidth]) {
+      for (const y of [trimY, trimY + trimHeight]) {
+        const dx = x === trimX ? -1 : 1;
+        const dy = y === trimY ? -1 : 1;
+        content.push(`${num(x + dx * offset)} ${num(y)} m ${num(x + dx * (offset + length))} ${num(y)} l S`);
+        content.push(`${num(x)} ${num(y + dy * offset)} m ${num(x)} ${num(y + dy * (offset + length))} l S`);
+      }
+    }
+    content.push('Q');
+  }
+
+  if (options.colorBar) {
+    // Swatches with labels along the bottom slug
+    const size = pt(SWATCH_MM);
+    const y = trimY - pt(bleed) - pt(MARK_OFFSET_MM) - size;
+    palette.forEach((_, i) => {
+      const x = trimX + pt(MARK_LENGTH_MM + MARK_OFFSET_MM) + i * (size + pt(2));
+      content.push(spotFill(i), `${num(x)} ${num(y)} ${num(size)} ${num(size)} re f`);
+    });
+    content.push('BT', '/F1 5 Tf', '/CSAll cs 1 scn');
+    palette.forEach((_, i) => {
+      const x = trimX + pt(MARK_LENGTH_MM + MARK_OFFSET_MM) + i * (size + pt(2));
+      content.push(`1 0 0 1 ${num(x)} ${num(y - 6)} Tm`, `${pdfString(labels[i])} Tj`);
+    });
+    content.push('ET');
+  }
+
+  const colorSpaces: Record<string, string> = {};
+  palette.forEach((color, i) => {
+    colorSpaces[`CS${i}`] = separation(spotNames[i], color);
+  });
+  colorSpaces.CSAll = separation('All', [0, 0, 0]);
+
+  return writePDF({
+    width: pageWidth,
+    height: pageHeight,
+    content: content.join('\n'),
+    boxes: [
+      `/BleedBox ${box(trimX - pt(bleed), trimY - pt(bleed), trimWidth + 2 * pt(bleed), trimHeight + 2 * pt(bleed))}`,
+      `/TrimBox ${box(trimX, trimY, trimWidth, trimHeight)}`,
+    ],
+    colorSpaces,
+    extGStates: { GSGrid: `<< /CA ${GRID_LINE_OPACITY} >>` },
+  });
+}
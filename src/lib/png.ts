@@ -0,0 +1,308 @@
+/**
+ * PNG chunk reading and writing, text metadata, and animated PNG (APNG) encoding
+ * Frames are written as indexed-color images with a PLTE of exactly the given
+ * colors; image data is zlib-compressed with the platform CompressionStream
+ */
+
+import type { RGB } from '../types';
+import type { GifFrame } from './gif';
+import { createFrameDiffer, cropIndices } from './animation';
+import type { FrameRect } from './animation';
+
+/** PNG file signature */
+export const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+/** APNG encoder options */
+export interface ApngOptions {
+  width: number;
+  height: number;
+  /** Palette (at most 256 colors) */
+  colors: RGB[];
+  /** Number of plays; 0 loops forever (default) */
+  loopCount?: number;
+  /** Only store the region that changed since the previous frame (default true) */
+  changedOnly?: boolean;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 as used by PNG chunks
+ * @param bytes Data to checksum
+ */
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Big-endian 32-bit values
+ */
+function u32(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value >>> 0));
+  return bytes;
+}
+
+/**
+ * Concatenate byte arrays
+ */
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Write a PNG chunk: length, type, data, CRC of type and data
+ * @param type Four-character chunk type
+ * @param data Chunk data
+ */
+export function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const body = concat([new Uint8Array(Array.from(type, (c) => c.charCodeAt(0))), data]);
+  return concat([u32(data.length), body, u32(crc32(body))]);
+}
+
+/**
+ * Whether bytes start with the PNG signature
+ * @param bytes File bytes
+ */
+export function isPNG(bytes: Uint8Array): boolean {
+  return bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+/**
+ * Write an uncompressed iTXt (international text) chunk
+ * @param keyword Keyword (1-79 Latin-1 characters)
+ * @param text UTF-8 text
+ * @throws Error if the keyword is invalid
+ */
+export function textChunk(keyword: string, text: string): Uint8Array {
+  if (!/^[\x20-\x7e\xa1-\xff]{1,79}$/.test(keyword)) {
+    throw new Error('Invalid PNG text keyword');
+  }
+  return pngChunk(
+    'iTXt',
+    concat([
+      new Uint8Array(Array.from(keyword, (c) => c.charCodeAt(0))),
+      // Null separator, compression flag and method, then empty language tag and translated keyword
+      new Uint8Array([0, 0, 0, 0, 0]),
+      new TextEncoder().encode(text),
+    ])
+  );
+}
+
+/**
+ * Insert chunks into a PNG just before its IEND chunk
+ * @param png PNG file bytes
+ * @param chunks Complete chunks (see pngChunk)
+ * @throws Error if the file is not a PNG
+ */
+export function insertChunks(png: Uint8Array, chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  if (!isPNG(png)) {
+    throw new Error('Not a PNG file');
+  }
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= png.length && String.fromCharCode(...png.subarray(offset + 4, offset + 8)) !== 'IEND') {
+    offset += view.getUint32(offset) + 12;
+  }
+  offset = Math.min(offset, png.length);
+  return concat([png.subarray(0, offset), ...chunks, png.subarray(offset)]);
+}
+
+/**
+ * Read the text metadata of a PNG
+ * tEXt and uncompressed iTXt chunks are read; compressed text is skipped
+ * @param png PNG file bytes
+ * @returns Text by keyword (the first chunk wins for repeated keywords)
+ */
+export function readTextChunks(png: Uint8Array): Map<string, string> {
+  const texts = new Map<string, string>();
+  if (!isPNG(png)) return texts;
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  // Browsers decode 'latin1' as windows-1252, which matches for printable text
+  const latin1Decoder = new TextDecoder('latin1');
+  const latin1 = (bytes: Uint8Array) => latin1Decoder.decode(bytes);
+  for (let offset = PNG_SIGNATURE.length; offset + 8 <= png.length; ) {
+    const length = view.getUint32(offset);
+    const type = latin1(png.subarray(offset + 4, offset + 8));
+    const data = png.subarray(offset + 8, Math.min(png.length, offset + 8 + length));
+    offset += length + 12;
+    if (type === 'IEND') break;
+    if (type !== 'tEXt' && type !== 'iTXt') continue;
+
+    const end = data.indexOf(0);
+    if (end <= 0) continue;
+    const keyword = latin1(data.subarray(0, end));
+    if (texts.has(keyword)) continue;
+
+    if (type === 'tEXt') {
+      texts.set(keyword, latin1(data.subarray(end + 1)));
+      continue;
+    }
+    // iTXt: compression flag and method, then null-terminated language tag and translated keyword
+    if (data[end + 1] !== 0) continue;
+    const language = data.indexOf(0, end + 3);
+    const translated = language < 0 ? -1 : data.indexOf(0, language + 1);
+    if (translated < 0) continue;
+    texts.set(keyword, new TextDecoder().decode(data.subarray(translated + 1)));
+  }
+  return texts;
+}
+
+/**
+ * zlib-compress bytes
+ * @param data Uncompressed bytes
+ */
+export async function deflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new CompressionStream('deflate');
+  const writer = stream.writable.getWriter();
+  const written = writer.write(data).then(() => writer.close());
+
+  const parts: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    parts.push(result.value);
+  }
+  await written;
+  return concat(parts);
+}
+
+/**
+ * Lay out indexed pixels as PNG scanlines (filter type 0 before each row)
+ */
+function scanlines(indices: Uint8Array, width: number, height: number): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array((width + 1) * height);
+  for (let y = 0; y < height; y++) {
+    out.set(indices.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  }
+  return out;
+}
+
+/**
+ * Frame delay as an APNG fraction of a second
+ */
+function delayFraction(delay: number): [number, number] {
+  const ms = Math.max(0, Math.round(delay));
+  // Long (merged) frames fall back to centiseconds
+  return ms <= 0xffff ? [ms, 1000] : [Math.min(0xffff, Math.round(ms / 10)), 100];
+}
+
+/** Incremental APNG encoder */
+export interface ApngEncoder {
+  /** Add the next frame in display order */
+  addFrame(frame: GifFrame): Promise<void>;
+  /**
+   * Finish the file
+   * @throws Error if no frames were added
+   */
+  finish(): Promise<Uint8Array<ArrayBuffer>>;
+}
+
+/**
+ * Create an incremental animated PNG encoder
+ * Each frame is compressed once the next differing frame arrives (identical
+ * consecutive frames are merged into one longer frame), so only the pending
+ * and previous frames are held in memory
+ * @param options Size, palette, loop count and differencing
+ * @throws Error if there are too many colors
+ */
+export function createAPNGEncoder(options: ApngOptions): ApngEncoder {
+  const { width, height, colors, loopCount = 0, changedOnly = true } = options;
+  if (colors.length === 0 || colors.length > 256) {
+    throw new Error('PNG palette must have 1-256 colors');
+  }
+
+  const frameChunks: Uint8Array[] = [];
+  let frameCount = 0;
+  // fcTL and fdAT chunks share one sequence
+  let sequence = 0;
+
+  // Frame rectangle waiting for its final delay
+  let pending: { rect: FrameRect; indices: Uint8Array; delay: number } | null = null;
+  const differ = createFrameDiffer(width, height, { changedOnly });
+
+  const writePending = async () => {
+    if (!pending) return;
+    const { rect, indices, delay } = pending;
+    pending = null;
+    const [delayNum, delayDen] = delayFraction(delay);
+    const control = concat([
+      u32(sequence++, rect.width, rect.height, rect.x, rect.y),
+      // Delay fraction, then dispose_op none and blend_op source
+      new Uint8Array([delayNum >> 8, delayNum & 0xff, delayDen >> 8, delayDen & 0xff, 0, 0]),
+    ]);
+    frameChunks.push(pngChunk('fcTL', control));
+
+    const data = await deflate(scanlines(indices, rect.width, rect.height));
+    // The first frame doubles as the default image for plain PNG viewers
+    frameChunks.push(frameCount === 0 ? pngChunk('IDAT', data) : pngChunk('fdAT', concat([u32(sequence++), data])));
+    frameCount++;
+  };
+
+  return {
+    async addFrame(frame) {
+      const rect = differ(frame.indices);
+      if (!rect) {
+        pending!.delay += frame.delay;
+        return;
+      }
+      await writePending();
+      pending = { rect, indices: cropIndices(frame.indices, width, rect), delay: frame.delay };
+    },
+
+    async finish() {
+      if (!pending) {
+        throw new Error('No frames to encode');
+      }
+      await writePending();
+
+      const palette = new Uint8Array(colors.flatMap((c) => c.map((v) => Math.round(Math.max(0, Math.min(1, v)) * 255))));
+      return concat([
+        PNG_SIGNATURE,
+        // 8-bit indexed color, no interlacing
+        pngChunk('IHDR', concat([u32(width, height), new Uint8Array([8, 3, 0, 0, 0])])),
+        pngChunk('acTL', u32(frameCount, loopCount)),
+        pngChunk('PLTE', palette),
+        ...frameChunks,
+        pngChunk('IEND', new Uint8Array(0)),
+      ]);
+    },
+  };
+}
+
+/**
+ * Encode an animated PNG
+ * Identical consecutive frames are merged into one longer frame
+ * @param frames Frames in display order (color indices and delays in ms)
+ * @param options Size, palette, loop count and differencing
+ * @returns APNG file bytes
+ * @throws Error if there are no frames or too many colors
+ */
+export async function encodeAPNG(frames: GifFrame[], options: ApngOptions): Promise<Uint8Array<ArrayBuffer>> {
+  const encoder = createAPNGEncoder(options);
+  for (const frame of frames) {
+    await encoder.addFrame(frame);
+  }
+  return encoder.finish();
+}
@@ -0,0 +1,106 @@
+/**
+ * Built-in and custom knit presets, and the preset JSON file shared between users
+ */
+
+import type { KnitPreset, PresetName } from '../types';
+import { PRESETS } from '../types';
+import { fromStoredParams, toStoredParams } from './params';
+import type { StoredParams } from './params';
+
+/** Format tag written to (and required in) preset files */
+export const PRESET_FILE_FORMAT = 'lidl-knit-presets';
+/** Version 2 stores params with their params version; version 1 files are migrated */
+export const PRESET_FILE_VERSION = 2;
+
+/** Longest preset name */
+export const MAX_PRESET_NAME_LENGTH = 60;
+
+const BUILT_IN_NAMES: Record<PresetName, string> = {
+  classic: 'Classic Knit',
+  airy: 'Airy Knit',
+  quilted: 'Quilted',
+};
+
+/** Built-in presets (read-only) */
+export const BUILT_IN_PRESETS: KnitPreset[] = (Object.keys(PRESETS) as PresetName[]).map((id) => ({
+  id,
+  name: BUILT_IN_NAMES[id],
+  params: PRESETS[id],
+  builtIn: true,
+}));
+
+/** Preset file document */
+export interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  presets: { name: string; params: StoredParams }[];
+}
+
+/**
+ * Create a unique id for a custom preset
+ */
+export function createPresetId(): string {
+  return `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Tidy a preset name: trimmed, shortened, never empty
+ * @param name Name as typed
+ * @param fallback Name to use when nothing is left
+ */
+export function presetName(name: string, fallback: string = 'Untitled preset'): string {
+  const trimmed = name.trim().slice(0, MAX_PRESET_NAME_LENGTH);
+  return trimmed || fallback;
+}
+
+/**
+ * Serialize custom presets as a shareable JSON file
+ * Built-in presets are left out (every copy of the app has them)
+ * @param presets Presets to export
+ */
+export function presetsToJSON(presets: KnitPreset[]): string {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    presets: presets.filter((p) => !p.builtIn).map(({ name, params }) => ({ name, params: toStoredParams(params) })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read presets from a preset file
+ * Each preset gets a new id; older params are migrated and unknown or mistyped
+ * parameters fall back to the defaults
+ * @param text Preset file JSON
+ * @returns Custom presets
+ * @throws Error if the file is not a valid preset file
+ */
+export function parsePresetsJSON(text: string): KnitPreset[] {
+  let data: Partial<PresetFile>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Preset file is not valid JSON');
+  }
+
+  if (!data || data.format !== PRESET_FILE_FORMAT) {
+    throw new Error('Not a knit preset file');
+  }
+  if (typeof data.version !== 'number' || data.version > PRESET_FILE_VERSION) {
+    throw new Error('Unsupported preset file version');
+  }
+  if (!Array.isArray(data.presets)) {
+    throw new Error('Preset file has no presets');
+  }
+
+  return data.presets.map((preset, i) => {
+    if (!preset || typeof preset !== 'object' || !preset.params || typeof preset.params !== 'object') {
+      throw new Error(`Preset ${i + 1} has no parameters`);
+    }
+    return {
+      id: createPresetId(),
+      name: presetName(typeof preset.name === 'string' ? preset.name : '', `Imported preset ${i + 1}`),
+      params: fromStoredParams(preset.params),
+    };
+  });
+}
@@ -0,0 +1,188 @@
+/**
+ * Knit project files (.knitproj)
+ * A project bundles the source image or video, the render settings, an imported
+ * grid, manual cell edits and the export options. Files are a single JSON document with the media
+ * as a base64 data URL; the IndexedDB autosave keeps the same record with the
+ * media as a File
+ */
+
+import type { ExportSizePreset } from '../types';
+import { EXPORT_SIZE_PRESETS, MAX_EXPORT_EDGE } from './aspect';
+import { gridToData, parseGridJSON } from './gridData';
+import type { GridData, ImportedGrid } from './gridData';
+import { parseCellOverrides } from './overrides';
+import type { CellOverrides } from './overrides';
+import { mergeKnown } from './params';
+import { blobToDataURL, dataURLToBlob, validateRenderSettings } from './settings';
+import type { RenderSettings } from './settings';
+import { version as APP_VERSION } from '../../package.json';
+
+/** Format tag written to (and required in) project files */
+export const PROJECT_FORMAT = 'lidl-knit-project';
+export const PROJECT_VERSION = 1;
+
+/** File extension of project files */
+export const PROJECT_EXTENSION = '.knitproj';
+
+/** Export options saved with a project */
+export interface ProjectExportSettings {
+  exportSizePreset: ExportSizePreset;
+  /** Output width for the custom export size */
+  customExportWidth: number;
+  /** Fill the SVG background */
+  svgBackground: boolean;
+  /** Loop GIF, APNG and WebP animations */
+  animationLoop: boolean;
+  /** Only store changed regions in animation frames */
+  changedRegionsOnly: boolean;
+  /** Embed the source image in PNG exports */
+  embedSource: boolean;
+}
+
+/** Default export options */
+export const DEFAULT_PROJECT_EXPORT_SETTINGS: ProjectExportSettings = {
+  exportSizePreset: '1080',
+  customExportWidth: 1080,
+  svgBackground: true,
+  animationLoop: true,
+  changedRegionsOnly: true,
+  embedSource: false,
+};
+
+/** An open project */
+export interface KnitProject {
+  settings: RenderSettings;
+  exportSettings: ProjectExportSettings;
+  /** Source image or video file */
+  source: File | null;
+  /** Grid imported from JSON, shown instead of a source */
+  importedGrid: ImportedGrid | null;
+  /** Manual cell edits */
+  cellOverrides: CellOverrides;
+}
+
+/** Media embedded in a project file */
+export interface ProjectMedia {
+  name: string;
+  type: string;
+  /** Base64 data URL */
+  data: string;
+}
+
+/** Serialized project; the source is a File in IndexedDB and ProjectMedia in files */
+export interface ProjectRecord<Source> {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  /** Version of the app that wrote the project */
+  appVersion: string;
+  /** Render settings, with the params version used for migrations */
+  settings: RenderSettings;
+  exportSettings: ProjectExportSettings;
+  source: Source | null;
+  grid: GridData | null;
+  cellOverrides: CellOverrides;
+}
+
+/**
+ * Serialize a project, keeping the source as a File
+ * @param project Project to store
+ */
+export function projectRecord(project: KnitProject): ProjectRecord<File> {
+  const { settings, exportSettings, source, importedGrid, cellOverrides } = project;
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    appVersion: APP_VERSION,
+    settings,
+    exportSettings,
+    source,
+    grid: importedGrid ? gridToData(importedGrid.grid, importedGrid.names) : null,
+    cellOverrides,
+  };
+}
+
+/**
+ * Serialize a project as a project file
+ * @param project Project to save
+ */
+export async function projectToJSON(project: KnitProject): Promise<string> {
+  const record = projectRecord(project);
+  const { source } = record;
+  const file: ProjectRecord<ProjectMedia> = {
+    ...record,
+    source: source ? { name: source.name, type: source.type, data: await blobToDataURL(source) } : null,
+  };
+  return JSON.stringify(file);
+}
+
+/**
+ * Check export options, falling back to the defaults
+ */
+function validateExportSettings(value: unknown): ProjectExportSettings {
+  const settings = mergeKnown(DEFAULT_PROJECT_EXPORT_SETTINGS, value);
+  if (!(settings.exportSizePreset in EXPORT_SIZE_PRESETS)) {
+    settings.exportSizePreset = DEFAULT_PROJECT_EXPORT_SETTINGS.exportSizePreset;
+  }
+  settings.customExportWidth = Number.isFinite(settings.customExportWidth)
+    ? Math.round(Math.max(16, Math.min(MAX_EXPORT_EDGE, settings.customExportWidth)))
+    : DEFAULT_PROJECT_EXPORT_SETTINGS.customExportWidth;
+  return settings;
+}
+
+/**
+ * Restore a project from its record
+ * @param value Untrusted record
+ * @param readSource Turn the stored source into a File
+ * @throws Error if the record is not a valid project
+ */
+function projectFromRecord(value: unknown, readSource: (source: unknown) => File | null): KnitProject {
+  const data = value as Partial<ProjectRecord<unknown>> | null;
+  if (!data || data.format !== PROJECT_FORMAT) {
+    throw new Error('Not a knit project file');
+  }
+  if (typeof data.version !== 'number' || data.version > PROJECT_VERSION) {
+    throw new Error('Unsupported project version');
+  }
+
+  return {
+    settings: validateRenderSettings(data.settings),
+    exportSettings: validateExportSettings(data.exportSettings),
+    source: data.source ? readSource(data.source) : null,
+    importedGrid: data.grid ? parseGridJSON(JSON.stringify(data.grid)) : null,
+    cellOverrides: parseCellOverrides(data.cellOverrides),
+  };
+}
+
+/**
+ * Read a project file
+ * @param text Project file JSON
+ * @throws Error if the file is not a valid project
+ */
+export function parseProjectJSON(text: string): KnitProject {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Project file is not valid JSON');
+  }
+
+  return projectFromRecord(data, (source) => {
+    const media = source as Partial<ProjectMedia>;
+    if (typeof media.data !== 'string') {
+      throw new Error('Project media is missing');
+    }
+    const blob = dataURLToBlob(media.data);
+    return new File([blob], typeof media.name === 'string' ? media.name : 'source', {
+      type: typeof media.type === 'string' && media.type ? media.type : blob.type,
+    });
+  });
+}
+
+/**
+ * Read a project record from the autosave
+ * @param value Stored record
+ * @throws Error if the record is not a valid project
+ */
+export function readProjectRecord(value: unknown): KnitProject {
+  return projectFromRecord(value, (source) => (source instanceof File ? source : null));
+}
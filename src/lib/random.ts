@@ -0,0 +1,39 @@
+/**
+ * Deterministic pseudo-random numbers for reproducible renders
+ */
+
+/**
+ * Finalize a 32-bit hash (MurmurHash3 fmix32)
+ */
+function fmix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * Get a pseudo-random value for a grid cell
+ * The same seed and coordinates always return the same value, so renders
+ * are stable across re-renders, resizes and video frames
+ * @param seed Integer seed
+ * @param x Cell x coordinate
+ * @param y Cell y coordinate
+ * @returns Value in [0, 1) range
+ */
+export function cellRandom(seed: number, x: number, y: number): number {
+  let h = fmix32(seed | 0);
+  h = fmix32(h ^ Math.imul(x | 0, 0x27d4eb2d));
+  h = fmix32(h ^ Math.imul(y | 0, 0x165667b1));
+  return h / 4294967296;
+}
+
+/**
+ * Generate a new random seed for the "shuffle" action
+ * @returns Integer seed in [0, 999999]
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1000000);
+}
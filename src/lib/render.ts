@@ -1,184 +1,442 @@
 /**
  * Rendering utilities for knit grid
+ *
+ * Rendering is split into two stages:
+ * - computeKnitGrid: pure mosaic logic (color processing, quantization, glyph choice)
+ * - paintKnitGrid: draws a computed grid to a canvas context (svg.ts emits the same layout as vectors)
  */
 
-import { sampleImage, getPixelFromImageData } from './sampler';
-import { detectEdges } from './mapping';
+import { sampleImage } from './sampler';
+import {
+  detectEdges,
+  pickGlyph,
+  calculateThresholds,
+  luminanceHistogram,
+  luminanceFromRGB,
+  glyphForIndex,
+} from './mapping';
 import {
   applyPaletteMix,
   applyDither,
+  paletteSpread,
   applyContrast,
   applySaturation,
-  nearestBrandColor,
+  getColorMatcher,
 } from './palette';
 import { drawGlyph } from './glyphs';
-import type { RGB, GlyphType, KnitParams } from '../types';
+import { cellRandom } from './random';
+import { isErrorDiffusion, applyErrorDiffusion } from './dither';
+import { applyCellOverrides } from './overrides';
+import type { CellOverrides } from './overrides';
+import type { RGB, GlyphType, KnitParams, KnitGrid, CellData, Canvas2DContext, CropSettings } from '../types';
+import { DEFAULT_CROP } from '../types';
 import { ACTIVE_PALETTE } from './palette';
 
-// Use the light blue from the active palette as background (#0052B0)
-const BACKGROUND_COLOR: RGB = ACTIVE_PALETTE[0]; // #0052B0 - Light blue
-
 /**
- * Render a knit grid frame from an image to a canvas context
- * @param ctx Canvas rendering context
- * @param image Source image (ImageBitmap)
- * @param params Knit parameters
- * @param size Canvas size (square)
+ * Helper function to match colors with tolerance
  */
-export function renderKnitFrame(
-  ctx: CanvasRenderingContext2D,
-  image: ImageBitmap,
-  params: KnitParams,
-  size: number
-): void {
-  // Fill background
-  ctx.fillStyle = `rgb(${Math.round(BACKGROUND_COLOR[0] * 255)}, ${Math.round(BACKGROUND_COLOR[1] * 255)}, ${Math.round(BACKGROUND_COLOR[2] * 255)})`;
-  ctx.fillRect(0, 0, size, size);
-
-  // Calculate grid dimensions
-  const stitchPx = Math.max(4, Math.min(100, params.stitchPx));
-  const cols = Math.floor(size / stitchPx);
-  const rows = Math.floor(size / stitchPx);
-
-  if (cols === 0 || rows === 0) return;
+function colorMatch(c1: RGB, c2: RGB, tolerance = 0.01): boolean {
+  return Math.abs(c1[0] - c2[0]) < tolerance &&
+         Math.abs(c1[1] - c2[1]) < tolerance &&
+         Math.abs(c1[2] - c2[2]) < tolerance;
+}
 
-  // Sample image to grid size
-  const sampledData = sampleImage(image, cols, rows);
-  const edgeMap = detectEdges(sampledData, cols, rows);
+/**
+ * Convert an RGB color in [0, 1] to a CSS rgb() (or rgba() with alpha) string
+ */
+function toCssColor(color: RGB, alpha?: number): string {
+  const r = Math.round(color[0] * 255);
+  const g = Math.round(color[1] * 255);
+  const b = Math.round(color[2] * 255);
+  return alpha === undefined ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
 
-  // Render each cell
-  const cellWidth = size / cols;
-  const cellHeight = size / rows;
-  const glyphSize = Math.min(cellWidth, cellHeight) * 0.8; // 80% of cell size
+/**
+ * Clamp stitch size to the range the renderer supports
+ */
+function clampStitchPx(stitchPx: number): number {
+  return Math.max(4, Math.min(100, stitchPx));
+}
 
-  // Disable smoothing for crisp rendering
-  ctx.imageSmoothingEnabled = false;
+/**
+ * Compute the knit grid from downsampled RGBA pixel data
+ * Pure function - no canvas required
+ * @param rgba RGBA pixel data of the image sampled to cols × rows
+ * @param cols Number of grid columns
+ * @param rows Number of grid rows
+ * @param params Knit parameters
+ * @param palette Palette colors; the first entry is used as background
+ * @returns Computed knit grid
+ */
+export function computeKnitGrid(
+  rgba: Uint8ClampedArray,
+  cols: number,
+  rows: number,
+  params: KnitParams,
+  palette: RGB[] = ACTIVE_PALETTE
+): KnitGrid {
+  const background = palette[0];
+  const grid: KnitGrid = { cols, rows, background, palette, cells: [] };
+  if (cols === 0 || rows === 0) return grid;
 
-  // Draw grid lines if enabled
-  if (params.showGridLines) {
-    ctx.strokeStyle = `rgba(18, 34, 91, 0.25)`;
-    ctx.lineWidth = 1;
-    for (let y = 0; y <= rows; y++) {
-      const py = Math.round(y * cellHeight);
-      ctx.beginPath();
-      ctx.moveTo(0, py);
-      ctx.lineTo(size, py);
-      ctx.stroke();
-    }
-    for (let x = 0; x <= cols; x++) {
-      const px = Math.round(x * cellWidth);
-      ctx.beginPath();
-      ctx.moveTo(px, 0);
-      ctx.lineTo(px, size);
-      ctx.stroke();
-    }
-  }
+  const edgeMap = detectEdges({ data: rgba }, cols, rows);
+  const matcher = getColorMatcher(palette, params.colorMetric);
 
-  // Helper function to match colors with tolerance
-  const colorMatch = (c1: RGB, c2: RGB, tolerance = 0.01) => {
-    return Math.abs(c1[0] - c2[0]) < tolerance &&
-           Math.abs(c1[1] - c2[1]) < tolerance &&
-           Math.abs(c1[2] - c2[2]) < tolerance;
-  };
+  // First pass: color adjustments (null = transparent cell)
+  const adjusted: (RGB | null)[][] = [];
 
-  // First pass: determine prominent color by counting color usage
-  const colorCounts = new Map<string, number>();
-  const cellColors: RGB[][] = [];
-  
   for (let y = 0; y < rows; y++) {
-    cellColors[y] = [];
+    adjusted[y] = [];
     for (let x = 0; x < cols; x++) {
       const pixelIndex = (y * cols + x) * 4;
-      const alpha = sampledData.data[pixelIndex + 3] / 255;
-      
+      const alpha = rgba[pixelIndex + 3] / 255;
+
       if (alpha < 0.05) {
-        cellColors[y][x] = BACKGROUND_COLOR;
+        adjusted[y][x] = null;
         continue;
       }
 
       // Get pixel color from sampled data
-      const rgb: RGB = getPixelFromImageData(sampledData, x, y, cols);
+      const rgb: RGB = [
+        rgba[pixelIndex] / 255,
+        rgba[pixelIndex + 1] / 255,
+        rgba[pixelIndex + 2] / 255,
+      ];
 
       // Apply contrast
       const contrasted = applyContrast(rgb, params.contrast);
 
       // Apply saturation
-      const saturated = applySaturation(contrasted, params.saturation);
+      adjusted[y][x] = applySaturation(contrasted, params.saturation);
+    }
+  }
+
+  // Apply dither: error diffusion runs across the whole grid, ordered modes per cell
+  // Ordered thresholds span one palette step, so neighbouring colors mix visibly
+  const spread = paletteSpread(palette);
+  const dithered = isErrorDiffusion(params.ditherMode)
+    ? applyErrorDiffusion(
+        adjusted,
+        cols,
+        rows,
+        params.ditherMode,
+        params.dither,
+        (rgb) => palette[matcher.nearestIndex(rgb)]
+      )
+    : adjusted.map((row, y) =>
+        row.map((rgb, x) => (rgb ? applyDither(rgb, params.dither, x, y, params.ditherMode, spread) : null))
+      );
+
+  // Second pass: quantize and count palette usage to find the prominent color
+  const colorCounts = new Map<number, number>();
+  const cellColors: RGB[][] = [];
+  const cellIndices: number[][] = [];
+
+  for (let y = 0; y < rows; y++) {
+    cellColors[y] = [];
+    cellIndices[y] = [];
+    for (let x = 0; x < cols; x++) {
+      const color = dithered[y][x];
+
+      if (!color) {
+        cellColors[y][x] = background;
+        cellIndices[y][x] = 0;
+        continue;
+      }
 
-      // Apply dither
-      const dithered = applyDither(saturated, params.dither, x, y);
+      // Quantize: brand lock snaps to the palette, otherwise blend towards it
+      const colorIndex = matcher.nearestIndex(color);
+      const finalColor = params.brandLock
+        ? palette[colorIndex]
+        : applyPaletteMix(color, params.paletteMix, palette, params.colorMetric);
 
-      // Apply palette mix
-      let finalColor = applyPaletteMix(dithered, params.paletteMix);
-      
-      // Final quantization step
-      finalColor = nearestBrandColor(finalColor);
-      
       cellColors[y][x] = finalColor;
-      
+      cellIndices[y][x] = colorIndex;
+
       // Skip background color in counts
-      const colorKey = `${Math.round(finalColor[0] * 255)},${Math.round(finalColor[1] * 255)},${Math.round(finalColor[2] * 255)}`;
-      if (!colorMatch(finalColor, BACKGROUND_COLOR)) {
-        colorCounts.set(colorKey, (colorCounts.get(colorKey) || 0) + 1);
+      if (colorIndex !== 0) {
+        colorCounts.set(colorIndex, (colorCounts.get(colorIndex) || 0) + 1);
       }
     }
   }
 
   // Determine prominent color
-  let prominentColor: RGB | null = null;
+  let prominentIndex = -1;
   let maxCount = 0;
-  
-  for (const [colorKey, count] of colorCounts.entries()) {
+
+  for (const [colorIndex, count] of colorCounts.entries()) {
     if (count > maxCount) {
       maxCount = count;
-      const [r, g, b] = colorKey.split(',').map(Number);
-      prominentColor = [r / 255, g / 255, b / 255] as RGB;
+      prominentIndex = colorIndex;
+    }
+  }
+
+  // Luminance thresholds: fixed t1/t2, or tertiles of the image histogram in auto mode
+  let thresholds: [number, number] = [params.glyphT1, params.glyphT2];
+  if (params.glyphMapping === 'luminance' && params.autoThresholds) {
+    const lumas: number[] = [];
+    for (const row of dithered) {
+      for (const color of row) {
+        if (color) lumas.push(luminanceFromRGB(color));
+      }
     }
+    thresholds = calculateThresholds(luminanceHistogram(lumas));
   }
 
-  // Second pass: render with shape mapping
+  // Third pass: shape mapping
   for (let y = 0; y < rows; y++) {
+    const row: (CellData | null)[] = [];
     for (let x = 0; x < cols; x++) {
       const finalColor = cellColors[y][x];
-      
-      // Skip background color cells
-      if (colorMatch(finalColor, BACKGROUND_COLOR)) {
+      const colorIndex = cellIndices[y][x];
+
+      // Cells snapped to the background are left empty; blended cells only when they match it
+      const snapped = params.brandLock || params.paletteMix >= 1;
+      if ((snapped && colorIndex === 0) || colorMatch(finalColor, background)) {
+        row.push(null);
         continue;
       }
 
       // Determine glyph
       let glyph: GlyphType;
       const isEdge = edgeMap[y]?.[x] ?? false;
-      const isProminent = prominentColor && colorMatch(finalColor, prominentColor);
-      
-      if (isProminent) {
-        const pattern = (x + y) % 2;
-        glyph = pattern === 0 ? 'circle' : 'square';
-      } else {
-        glyph = 'diamond';
+
+      switch (params.glyphMapping) {
+        case 'luminance':
+          // Edge bias is built into the luminance bands
+          glyph = pickGlyph(
+            luminanceFromRGB(dithered[y][x] ?? finalColor),
+            thresholds[0],
+            thresholds[1],
+            params.edgeCrispness,
+            isEdge
+          );
+          break;
+        case 'palette-index':
+          glyph = glyphForIndex(colorIndex);
+          break;
+        case 'custom':
+          glyph = glyphForIndex(colorIndex, params.glyphTable);
+          break;
+        case 'checkerboard':
+        default:
+          if (colorIndex === prominentIndex) {
+            const pattern = (x + y) % 2;
+            glyph = pattern === 0 ? 'circle' : 'square';
+          } else {
+            glyph = 'diamond';
+          }
+          break;
       }
-      
-      // Apply edge bias
-      if (isEdge && params.edgeCrispness > 0) {
+
+      // Apply edge bias (seeded per cell so renders are reproducible)
+      if (params.glyphMapping !== 'luminance' && isEdge && params.edgeCrispness > 0) {
         const bias = params.edgeCrispness;
-        if (Math.random() < bias * 0.3) {
+        if (cellRandom(params.seed, x, y) < bias * 0.3) {
           glyph = 'diamond';
         }
       }
 
+      row.push({ glyph, color: finalColor, colorIndex, isEdge });
+    }
+    grid.cells.push(row);
+  }
+
+  return grid;
+}
+
+/** Grid line color (navy at 25% opacity) */
+export const GRID_LINE_COLOR: RGB = [18 / 255, 34 / 255, 91 / 255];
+export const GRID_LINE_OPACITY = 0.25;
+
+/**
+ * Color of a grid line painted over a background
+ * @param background Background color
+ */
+export function gridLineColorOver(background: RGB): RGB {
+  return background.map((c, i) => c * (1 - GRID_LINE_OPACITY) + GRID_LINE_COLOR[i] * GRID_LINE_OPACITY) as RGB;
+}
+
+/** Glyph size relative to the smaller cell side */
+const GLYPH_SCALE = 0.8;
+
+/** Cell and glyph sizes for a grid laid out over an output area */
+export interface GridLayout {
+  cellWidth: number;
+  cellHeight: number;
+  glyphSize: number;
+}
+
+/**
+ * Lay a grid out over an output area
+ * @param cols Number of columns
+ * @param rows Number of rows
+ * @param width Output width
+ * @param height Output height
+ */
+export function gridLayout(cols: number, rows: number, width: number, height: number): GridLayout {
+  const cellWidth = width / cols;
+  const cellHeight = height / rows;
+  return {
+    cellWidth,
+    cellHeight,
+    glyphSize: Math.min(cellWidth, cellHeight) * GLYPH_SCALE,
+  };
+}
+
+/**
+ * Paint a computed knit grid to a canvas context
+ * @param ctx Canvas rendering context
+ * @param grid Computed knit grid
+ * @param width Canvas width
+ * @param height Canvas height
+ * @param showGridLines Whether to draw grid lines behind the glyphs
+ * @param lineWidth Grid line width (default 1; exports widen it with their scale)
+ */
+export function paintKnitGrid(
+  ctx: Canvas2DContext,
+  grid: KnitGrid,
+  width: number,
+  height: number,
+  showGridLines: boolean,
+  lineWidth: number = 1
+): void {
+  // Fill background
+  ctx.fillStyle = toCssColor(grid.background);
+  ctx.fillRect(0, 0, width, height);
+
+  const { cols, rows } = grid;
+  if (cols === 0 || rows === 0) return;
+
+  const { cellWidth, cellHeight, glyphSize } = gridLayout(cols, rows, width, height);
+
+  // Disable smoothing for crisp rendering
+  ctx.imageSmoothingEnabled = false;
+
+  // Draw grid lines if enabled
+  if (showGridLines) {
+    ctx.strokeStyle = toCssColor(GRID_LINE_COLOR, GRID_LINE_OPACITY);
+    ctx.lineWidth = lineWidth;
+    for (let y = 0; y <= rows; y++) {
+      const py = Math.round(y * cellHeight);
+      ctx.beginPath();
+      ctx.moveTo(0, py);
+      ctx.lineTo(width, py);
+      ctx.stroke();
+    }
+    for (let x = 0; x <= cols; x++) {
+      const px = Math.round(x * cellWidth);
+      ctx.beginPath();
+      ctx.moveTo(px, 0);
+      ctx.lineTo(px, height);
+      ctx.stroke();
+    }
+  }
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const cell = grid.cells[y][x];
+      if (!cell) continue;
+
       // Calculate cell center
       const cx = (x + 0.5) * cellWidth;
       const cy = (y + 0.5) * cellHeight;
 
-      // Convert color to CSS string
-      const r = Math.round(finalColor[0] * 255);
-      const g = Math.round(finalColor[1] * 255);
-      const b = Math.round(finalColor[2] * 255);
-      ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-
-      // Draw glyph
-      drawGlyph(ctx, glyph, cx, cy, glyphSize);
+      ctx.fillStyle = toCssColor(cell.color);
+      drawGlyph(ctx, cell.glyph, cx, cy, glyphSize);
     }
   }
 }
 
+/**
+ * Calculate grid dimensions for a canvas size
+ * @param width Canvas width
+ * @param height Canvas height
+ * @param stitchPx Grid cell size in pixels (clamped to the supported range)
+ * @returns Number of columns and rows
+ */
+export function gridDimensions(width: number, height: number, stitchPx: number): { cols: number; rows: number } {
+  const clamped = clampStitchPx(stitchPx);
+  return {
+    cols: Math.floor(width / clamped),
+    rows: Math.floor(height / clamped),
+  };
+}
+
+/**
+ * Compute the knit grid for an image at a canvas size
+ * The image is oriented and cropped to the canvas aspect ratio
+ * @param image Source image (ImageBitmap)
+ * @param params Knit parameters
+ * @param width Canvas width (with height, determines cols and rows)
+ * @param height Canvas height
+ * @param palette Palette colors; the first entry is used as background
+ * @param crop Source crop and orientation (defaults to a centre crop)
+ */
+export function buildKnitGrid(
+  image: ImageBitmap,
+  params: KnitParams,
+  width: number,
+  height: number,
+  palette: RGB[] = ACTIVE_PALETTE,
+  crop: CropSettings = DEFAULT_CROP
+): KnitGrid {
+  // Calculate grid dimensions
+  const { cols, rows } = gridDimensions(width, height, params.stitchPx);
+  return buildKnitGridCells(image, params, cols, rows, width / height, palette, crop);
+}
+
+/**
+ * Compute the knit grid for an image with a fixed number of columns and rows
+ * Used by exports, which keep the preview's cells at any output size
+ * @param image Source image (ImageBitmap)
+ * @param params Knit parameters
+ * @param cols Number of columns
+ * @param rows Number of rows
+ * @param ratio Width / height of the output (the crop's aspect ratio)
+ * @param palette Palette colors; the first entry is used as background
+ * @param crop Source crop and orientation (defaults to a centre crop)
+ */
+export function buildKnitGridCells(
+  image: ImageBitmap,
+  params: KnitParams,
+  cols: number,
+  rows: number,
+  ratio: number,
+  palette: RGB[] = ACTIVE_PALETTE,
+  crop: CropSettings = DEFAULT_CROP
+): KnitGrid {
+  if (cols === 0 || rows === 0) {
+    return { cols, rows, background: palette[0], palette, cells: [] };
+  }
+
+  // Sample the matching region of the image to grid size
+  const sampledData = sampleImage(image, cols, rows, crop, ratio);
+  return computeKnitGrid(sampledData.data, cols, rows, params, palette);
+}
+
+/**
+ * Render a knit grid frame from an image to a canvas context
+ * The image is oriented and cropped to the canvas aspect ratio
+ * @param ctx Canvas rendering context
+ * @param image Source image (ImageBitmap)
+ * @param params Knit parameters
+ * @param width Canvas width
+ * @param height Canvas height
+ * @param palette Palette colors; the first entry is used as background
+ * @param crop Source crop and orientation (defaults to a centre crop)
+ * @param overrides Manual cell edits applied to the computed grid
+ */
+export function renderKnitFrame(
+  ctx: Canvas2DContext,
+  image: ImageBitmap,
+  params: KnitParams,
+  width: number,
+  height: number,
+  palette: RGB[] = ACTIVE_PALETTE,
+  crop: CropSettings = DEFAULT_CROP,
+  overrides: CellOverrides = {}
+): void {
+  const grid = applyCellOverrides(buildKnitGrid(image, params, width, height, palette, crop), overrides);
+  paintKnitGrid(ctx, grid, width, height, params.showGridLines);
+}
@@ -0,0 +1,177 @@
+/**
+ * Client for the knit grid render worker
+ * Sends source frames to the worker and receives rendered frames back,
+ * dropping stale renders when newer ones are requested
+ */
+
+import type { KnitParams, RGB, CropSettings } from '../types';
+import type { CellOverrides } from './overrides';
+
+/** Message sent to the render worker */
+export type RenderWorkerRequest =
+  | {
+      type: 'render';
+      /** Request id (increasing) */
+      id: number;
+      /** Source frame - transferred, owned by the worker afterwards */
+      image: ImageBitmap;
+      params: KnitParams;
+      palette: RGB[];
+      /** Output width */
+      width: number;
+      /** Output height */
+      height: number;
+      crop: CropSettings;
+      /** Manual cell edits */
+      overrides: CellOverrides;
+    }
+  | {
+      type: 'cancel';
+      /** Cancel all requests up to and including this id */
+      id: number;
+    };
+
+/** Message sent back by the render worker */
+export type RenderWorkerResponse =
+  | {
+      type: 'frame';
+      id: number;
+      /** Rendered frame - transferred, owned by the receiver */
+      bitmap: ImageBitmap;
+    }
+  | {
+      type: 'cancelled';
+      id: number;
+    }
+  | {
+      type: 'error';
+      id: number;
+      message: string;
+    };
+
+/** Minimal worker interface (lets tests substitute a fake worker) */
+export interface RenderWorkerLike {
+  postMessage(message: RenderWorkerRequest, transfer: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<RenderWorkerResponse>) => void): void;
+  terminate(): void;
+}
+
+/** Render client bound to a single worker */
+export interface RenderClient {
+  /**
+   * Render a frame in the worker
+   * Ownership of image passes to the worker. Resolves to null if the render
+   * was superseded by a newer request or cancelled
+   */
+  render: (
+    image: ImageBitmap,
+    params: KnitParams,
+    palette: RGB[],
+    width: number,
+    height: number,
+    crop: CropSettings,
+    overrides?: CellOverrides
+  ) => Promise<ImageBitmap | null>;
+  /** Cancel all in-flight renders (they resolve to null) */
+  cancel: () => void;
+  /** Terminate the worker */
+  dispose: () => void;
+}
+
+/**
+ * Check whether worker rendering is available in this browser
+ */
+export function supportsWorkerRendering(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof OffscreenCanvas.prototype.transferToImageBitmap === 'function'
+  );
+}
+
+/**
+ * Create the default module worker
+ */
+function createDefaultWorker(): RenderWorkerLike {
+  return new Worker(new URL('../workers/render.worker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Create a render client backed by a worker
+ * @param createWorker Worker factory (defaults to the bundled render worker)
+ */
+export function createRenderClient(
+  createWorker: () => RenderWorkerLike = createDefaultWorker
+): RenderClient {
+  const worker = createWorker();
+  const pending = new Map<number, (bitmap: ImageBitmap | null) => void>();
+  let nextId = 1;
+  let disposed = false;
+
+  /**
+   * Resolve every pending request up to maxId as stale and tell the worker
+   */
+  const cancelUpTo = (maxId: number) => {
+    let cancelled = false;
+    for (const [id, resolve] of pending) {
+      if (id <= maxId) {
+        pending.delete(id);
+        resolve(null);
+        cancelled = true;
+      }
+    }
+    if (cancelled && !disposed) {
+      worker.postMessage({ type: 'cancel', id: maxId }, []);
+    }
+  };
+
+  worker.addEventListener('message', (event) => {
+    const message = event.data;
+    const resolve = pending.get(message.id);
+
+    if (message.type === 'frame') {
+      if (!resolve) {
+        // Stale frame - nobody is waiting for it anymore
+        message.bitmap.close();
+        return;
+      }
+      pending.delete(message.id);
+      resolve(message.bitmap);
+      return;
+    }
+
+    if (message.type === 'error') {
+      console.error('Render worker failed:', message.message);
+    }
+    if (resolve) {
+      pending.delete(message.id);
+      resolve(null);
+    }
+  });
+
+  return {
+    render: (image, params, palette, width, height, crop, overrides = {}) => {
+      if (disposed) {
+        image.close();
+        return Promise.resolve(null);
+      }
+
+      const id = nextId++;
+      // A newer request makes all older ones stale
+      cancelUpTo(id - 1);
+
+      return new Promise((resolve) => {
+        pending.set(id, resolve);
+        worker.postMessage({ type: 'render', id, image, params, palette, width, height, crop, overrides }, [image]);
+      });
+    },
+
+    cancel: () => cancelUpTo(nextId - 1),
+
+    dispose: () => {
+      cancelUpTo(nextId - 1);
+      disposed = true;
+      worker.terminate();
+    },
+  };
+}
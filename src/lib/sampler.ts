@@ -2,18 +2,25 @@
  * Image sampling and downscaling functions
  */
 
+import type { CropSettings } from '../types';
+import { drawCroppedSource } from './crop';
+
 /**
  * Sample an image into a downscaled grid
  * Uses an offscreen canvas to efficiently downsample the image
  * @param image Source image (ImageBitmap or HTMLImageElement)
  * @param cols Number of columns in the output grid
  * @param rows Number of rows in the output grid
+ * @param crop Optional crop and orientation (defaults to the whole image, stretched)
+ * @param ratio Aspect ratio of the crop (defaults to cols / rows)
  * @returns ImageData of the downscaled image
  */
 export function sampleImage(
   image: ImageBitmap | HTMLImageElement,
   cols: number,
-  rows: number
+  rows: number,
+  crop?: CropSettings,
+  ratio: number = cols / rows
 ): ImageData {
   // Create offscreen canvas at target grid size
   const canvas = new OffscreenCanvas(cols, rows);
@@ -26,8 +33,12 @@ export function sampleImage(
   // Disable image smoothing for pixel-perfect downsampling
   ctx.imageSmoothingEnabled = false;
 
-  // Draw image scaled to grid size
-  ctx.drawImage(image, 0, 0, cols, rows);
+  // Draw image (or the cropped region) scaled to grid size
+  if (crop) {
+    drawCroppedSource(ctx, image, crop, ratio, cols, rows);
+  } else {
+    ctx.drawImage(image, 0, 0, cols, rows);
+  }
 
   // Get pixel data
   return ctx.getImageData(0, 0, cols, rows);
@@ -0,0 +1,196 @@
+/**
+ * Render settings embedded in exported PNGs
+ * The parameters, palette, crop and aspect ratio travel in an iTXt chunk so a
+ * mosaic can be reproduced from the file alone; the source image can ride along
+ * as a data URL in a second chunk
+ */
+
+import type { AspectRatioPreset, BrandPalette, CropSettings, KnitParams } from '../types';
+import { DEFAULT_CROP } from '../types';
+import { ASPECT_PRESETS } from './aspect';
+import { parsePalette } from './palette';
+import { readTextChunks, textChunk } from './png';
+import { fromStoredParams, mergeKnown, PARAMS_VERSION } from './params';
+import { version as APP_VERSION } from '../../package.json';
+
+/** Format tag written to (and required in) embedded settings */
+export const SETTINGS_FORMAT = 'lidl-knit-settings';
+export const SETTINGS_VERSION = 1;
+
+/** PNG text keyword holding the settings JSON */
+export const SETTINGS_KEYWORD = 'lidl-knit-settings';
+
+/** PNG text keyword holding the source image as a data URL */
+export const SOURCE_KEYWORD = 'lidl-knit-source';
+
+/** Everything needed to reproduce a render from its source image */
+export interface RenderSettings {
+  format: typeof SETTINGS_FORMAT;
+  version: number;
+  /** Version of the app that wrote the settings */
+  appVersion: string;
+  /** Version of the params format (settings without one are from before params versioning) */
+  paramsVersion: number;
+  params: KnitParams;
+  palette: BrandPalette;
+  crop: CropSettings;
+  aspectPreset: AspectRatioPreset;
+  /** Ratio parts used by the custom preset */
+  customAspect: { width: number; height: number };
+}
+
+/** Settings read back from a PNG */
+export interface EmbeddedSettings {
+  settings: RenderSettings;
+  /** Source image data URL, if one was embedded */
+  source: string | null;
+}
+
+/**
+ * Collect the current render settings
+ * @param params Knit parameters
+ * @param palette Active palette
+ * @param crop Source crop and orientation
+ * @param aspectPreset Canvas aspect ratio preset
+ * @param customAspect Ratio parts used by the custom preset
+ */
+export function createRenderSettings(
+  params: KnitParams,
+  palette: BrandPalette,
+  crop: CropSettings,
+  aspectPreset: AspectRatioPreset,
+  customAspect: { width: number; height: number }
+): RenderSettings {
+  return {
+    format: SETTINGS_FORMAT,
+    version: SETTINGS_VERSION,
+    appVersion: APP_VERSION,
+    paramsVersion: PARAMS_VERSION,
+    params,
+    // Built-in palettes come back as editable copies
+    palette: { id: palette.id, name: palette.name, swatches: palette.swatches },
+    crop,
+    aspectPreset,
+    customAspect,
+  };
+}
+
+/**
+ * Validate an embedded palette
+ */
+function parseSettingsPalette(value: unknown): BrandPalette {
+  try {
+    return parsePalette(value);
+  } catch (error) {
+    throw new Error(`Settings have an ${(error as Error).message.toLowerCase()}`);
+  }
+}
+
+/**
+ * Restore render settings from their JSON serialization
+ * Unknown or mistyped fields fall back to the defaults
+ * @param text Settings JSON
+ * @throws Error if the text is not valid settings
+ */
+export function parseRenderSettings(text: string): RenderSettings {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Settings are not valid JSON');
+  }
+  return validateRenderSettings(data);
+}
+
+/**
+ * Check parsed render settings
+ * Params from older versions are migrated; unknown or mistyped fields fall back to the defaults
+ * @param value Untrusted value (e.g. parsed JSON)
+ * @throws Error if the value is not valid settings
+ */
+export function validateRenderSettings(value: unknown): RenderSettings {
+  const data = value as Partial<RenderSettings> | null;
+  if (!data || data.format !== SETTINGS_FORMAT) {
+    throw new Error('Not knit render settings');
+  }
+  if (typeof data.version !== 'number' || data.version > SETTINGS_VERSION) {
+    throw new Error('Unsupported settings version');
+  }
+
+  const customAspect = mergeKnown({ width: 3, height: 2 }, data.customAspect);
+  return {
+    format: SETTINGS_FORMAT,
+    version: SETTINGS_VERSION,
+    appVersion: typeof data.appVersion === 'string' ? data.appVersion : 'unknown',
+    paramsVersion: PARAMS_VERSION,
+    params: fromStoredParams({
+      version: typeof data.paramsVersion === 'number' ? data.paramsVersion : 0,
+      params: data.params ?? null,
+    }),
+    palette: parseSettingsPalette(data.palette),
+    crop: mergeKnown(DEFAULT_CROP, data.crop),
+    aspectPreset: data.aspectPreset && data.aspectPreset in ASPECT_PRESETS ? data.aspectPreset : '1:1',
+    customAspect: customAspect.width > 0 && customAspect.height > 0 ? customAspect : { width: 3, height: 2 },
+  };
+}
+
+/**
+ * PNG text chunks carrying render settings
+ * @param settings Render settings
+ * @param source Source image data URL to embed (optional)
+ */
+export function settingsChunks(settings: RenderSettings, source?: string | null): Uint8Array[] {
+  const chunks = [textChunk(SETTINGS_KEYWORD, JSON.stringify(settings))];
+  if (source) chunks.push(textChunk(SOURCE_KEYWORD, source));
+  return chunks;
+}
+
+/**
+ * Read render settings embedded in a PNG
+ * @param png PNG file bytes
+ * @returns The settings and source image, or null if the PNG carries no settings
+ * @throws Error if the settings chunk is present but invalid
+ */
+export function readEmbeddedSettings(png: Uint8Array): EmbeddedSettings | null {
+  const texts = readTextChunks(png);
+  const text = texts.get(SETTINGS_KEYWORD);
+  if (text === undefined) return null;
+
+  const source = texts.get(SOURCE_KEYWORD) ?? null;
+  return {
+    settings: parseRenderSettings(text),
+    source: source?.startsWith('data:image/') ? source : null,
+  };
+}
+
+/**
+ * Encode a file as a data URL
+ * @param blob File contents (its type becomes the data URL's media type)
+ */
+export async function blobToDataURL(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so large images do not overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+}
+
+/**
+ * Decode a base64 data URL
+ * @param url Data URL
+ * @throws Error if the URL is not a base64 data URL
+ */
+export function dataURLToBlob(url: string): Blob {
+  const match = /^data:([^;,]*)(?:;[^,]*)?;base64,(.*)$/s.exec(url);
+  if (!match) {
+    throw new Error('Not a base64 data URL');
+  }
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: match[1] });
+}
@@ -0,0 +1,176 @@
+/**
+ * Shareable links carrying render settings in the URL hash
+ * Every parameter is written with its params version, so a link keeps its look when
+ * the defaults change and older links are migrated like stored params. Numbers are
+ * rounded and built-in palettes are referenced by id to keep links short. The payload
+ * is base64url-encoded JSON under the `s` hash parameter
+ */
+
+import type { AspectRatioPreset, CropSettings, KnitParams, PaletteSwatch } from '../types';
+import { BUILT_IN_PALETTES, sameSwatches } from './palette';
+import { PARAMS_VERSION } from './params';
+import { SETTINGS_FORMAT, SETTINGS_VERSION, validateRenderSettings } from './settings';
+import type { RenderSettings } from './settings';
+
+/** Hash parameter holding the shared settings */
+export const SHARE_HASH_KEY = 's';
+
+/** Id given to a custom palette from a link */
+const SHARED_PALETTE_ID = 'shared-palette';
+
+/** Custom palette in a link: name and swatches as [hex without '#', name, enabled 1/0] */
+interface SharedPalette {
+  n: string;
+  s: [string, string, number][];
+}
+
+/** Link payload */
+interface SharePayload {
+  /** Params format version */
+  v: number;
+  /** Params, in the format of version v */
+  p: KnitParams;
+  /** Built-in palette id, or a custom palette */
+  c: string | SharedPalette;
+  r: CropSettings;
+  a: AspectRatioPreset;
+  /** Custom aspect ratio parts (custom preset only) */
+  x?: [number, number];
+}
+
+/**
+ * Round off floating-point noise (e.g. 0.49000000000000005) so links stay short
+ */
+function compactNumber(value: number): number {
+  return Number.isInteger(value) ? value : Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Copy of a value with its numbers compacted
+ */
+function compactFields<T extends object>(value: T): T {
+  const compact = { ...value };
+  for (const key of Object.keys(compact) as (keyof T)[]) {
+    const field = compact[key];
+    if (typeof field === 'number') compact[key] = compactNumber(field) as T[keyof T];
+  }
+  return compact;
+}
+
+/**
+ * base64url-encode UTF-8 text
+ */
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode base64url text
+ */
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+/**
+ * Encode render settings as a URL hash (without the leading '#')
+ * @param settings Render settings
+ */
+export function encodeShareHash(settings: RenderSettings): string {
+  const { palette } = settings;
+  const builtIn = BUILT_IN_PALETTES.find((p) => p.id === palette.id && sameSwatches(p.swatches, palette.swatches));
+  const payload: SharePayload = {
+    v: PARAMS_VERSION,
+    p: compactFields(settings.params),
+    c: builtIn
+      ? builtIn.id
+      : { n: palette.name, s: palette.swatches.map((s) => [s.hex.replace('#', ''), s.name, s.enabled ? 1 : 0]) },
+    r: compactFields(settings.crop),
+    a: settings.aspectPreset,
+  };
+  if (settings.aspectPreset === 'custom') {
+    payload.x = [settings.customAspect.width, settings.customAspect.height];
+  }
+  return `${SHARE_HASH_KEY}=${toBase64Url(JSON.stringify(payload))}`;
+}
+
+/**
+ * Read render settings from a URL hash
+ * Params from older versions are migrated; missing or invalid fields take the defaults
+ * @param hash URL hash, with or without the leading '#'
+ * @returns The settings, or null if the hash carries none
+ * @throws Error if the hash carries invalid settings
+ */
+export function decodeShareHash(hash: string): RenderSettings | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_HASH_KEY);
+  if (!encoded) return null;
+
+  let payload: Partial<SharePayload>;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    throw new Error('Shared link is damaged');
+  }
+  if (!payload || typeof payload !== 'object') {
+    throw new Error('Shared link is damaged');
+  }
+
+  let palette: unknown;
+  if (typeof payload.c === 'string') {
+    palette = BUILT_IN_PALETTES.find((p) => p.id === payload.c);
+    if (!palette) throw new Error('Shared link uses an unknown palette');
+  } else {
+    const swatches = Array.isArray(payload.c?.s) ? payload.c.s : [];
+    palette = {
+      id: SHARED_PALETTE_ID,
+      name: typeof payload.c?.n === 'string' ? payload.c.n : 'Shared palette',
+      swatches: swatches.map((swatch): Partial<PaletteSwatch> => {
+        const [hex, name, enabled] = Array.isArray(swatch) ? swatch : [];
+        return { hex: `#${hex}`, name, enabled: enabled !== 0 };
+      }),
+    };
+  }
+
+  const [width, height] = Array.isArray(payload.x) ? payload.x : [];
+  return validateRenderSettings({
+    format: SETTINGS_FORMAT,
+    version: SETTINGS_VERSION,
+    paramsVersion: payload.v,
+    params: payload.p,
+    palette,
+    crop: payload.r,
+    aspectPreset: payload.a,
+    customAspect: { width, height },
+  });
+}
+
+/**
+ * Link that opens the app with the given settings
+ * @param settings Render settings
+ * @param href Current page URL (any existing hash is replaced)
+ */
+export function shareURL(settings: RenderSettings, href: string): string {
+  return `${href.split('#')[0]}#${encodeShareHash(settings)}`;
+}
+
+/**
+ * Settings from the link the app was opened with
+ * The hash is removed from the address bar once read, so later reloads keep the
+ * user's own changes; the store reads it once, before it is created
+ * @returns The shared settings, or null if the app was not opened from a valid link
+ */
+export function takeStartupSettings(): RenderSettings | null {
+  let settings: RenderSettings | null = null;
+  try {
+    settings = decodeShareHash(window.location.hash);
+  } catch (error) {
+    console.warn('Ignoring invalid shared settings', error);
+  }
+  if (settings) {
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+  }
+  return settings;
+}
@@ -0,0 +1,103 @@
+/**
+ * SVG vector export of a computed knit grid
+ * Shapes are generated from the grid (not traced from pixels), so the mosaic scales to any size
+ */
+
+import type { KnitGrid } from '../types';
+import { glyphShape } from './glyphs';
+import type { GlyphShape } from './glyphs';
+import { gridLayout, GRID_LINE_COLOR, GRID_LINE_OPACITY } from './render';
+import { rgbToHex } from './palette';
+
+/** SVG output options */
+export interface SvgOptions {
+  /** Include a background rect in the first palette color (default true) */
+  background?: boolean;
+  /** Include a grid-line layer behind the glyphs (default false) */
+  gridLines?: boolean;
+  /** Grid line width; scale it with the document like paintKnitGrid's lineWidth (default 1) */
+  lineWidth?: number;
+}
+
+/**
+ * Format a coordinate with at most 3 decimals
+ */
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Serialize a glyph outline as an SVG element (fill comes from the enclosing group)
+ */
+function shapeToSVG(shape: GlyphShape): string {
+  switch (shape.type) {
+    case 'rect':
+      return `<rect x="${num(shape.x)}" y="${num(shape.y)}" width="${num(shape.width)}" height="${num(shape.height)}"/>`;
+    case 'circle':
+      return `<circle cx="${num(shape.cx)}" cy="${num(shape.cy)}" r="${num(shape.r)}"/>`;
+    case 'polygon':
+      return `<polygon points="${shape.points.map(([x, y]) => `${num(x)},${num(y)}`).join(' ')}"/>`;
+  }
+}
+
+/**
+ * Build an SVG document for a knit grid
+ * Glyphs are grouped by color, one <g> per color, in order of first appearance
+ * @param grid Computed knit grid
+ * @param width Document width
+ * @param height Document height
+ * @param options Background, grid-line layer and line width
+ * @returns SVG markup
+ */
+export function knitGridToSVG(grid: KnitGrid, width: number, height: number, options: SvgOptions = {}): string {
+  const { background = true, gridLines = false, lineWidth = 1 } = options;
+  const { cols, rows } = grid;
+  const lines: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width)}" height="${num(height)}" viewBox="0 0 ${num(width)} ${num(height)}">`,
+  ];
+
+  if (background) {
+    lines.push(`<rect id="background" width="${num(width)}" height="${num(height)}" fill="${rgbToHex(grid.background)}"/>`);
+  }
+
+  if (cols > 0 && rows > 0) {
+    const { cellWidth, cellHeight, glyphSize } = gridLayout(cols, rows, width, height);
+
+    if (gridLines) {
+      lines.push(
+        `<g id="grid-lines" stroke="${rgbToHex(GRID_LINE_COLOR)}" stroke-opacity="${GRID_LINE_OPACITY}" stroke-width="${num(lineWidth)}" fill="none">`
+      );
+      for (let y = 0; y <= rows; y++) {
+        lines.push(`<line x1="0" y1="${num(y * cellHeight)}" x2="${num(width)}" y2="${num(y * cellHeight)}"/>`);
+      }
+      for (let x = 0; x <= cols; x++) {
+        lines.push(`<line x1="${num(x * cellWidth)}" y1="0" x2="${num(x * cellWidth)}" y2="${num(height)}"/>`);
+      }
+      lines.push('</g>');
+    }
+
+    // Collect shapes per color
+    const groups = new Map<string, string[]>();
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        const cell = grid.cells[y][x];
+        if (!cell) continue;
+
+        const hex = rgbToHex(cell.color);
+        let group = groups.get(hex);
+        if (!group) {
+          group = [];
+          groups.set(hex, group);
+        }
+        group.push(shapeToSVG(glyphShape(cell.glyph, (x + 0.5) * cellWidth, (y + 0.5) * cellHeight, glyphSize)));
+      }
+    }
+
+    for (const [hex, shapes] of groups) {
+      lines.push(`<g id="color-${hex.slice(1)}" fill="${hex}">`, ...shapes, '</g>');
+    }
+  }
+
+  lines.push('</svg>');
+  return lines.join('\n');
+}
@@ -0,0 +1,163 @@
+/**
+ * Animated WebP muxing
+ * Each frame is encoded as a still WebP by the browser; this module unwraps the
+ * image chunks of those stills and assembles them into an animated RIFF container
+ */
+
+import type { RGB } from '../types';
+
+/** One animation frame */
+export interface WebpFrame {
+  /** Frame position on the canvas (must be even) */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Display time in milliseconds */
+  duration: number;
+  /** Still WebP file holding the frame image */
+  image: Uint8Array;
+}
+
+/** Animation options */
+export interface WebpOptions {
+  width: number;
+  height: number;
+  /** Number of plays; 0 loops forever (default) */
+  loopCount?: number;
+  /** Background color hint for players (default black) */
+  background?: RGB;
+}
+
+/** Image chunks of a still WebP */
+export interface WebpImageChunks {
+  /** ALPH, VP8 and VP8L chunks, with headers and padding */
+  data: Uint8Array;
+  /** Whether the image uses alpha */
+  alpha: boolean;
+}
+
+/** Largest value of a 24-bit field */
+const MAX_UINT24 = 0xffffff;
+
+const fourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+
+const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+const u24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+
+const u32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+
+/**
+ * Write a RIFF chunk (padded to an even length)
+ */
+function chunk(type: string, payload: ArrayLike<number>): Uint8Array {
+  const padded = payload.length + (payload.length % 2);
+  const out = new Uint8Array(8 + padded);
+  out.set(ascii(type));
+  out.set(u32(payload.length), 4);
+  out.set(payload, 8);
+  return out;
+}
+
+/**
+ * Extract the image chunks of a still WebP file
+ * @param file WebP file bytes
+ * @throws Error if the file is not a WebP image
+ */
+export function webpImageChunks(file: Uint8Array): WebpImageChunks {
+  if (file.length < 12 || fourCC(file, 0) !== 'RIFF' || fourCC(file, 8) !== 'WEBP') {
+    throw new Error('Not a WebP file');
+  }
+
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const parts: Uint8Array[] = [];
+  let alpha = false;
+  let offset = 12;
+  while (offset + 8 <= file.length) {
+    const type = fourCC(file, offset);
+    const size = view.getUint32(offset + 4, true);
+    const end = Math.min(file.length, offset + 8 + size + (size % 2));
+
+    if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') {
+      parts.push(file.subarray(offset, end));
+    }
+    if (type === 'ALPH') alpha = true;
+    // VP8L header: signature byte, then 14+14 bits of size and the alpha_is_used bit
+    if (type === 'VP8L' && size >= 5 && view.getUint32(offset + 9, true) & (1 << 28)) alpha = true;
+
+    offset = end;
+  }
+
+  if (!parts.some((part) => fourCC(part, 0) !== 'ALPH')) {
+    throw new Error('WebP file has no image data');
+  }
+
+  const data = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    data.set(part, position);
+    position += part.length;
+  }
+  return { data, alpha };
+}
+
+/**
+ * Assemble still WebP frames into an animated WebP
+ * Frames replace the canvas region they cover (no blending, no disposal)
+ * @param frames Frames in display order
+ * @param options Canvas size, loop count and background
+ * @returns Animated WebP file bytes
+ * @throws Error if there are no frames or a frame is misplaced
+ */
+export function muxAnimatedWebP(frames: WebpFrame[], options: WebpOptions): Uint8Array<ArrayBuffer> {
+  const { width, height, loopCount = 0, background = [0, 0, 0] } = options;
+  if (frames.length === 0) {
+    throw new Error('No frames to encode');
+  }
+
+  let alpha = false;
+  const frameChunks = frames.map((frame) => {
+    if (frame.x % 2 !== 0 || frame.y % 2 !== 0) {
+      throw new Error('WebP frame offsets must be even');
+    }
+    if (frame.x + frame.width > width || frame.y + frame.height > height) {
+      throw new Error('WebP frame extends past the canvas');
+    }
+
+    const image = webpImageChunks(frame.image);
+    alpha ||= image.alpha;
+    const header = [
+      ...u24(frame.x / 2),
+      ...u24(frame.y / 2),
+      ...u24(frame.width - 1),
+      ...u24(frame.height - 1),
+      ...u24(Math.min(MAX_UINT24, Math.max(0, Math.round(frame.duration)))),
+      0x02, // do not blend, do not dispose
+    ];
+    const payload = new Uint8Array(header.length + image.data.length);
+    payload.set(header);
+    payload.set(image.data, header.length);
+    return chunk('ANMF', payload);
+  });
+
+  const [r, g, b] = background.map((c) => Math.round(Math.max(0, Math.min(1, c)) * 255));
+  const parts = [
+    // Animation flag, plus alpha when any frame has it
+    chunk('VP8X', [0x02 | (alpha ? 0x10 : 0), 0, 0, 0, ...u24(width - 1), ...u24(height - 1)]),
+    chunk('ANIM', [b, g, r, 0xff, ...u16(loopCount)]),
+    ...frameChunks,
+  ];
+
+  const size = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(12 + size);
+  out.set([...ascii('RIFF'), ...u32(4 + size), ...ascii('WEBP')]);
+  let offset = 12;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -3,8 +3,59 @@
  */
 
 import { create } from 'zustand';
-import type { KnitParams, PresetName } from '../types';
-import { DEFAULT_PARAMS, PRESETS } from '../types';
+import type { KnitParams, KnitPreset, BrandPalette, AspectRatioPreset, CropSettings } from '../types';
+import { DEFAULT_PARAMS, DEFAULT_CROP } from '../types';
+import { BUILT_IN_PALETTES, DEFAULT_PALETTE_ID, parsePalette, sameSwatches } from '../lib/palette';
+import { ASPECT_PRESETS, aspectRatioValue } from '../lib/aspect';
+import { BUILT_IN_PRESETS, createPresetId, presetName } from '../lib/presets';
+import { fromStoredParams, toStoredParams } from '../lib/params';
+import type { ImportedGrid } from '../lib/gridData';
+import { DEFAULT_CELL_BRUSH, withCellOverride } from '../lib/overrides';
+import type { CellBrush, CellOverride, CellOverrides } from '../lib/overrides';
+import type { RenderSettings } from '../lib/settings';
+import { takeStartupSettings } from '../lib/share';
+import { exportProgress, estimateRemaining } from '../lib/exportJob';
+import type { ExportPhase } from '../lib/exportJob';
+import { createHistory, recordChange, undo, redo } from '../lib/history';
+import type { History } from '../lib/history';
+
+/** A running export (video exports report progress and can be cancelled) */
+export interface ExportJob {
+  /** What is being exported, e.g. 'GIF' */
+  label: string;
+  phase: ExportPhase;
+  /** Overall progress from 0 to 100 */
+  percent: number;
+  /** Estimated milliseconds left, or null while unknown */
+  etaMs: number | null;
+  /** Time the job started (ms since epoch) */
+  startedAt: number;
+  /** Whether cancellation was requested (the job winds down on its own) */
+  cancelling: boolean;
+  /** Aborts the job's decoding, rendering and encoding */
+  controller: AbortController;
+}
+
+/** Button offered in a notification */
+export interface ToastAction {
+  label: string;
+  run: () => void;
+}
+
+/** Non-blocking notification */
+export interface Toast {
+  id: number;
+  kind: 'error' | 'info';
+  message: string;
+  /** Optional action; running it dismisses the notification */
+  action?: ToastAction;
+}
+
+/** Custom aspect ratio parts (e.g. 3 × 2) */
+export interface CustomAspect {
+  width: number;
+  height: number;
+}
 
 interface KnitStore {
   /** Current image source (ImageBitmap or null) */
@@ -15,11 +66,41 @@ interface KnitStore {
   params: KnitParams;
   /** Dirty flag to trigger re-render */
   dirty: boolean;
-  /** Canvas dimensions */
+  /** Preview canvas dimensions (follow the aspect ratio) */
   canvasWidth: number;
   canvasHeight: number;
   /** Whether video is currently animating */
   isAnimating: boolean;
+  /** Available presets (built-in first, then custom) */
+  presets: KnitPreset[];
+  /** Available palettes (built-in first, then custom) */
+  palettes: BrandPalette[];
+  /** Id of the palette used for quantization */
+  activePaletteId: string;
+  /** Canvas aspect ratio preset */
+  aspectPreset: AspectRatioPreset;
+  /** Ratio parts used by the custom preset */
+  customAspect: CustomAspect;
+  /** Source crop and orientation (per source, not persisted) */
+  crop: CropSettings;
+  /** Whether the crop overlay is shown */
+  isCropping: boolean;
+  /** Grid loaded from a JSON file; replaces the image source while set */
+  importedGrid: ImportedGrid | null;
+  /** Manual cell edits applied over the computed grid (per source, not persisted) */
+  cellOverrides: CellOverrides;
+  /** Whether clicks on the canvas edit cells */
+  isEditingCells: boolean;
+  /** What a click in cell editing mode does */
+  cellBrush: CellBrush;
+  /** Running export, if any */
+  exportJob: ExportJob | null;
+  /** Notifications, oldest first */
+  toasts: Toast[];
+  /** Undo/redo history of parameters, palettes, crop, aspect ratio and cell edits */
+  history: History<HistorySnapshot>;
+  /** Settings come from a shared link and are not saved until the user changes something */
+  isSharedPreview: boolean;
 
   /** Set the loaded image */
   setImage: (image: ImageBitmap | null) => void;
@@ -27,14 +108,93 @@ interface KnitStore {
   setVideoFile: (file: File | null) => void;
   /** Update a single parameter */
   updateParam: <K extends keyof KnitParams>(key: K, value: KnitParams[K]) => void;
-  /** Apply a preset */
-  applyPreset: (preset: PresetName) => void;
+  /** Apply a built-in or custom preset by id */
+  applyPreset: (id: string) => void;
+  /** Save the current parameters as a new custom preset */
+  savePreset: (name: string) => void;
+  /** Rename a custom preset or replace its parameters; built-in presets are read-only */
+  updatePreset: (id: string, changes: Partial<Pick<KnitPreset, 'name' | 'params'>>) => void;
+  /** Delete a custom preset; built-in presets are read-only */
+  deletePreset: (id: string) => void;
+  /** Add imported custom presets */
+  importPresets: (presets: KnitPreset[]) => void;
   /** Mark as dirty to trigger re-render */
   setDirty: (dirty: boolean) => void;
   /** Set canvas dimensions */
   setCanvasSize: (width: number, height: number) => void;
   /** Set animation state */
   setIsAnimating: (isAnimating: boolean) => void;
+  /** Select the palette used for quantization */
+  setActivePalette: (id: string) => void;
+  /** Add a custom palette (or replace one with the same id) and select it */
+  savePalette: (palette: BrandPalette) => void;
+  /** Update a custom palette; built-in palettes are read-only */
+  updatePalette: (id: string, changes: Partial<Omit<BrandPalette, 'id' | 'builtIn'>>) => void;
+  /** Delete a custom palette; built-in palettes are read-only */
+  deletePalette: (id: string) => void;
+  /** Set the canvas aspect ratio (custom parts are kept when omitted) */
+  setAspectRatio: (preset: AspectRatioPreset, customAspect?: CustomAspect) => void;
+  /** Update the source crop */
+  setCrop: (changes: Partial<CropSettings>) => void;
+  /** Reset the source crop to a centre crop */
+  resetCrop: () => void;
+  /** Show or hide the crop overlay */
+  setIsCropping: (isCropping: boolean) => void;
+  /** Show an imported grid instead of an image (clears the image and video) */
+  setImportedGrid: (importedGrid: ImportedGrid | null) => void;
+  /**
+   * Set or remove (undefined) the override of one cell
+   * Edits with the same stroke id in quick succession share one undo step
+   */
+  setCellOverride: (x: number, y: number, override: CellOverride | undefined, stroke: number) => void;
+  /** Remove all cell edits */
+  clearCellOverrides: () => void;
+  /** Turn cell editing mode on or off (closes the crop overlay) */
+  setIsEditingCells: (isEditingCells: boolean) => void;
+  /** Choose what a click in cell editing mode does */
+  setCellBrush: (brush: CellBrush) => void;
+  /**
+   * Restore embedded render settings (the palette is matched or added as a custom palette)
+   * Pass undoable false when restoring a session, so the restore itself is not an undo step.
+   * Cell edits are replaced too when given (e.g. from a project)
+   */
+  restoreSettings: (settings: RenderSettings, undoable?: boolean, cellOverrides?: CellOverrides) => void;
+  /** Start an export job, replacing any finished one; returns its cancellation signal */
+  startExportJob: (label: string) => AbortSignal;
+  /** Report export progress within a phase */
+  updateExportJob: (phase: ExportPhase, done: number, total: number) => void;
+  /** Cancel the running export */
+  cancelExportJob: () => void;
+  /** Clear the export job once it has finished, failed or been cancelled */
+  finishExportJob: () => void;
+  /** Show a notification, optionally with an action button */
+  showToast: (kind: Toast['kind'], message: string, action?: ToastAction) => void;
+  /** Dismiss a notification */
+  dismissToast: (id: number) => void;
+  /** Keep the settings from a shared link, so the project is autosaved again */
+  endSharedPreview: () => void;
+  /** Undo the last parameter, palette, crop, aspect or cell change */
+  undo: () => void;
+  /** Redo the last undone change */
+  redo: () => void;
+}
+
+/** State covered by undo/redo */
+export type HistorySnapshot = Pick<
+  KnitStore,
+  'params' | 'palettes' | 'activePaletteId' | 'crop' | 'aspectPreset' | 'customAspect' | 'cellOverrides'
+>;
+
+/** Persisted aspect ratio state */
+interface StoredAspect {
+  aspectPreset: AspectRatioPreset;
+  customAspect: CustomAspect;
+}
+
+/** Persisted palette state */
+interface StoredPalettes {
+  palettes: BrandPalette[];
+  activePaletteId: string;
 }
 
 /**
@@ -44,9 +204,8 @@ function loadParams(): KnitParams {
   try {
     const stored = localStorage.getItem('lidl-knit-params');
     if (stored) {
-      const parsed = JSON.parse(stored);
-      // Validate and merge with defaults
-      return { ...DEFAULT_PARAMS, ...parsed };
+      // Migrate older versions and validate every field
+      return fromStoredParams(JSON.parse(stored));
     }
   } catch (e) {
     console.warn('Failed to load params from localStorage', e);
@@ -59,51 +218,483 @@ function loadParams(): KnitParams {
  */
 function saveParams(params: KnitParams): void {
   try {
-    localStorage.setItem('lidl-knit-params', JSON.stringify(params));
+    localStorage.setItem('lidl-knit-params', JSON.stringify(toStoredParams(params)));
   } catch (e) {
     console.warn('Failed to save params to localStorage', e);
   }
 }
 
+/**
+ * Load custom palettes and the active palette id from localStorage
+ */
+function loadPalettes(): StoredPalettes {
+  const fallback = { palettes: BUILT_IN_PALETTES, activePaletteId: DEFAULT_PALETTE_ID };
+  try {
+    const stored = localStorage.getItem('lidl-knit-palettes');
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<StoredPalettes>;
+      const custom: BrandPalette[] = [];
+      for (const entry of Array.isArray(parsed.palettes) ? parsed.palettes : []) {
+        if (entry?.builtIn) continue;
+        try {
+          custom.push(parsePalette(entry));
+        } catch (e) {
+          // Drop stale or hand-edited entries rather than failing to render
+          console.warn('Ignoring invalid stored palette', e);
+        }
+      }
+      const palettes = [...BUILT_IN_PALETTES, ...custom];
+      const activePaletteId = palettes.some((p) => p.id === parsed.activePaletteId)
+        ? parsed.activePaletteId!
+        : DEFAULT_PALETTE_ID;
+      return { palettes, activePaletteId };
+    }
+  } catch (e) {
+    console.warn('Failed to load palettes from localStorage', e);
+  }
+  return fallback;
+}
+
+/**
+ * Save custom palettes and the active palette id to localStorage
+ * Built-in palettes are not stored
+ */
+function savePalettes(palettes: BrandPalette[], activePaletteId: string): void {
+  try {
+    const stored: StoredPalettes = {
+      palettes: palettes.filter((p) => !p.builtIn),
+      activePaletteId,
+    };
+    localStorage.setItem('lidl-knit-palettes', JSON.stringify(stored));
+  } catch (e) {
+    console.warn('Failed to save palettes to localStorage', e);
+  }
+}
+
+/**
+ * Load the aspect ratio setting from localStorage
+ */
+function loadAspect(): StoredAspect {
+  const fallback: StoredAspect = { aspectPreset: '1:1', customAspect: { width: 3, height: 2 } };
+  try {
+    const stored = localStorage.getItem('lidl-knit-aspect');
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<StoredAspect>;
+      const aspectPreset = parsed.aspectPreset && parsed.aspectPreset in ASPECT_PRESETS
+        ? parsed.aspectPreset
+        : fallback.aspectPreset;
+      const custom = parsed.customAspect;
+      const customAspect = custom && custom.width > 0 && custom.height > 0
+        ? { width: custom.width, height: custom.height }
+        : fallback.customAspect;
+      return { aspectPreset, customAspect };
+    }
+  } catch (e) {
+    console.warn('Failed to load aspect ratio from localStorage', e);
+  }
+  return fallback;
+}
+
+/**
+ * Save the aspect ratio setting to localStorage
+ */
+function saveAspect(aspect: StoredAspect): void {
+  try {
+    localStorage.setItem('lidl-knit-aspect', JSON.stringify(aspect));
+  } catch (e) {
+    console.warn('Failed to save aspect ratio to localStorage', e);
+  }
+}
+
+/**
+ * Load custom presets from localStorage
+ */
+function loadPresets(): KnitPreset[] {
+  try {
+    const stored = localStorage.getItem('lidl-knit-presets');
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      const custom: KnitPreset[] = Array.isArray(parsed)
+        ? parsed
+            .filter((p) => p && typeof p.id === 'string' && typeof p.name === 'string' && !p.builtIn)
+            // Params are migrated from the version they were saved with
+            .map((p) => ({ id: p.id, name: p.name, params: fromStoredParams(p.params) }))
+        : [];
+      return [...BUILT_IN_PRESETS, ...custom];
+    }
+  } catch (e) {
+    console.warn('Failed to load presets from localStorage', e);
+  }
+  return BUILT_IN_PRESETS;
+}
+
+/**
+ * Save custom presets to localStorage
+ * Built-in presets are not stored
+ */
+function savePresets(presets: KnitPreset[]): void {
+  try {
+    const custom = presets
+      .filter((p) => !p.builtIn)
+      .map(({ id, name, params }) => ({ id, name, params: toStoredParams(params) }));
+    localStorage.setItem('lidl-knit-presets', JSON.stringify(custom));
+  } catch (e) {
+    console.warn('Failed to save presets to localStorage', e);
+  }
+}
+
+/**
+ * Get the currently selected palette
+ */
+export function selectActivePalette(state: Pick<KnitStore, 'palettes' | 'activePaletteId'>): BrandPalette {
+  return state.palettes.find((p) => p.id === state.activePaletteId) ?? BUILT_IN_PALETTES[0];
+}
+
+/**
+ * Get the canvas aspect ratio (width / height)
+ * An imported grid keeps its own shape
+ */
+export function selectAspectRatio(
+  state: Pick<KnitStore, 'aspectPreset' | 'customAspect' | 'importedGrid'>
+): number {
+  if (state.importedGrid) {
+    return state.importedGrid.grid.cols / state.importedGrid.grid.rows;
+  }
+  return aspectRatioValue(state.aspectPreset, state.customAspect.width, state.customAspect.height);
+}
+
+/**
+ * Find the palette matching restored settings, or add it as a custom palette
+ * Reuses a palette with the same swatches rather than adding a duplicate
+ * @param palettes Current palettes
+ * @param palette Palette from the settings
+ */
+function matchSettingsPalette(palettes: BrandPalette[], palette: BrandPalette): StoredPalettes {
+  const existing = palettes.find((p) => sameSwatches(p.swatches, palette.swatches));
+  if (existing) return { palettes, activePaletteId: existing.id };
+
+  let id = palette.id;
+  for (let n = 2; palettes.some((p) => p.id === id); n++) {
+    id = `${palette.id}-${n}`;
+  }
+  return { palettes: [...palettes, { ...palette, id, builtIn: false }], activePaletteId: id };
+}
+
+/**
+ * Take the undoable part of the state
+ */
+function takeSnapshot(state: KnitStore): HistorySnapshot {
+  const { params, palettes, activePaletteId, crop, aspectPreset, customAspect, cellOverrides } = state;
+  return { params, palettes, activePaletteId, crop, aspectPreset, customAspect, cellOverrides };
+}
+
+/**
+ * Record the state before a change
+ * A change ends the shared-link preview, so changes are saved from then on
+ * @param state State before the change
+ * @param key Coalesce key for continuous edits (slider and crop drags), or null
+ */
+function recordHistory(state: KnitStore, key: string | null): Pick<KnitStore, 'history' | 'isSharedPreview'> {
+  return { history: recordChange(state.history, takeSnapshot(state), key, Date.now()), isSharedPreview: false };
+}
+
+/**
+ * Restore an undo/redo snapshot, persisting it like any other change
+ */
+function applySnapshot(snapshot: HistorySnapshot): Partial<KnitStore> {
+  saveParams(snapshot.params);
+  savePalettes(snapshot.palettes, snapshot.activePaletteId);
+  saveAspect({ aspectPreset: snapshot.aspectPreset, customAspect: snapshot.customAspect });
+  return { ...snapshot, dirty: true };
+}
+
+/** Id of the next toast */
+let nextToastId = 1;
+
+/**
+ * Whether there is a change to undo
+ */
+export function selectCanUndo(state: Pick<KnitStore, 'history'>): boolean {
+  return state.history.past.length > 0;
+}
+
+/**
+ * Whether there is an undone change to redo
+ */
+export function selectCanRedo(state: Pick<KnitStore, 'history'>): boolean {
+  return state.history.future.length > 0;
+}
+
+// Settings from a shared link replace the stored ones in memory only, before the first render
+const sharedSettings = takeStartupSettings();
+const storedPalettes = loadPalettes();
+const initialPalettes = sharedSettings
+  ? matchSettingsPalette(storedPalettes.palettes, sharedSettings.palette)
+  : storedPalettes;
+const initialAspect: StoredAspect = sharedSettings
+  ? { aspectPreset: sharedSettings.aspectPreset, customAspect: sharedSettings.customAspect }
+  : loadAspect();
+
 /**
  * Zustand store with manual localStorage persistence
  */
 export const useKnitStore = create<KnitStore>((set) => ({
   image: null,
   videoFile: null,
-  params: loadParams(),
+  params: sharedSettings ? { ...sharedSettings.params } : loadParams(),
+  presets: loadPresets(),
   dirty: true,
   canvasWidth: 1080,
   canvasHeight: 1080,
   isAnimating: false,
+  palettes: initialPalettes.palettes,
+  activePaletteId: initialPalettes.activePaletteId,
+  aspectPreset: initialAspect.aspectPreset,
+  customAspect: initialAspect.customAspect,
+  crop: sharedSettings?.crop ?? DEFAULT_CROP,
+  isCropping: false,
+  importedGrid: null,
+  cellOverrides: {},
+  isEditingCells: false,
+  cellBrush: DEFAULT_CELL_BRUSH,
+  exportJob: null,
+  toasts: [],
+  history: createHistory(),
+  isSharedPreview: sharedSettings !== null,
 
-  setImage: (image) => set({ image, dirty: true }),
+  // A new image replaces an imported grid
+  setImage: (image) =>
+    set((state) => ({ image, importedGrid: image ? null : state.importedGrid, dirty: true })),
 
   setVideoFile: (file) => set({ videoFile: file }),
 
   updateParam: (key, value) =>
     set((state) => {
+      if (Object.is(state.params[key], value)) return {};
       const newParams = { ...state.params, [key]: value };
       saveParams(newParams);
       return {
         params: newParams,
         dirty: true,
+        // Slider drags become one undo step per parameter
+        ...recordHistory(state, `param:${key}`),
       };
     }),
 
-  applyPreset: (preset) => {
-    // Create a new object to ensure reference changes
-    const newParams = { ...PRESETS[preset] };
-    saveParams(newParams);
-    set({
-      params: newParams,
-      dirty: true,
-    });
-  },
+  applyPreset: (id) =>
+    set((state) => {
+      const preset = state.presets.find((p) => p.id === id);
+      if (!preset) return {};
+      // Create a new object to ensure reference changes
+      const newParams = { ...preset.params };
+      saveParams(newParams);
+      return {
+        params: newParams,
+        dirty: true,
+        ...recordHistory(state, null),
+      };
+    }),
+
+  savePreset: (name) =>
+    set((state) => {
+      const preset: KnitPreset = { id: createPresetId(), name: presetName(name), params: { ...state.params } };
+      const presets = [...state.presets, preset];
+      savePresets(presets);
+      return { presets };
+    }),
+
+  updatePreset: (id, changes) =>
+    set((state) => {
+      const presets = state.presets.map((p) =>
+        p.id === id && !p.builtIn
+          ? { ...p, ...changes, name: changes.name !== undefined ? presetName(changes.name, p.name) : p.name }
+          : p
+      );
+      savePresets(presets);
+      return { presets };
+    }),
+
+  deletePreset: (id) =>
+    set((state) => {
+      const target = state.presets.find((p) => p.id === id);
+      if (!target || target.builtIn) return {};
+      const presets = state.presets.filter((p) => p.id !== id);
+      savePresets(presets);
+      return { presets };
+    }),
+
+  importPresets: (imported) =>
+    set((state) => {
+      const presets = [...state.presets, ...imported.map((p) => ({ ...p, builtIn: false }))];
+      savePresets(presets);
+      return { presets };
+    }),
 
   setDirty: (dirty) => set({ dirty }),
 
   setCanvasSize: (width, height) => set({ canvasWidth: width, canvasHeight: height }),
 
   setIsAnimating: (isAnimating) => set({ isAnimating }),
+
+  setActivePalette: (id) =>
+    set((state) => {
+      if (!state.palettes.some((p) => p.id === id)) return {};
+      savePalettes(state.palettes, id);
+      return { activePaletteId: id, dirty: true, ...recordHistory(state, null) };
+    }),
+
+  savePalette: (palette) =>
+    set((state) => {
+      const custom = { ...palette, builtIn: false };
+      const exists = state.palettes.some((p) => p.id === palette.id && !p.builtIn);
+      const palettes = exists
+        ? state.palettes.map((p) => (p.id === palette.id ? custom : p))
+        : [...state.palettes, custom];
+      savePalettes(palettes, custom.id);
+      return { palettes, activePaletteId: custom.id, dirty: true, ...recordHistory(state, null) };
+    }),
+
+  updatePalette: (id, changes) =>
+    set((state) => {
+      const palettes = state.palettes.map((p) =>
+        p.id === id && !p.builtIn ? { ...p, ...changes } : p
+      );
+      savePalettes(palettes, state.activePaletteId);
+      // Typing a name or dragging a color picker is one step
+      return { palettes, dirty: true, ...recordHistory(state, `palette:${id}`) };
+    }),
+
+  deletePalette: (id) =>
+    set((state) => {
+      const target = state.palettes.find((p) => p.id === id);
+      if (!target || target.builtIn) return {};
+      const palettes = state.palettes.filter((p) => p.id !== id);
+      const activePaletteId = state.activePaletteId === id ? DEFAULT_PALETTE_ID : state.activePaletteId;
+      savePalettes(palettes, activePaletteId);
+      return { palettes, activePaletteId, dirty: true, ...recordHistory(state, null) };
+    }),
+
+  setAspectRatio: (preset, customAspect) =>
+    set((state) => {
+      const aspect = { aspectPreset: preset, customAspect: customAspect ?? state.customAspect };
+      saveAspect(aspect);
+      return { ...aspect, dirty: true, ...recordHistory(state, 'aspect') };
+    }),
+
+  setCrop: (changes) =>
+    set((state) => ({ crop: { ...state.crop, ...changes }, dirty: true, ...recordHistory(state, 'crop') })),
+
+  resetCrop: () => set((state) => ({ crop: DEFAULT_CROP, dirty: true, ...recordHistory(state, null) })),
+
+  setIsCropping: (isCropping) =>
+    set((state) => ({ isCropping, isEditingCells: isCropping ? false : state.isEditingCells })),
+
+  setImportedGrid: (importedGrid) =>
+    set(
+      importedGrid
+        ? { importedGrid, image: null, videoFile: null, isCropping: false, dirty: true }
+        : { importedGrid, dirty: true }
+    ),
+
+  setCellOverride: (x, y, override, stroke) =>
+    set((state) => {
+      const cellOverrides = withCellOverride(state.cellOverrides, x, y, override);
+      if (cellOverrides === state.cellOverrides) return {};
+      return { cellOverrides, dirty: true, ...recordHistory(state, `cells:${stroke}`) };
+    }),
+
+  clearCellOverrides: () =>
+    set((state) => {
+      if (Object.keys(state.cellOverrides).length === 0) return {};
+      return { cellOverrides: {}, dirty: true, ...recordHistory(state, null) };
+    }),
+
+  setIsEditingCells: (isEditingCells) =>
+    set((state) => ({ isEditingCells, isCropping: isEditingCells ? false : state.isCropping })),
+
+  setCellBrush: (cellBrush) => set({ cellBrush }),
+
+  restoreSettings: (settings, undoable = true, cellOverrides) =>
+    set((state) => {
+      const params = { ...settings.params };
+      saveParams(params);
+      const aspect = { aspectPreset: settings.aspectPreset, customAspect: settings.customAspect };
+      saveAspect(aspect);
+
+      const { palettes, activePaletteId } = matchSettingsPalette(state.palettes, settings.palette);
+      savePalettes(palettes, activePaletteId);
+
+      return {
+        params,
+        palettes,
+        activePaletteId,
+        crop: settings.crop,
+        ...aspect,
+        cellOverrides: cellOverrides ?? state.cellOverrides,
+        isSharedPreview: false,
+        dirty: true,
+        ...(undoable ? recordHistory(state, null) : {}),
+      };
+    }),
+
+  startExportJob: (label) => {
+    const controller = new AbortController();
+    set({
+      exportJob: {
+        label,
+        phase: 'decoding',
+        percent: 0,
+        etaMs: null,
+        startedAt: Date.now(),
+        cancelling: false,
+        controller,
+      },
+    });
+    return controller.signal;
+  },
+
+  updateExportJob: (phase, done, total) =>
+    set((state) => {
+      const job = state.exportJob;
+      if (!job || job.cancelling) return {};
+      const progress = exportProgress(phase, done, total);
+      return {
+        exportJob: {
+          ...job,
+          phase,
+          percent: Math.round(progress * 100),
+          etaMs: estimateRemaining(Date.now() - job.startedAt, progress),
+        },
+      };
+    }),
+
+  cancelExportJob: () =>
+    set((state) => {
+      const job = state.exportJob;
+      if (!job || job.cancelling) return {};
+      job.controller.abort();
+      return { exportJob: { ...job, cancelling: true, etaMs: null } };
+    }),
+
+  finishExportJob: () => set({ exportJob: null }),
+
+  showToast: (kind, message, action) =>
+    set((state) => ({ toasts: [...state.toasts, { id: nextToastId++, kind, message, action }] })),
+
+  dismissToast: (id) => set((state) => ({ toasts: state.toasts.filter((toast) => toast.id !== id) })),
+
+  endSharedPreview: () => set({ isSharedPreview: false }),
+
+  undo: () =>
+    set((state) => {
+      const step = undo(state.history, takeSnapshot(state));
+      return step ? { ...applySnapshot(step.state), history: step.history } : {};
+    }),
+
+  redo: () =>
+    set((state) => {
+      const step = redo(state.history, takeSnapshot(state), Date.now());
+      return step ? { ...applySnapshot(step.state), history: step.history } : {};
+    }),
 }));
+
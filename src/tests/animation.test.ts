@@ -0,0 +1,68 @@
+/**
+ * Tests for frame differencing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createFrameDiffer, cropIndices, diffRect } from '../lib/animation';
+
+/**
+ * 4×4 frame with the given pixels set to 1
+ */
+function frame(...changed: [number, number][]): Uint8Array {
+  const pixels = new Uint8Array(16);
+  for (const [x, y] of changed) pixels[y * 4 + x] = 1;
+  return pixels;
+}
+
+describe('animation', () => {
+  describe('diffRect', () => {
+    it('should bound the changed pixels', () => {
+      expect(diffRect(frame(), frame([2, 1], [1, 2]), 4, 4)).toEqual({ x: 1, y: 1, width: 2, height: 2 });
+      expect(diffRect(frame(), frame(), 4, 4)).toBeNull();
+    });
+
+    it('should compare packed RGBA values', () => {
+      const a = new Uint32Array(4).fill(0xff0000ff);
+      const b = a.slice();
+      b[3] = 0xff00ff00;
+      expect(diffRect(a, b, 2, 2)).toEqual({ x: 1, y: 1, width: 1, height: 1 });
+    });
+  });
+
+  describe('createFrameDiffer', () => {
+    it('should encode the first frame in full, then changed regions', () => {
+      const differ = createFrameDiffer(4, 4);
+      expect(differ(frame())).toEqual({ x: 0, y: 0, width: 4, height: 4 });
+      expect(differ(frame([3, 3]))).toEqual({ x: 3, y: 3, width: 1, height: 1 });
+    });
+
+    it('should return null for an unchanged frame and compare against the last encoded one', () => {
+      const differ = createFrameDiffer(4, 4);
+      differ(frame());
+      expect(differ(frame())).toBeNull();
+      differ(frame([1, 1]));
+      expect(differ(frame([1, 1], [2, 2]))).toEqual({ x: 2, y: 2, width: 1, height: 1 });
+    });
+
+    it('should align the region origin', () => {
+      const differ = createFrameDiffer(4, 4, { align: 2 });
+      differ(frame());
+      expect(differ(frame([3, 1]))).toEqual({ x: 2, y: 0, width: 2, height: 2 });
+    });
+
+    it('should return full frames when changedOnly is off', () => {
+      const differ = createFrameDiffer(4, 4, { changedOnly: false });
+      differ(frame());
+      expect(differ(frame([1, 1]))).toEqual({ x: 0, y: 0, width: 4, height: 4 });
+      expect(differ(frame([1, 1]))).toBeNull();
+    });
+  });
+
+  describe('cropIndices', () => {
+    it('should copy a region row by row', () => {
+      const pixels = new Uint8Array(16).map((_, i) => i);
+      expect(Array.from(cropIndices(pixels, 4, { x: 1, y: 2, width: 2, height: 2 }))).toEqual([9, 10, 13, 14]);
+      expect(Array.from(cropIndices(pixels, 4, { x: 0, y: 3, width: 4, height: 1 }))).toEqual([12, 13, 14, 15]);
+    });
+  });
+});
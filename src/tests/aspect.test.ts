@@ -0,0 +1,95 @@
+/**
+ * Tests for aspect ratio helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aspectRatioValue, fitAspect, exportDimensions, exportSizeFor, centerCrop, MAX_EXPORT_EDGE } from '../lib/aspect';
+import { gridDimensions } from '../lib/render';
+
+describe('aspect', () => {
+  describe('aspectRatioValue', () => {
+    it('should resolve fixed presets', () => {
+      expect(aspectRatioValue('1:1', 3, 2)).toBe(1);
+      expect(aspectRatioValue('9:16', 3, 2)).toBeCloseTo(0.5625);
+      expect(aspectRatioValue('a4-landscape', 3, 2)).toBeCloseTo(297 / 210);
+    });
+
+    it('should use the custom parts for the custom preset', () => {
+      expect(aspectRatioValue('custom', 3, 2)).toBe(1.5);
+    });
+
+    it('should fall back to square for invalid custom parts', () => {
+      expect(aspectRatioValue('custom', 0, 2)).toBe(1);
+      expect(aspectRatioValue('custom', 3, -1)).toBe(1);
+    });
+  });
+
+  describe('fitAspect', () => {
+    it('should fill the width of a tall box', () => {
+      expect(fitAspect(800, 1000, 16 / 9)).toEqual({ width: 800, height: 450 });
+    });
+
+    it('should fill the height of a wide box', () => {
+      expect(fitAspect(1000, 800, 9 / 16)).toEqual({ width: 450, height: 800 });
+    });
+
+    it('should return zero size for an empty box', () => {
+      expect(fitAspect(0, 800, 1)).toEqual({ width: 0, height: 0 });
+    });
+  });
+
+  describe('exportDimensions', () => {
+    it('should keep the short edge at 1080', () => {
+      expect(exportDimensions(1)).toEqual({ width: 1080, height: 1080 });
+      expect(exportDimensions(9 / 16)).toEqual({ width: 1080, height: 1920 });
+      expect(exportDimensions(16 / 9)).toEqual({ width: 1920, height: 1080 });
+      expect(exportDimensions(4 / 5)).toEqual({ width: 1080, height: 1350 });
+    });
+  });
+
+  describe('exportSizeFor', () => {
+    it('should set the short edge for 1080 and 2160', () => {
+      expect(exportSizeFor('1080', 9 / 16, 0)).toEqual({ width: 1080, height: 1920 });
+      expect(exportSizeFor('2160', 16 / 9, 0)).toEqual({ width: 3840, height: 2160 });
+    });
+
+    it('should set the long edge for 4K', () => {
+      expect(exportSizeFor('4k', 1, 0)).toEqual({ width: 3840, height: 3840 });
+      expect(exportSizeFor('4k', 4 / 5, 0)).toEqual({ width: 3072, height: 3840 });
+    });
+
+    it('should derive the height from a custom width', () => {
+      expect(exportSizeFor('custom', 4 / 5, 800)).toEqual({ width: 800, height: 1000 });
+      expect(exportSizeFor('custom', 1, 0)).toEqual({ width: 1080, height: 1080 });
+    });
+
+    it('should keep both edges within the maximum', () => {
+      expect(exportSizeFor('2160', 9 / 16, 0)).toEqual({ width: 2160, height: 3840 });
+      const { width, height } = exportSizeFor('custom', 1 / 4, 4000);
+      expect(height).toBe(MAX_EXPORT_EDGE);
+      expect(width).toBe(2048);
+    });
+  });
+
+  describe('centerCrop', () => {
+    it('should crop the sides of a wide source', () => {
+      expect(centerCrop(1920, 1080, 1)).toEqual({ x: 420, y: 0, width: 1080, height: 1080 });
+    });
+
+    it('should crop the top and bottom of a tall source', () => {
+      expect(centerCrop(1000, 1000, 2)).toEqual({ x: 0, y: 250, width: 1000, height: 500 });
+    });
+  });
+
+  describe('gridDimensions', () => {
+    it('should derive columns and rows from each side', () => {
+      expect(gridDimensions(1080, 1920, 20)).toEqual({ cols: 54, rows: 96 });
+    });
+
+    it('should keep the cell count when stitches scale with the output', () => {
+      const preview = gridDimensions(600, 600, 20);
+      const scale = exportSizeFor('2160', 1, 0).width / 600;
+      expect(gridDimensions(2160, 2160, 20 * scale)).toEqual(preview);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for knitting chart layout
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildChart, chartSymbol, chartToPDF, rowNumberSide, stitchCounts } from '../lib/chart';
+import type { ChartOp } from '../lib/chart';
+import type { KnitGrid, RGB } from '../types';
+
+const BLUE: RGB = [0, 0, 1];
+const RED: RGB = [1, 0, 0];
+const WHITE: RGB = [1, 1, 1];
+
+/**
+ * Grid with a red first row and a white cell; everything else background
+ */
+function sampleGrid(cols: number, rows: number): KnitGrid {
+  const cells: KnitGrid['cells'] = [];
+  for (let y = 0; y < rows; y++) {
+    cells.push(new Array(cols).fill(null));
+  }
+  for (let x = 0; x < cols; x++) {
+    cells[0][x] = { glyph: 'square', color: RED, colorIndex: 1, isEdge: false };
+  }
+  cells[rows - 1][0] = { glyph: 'circle', color: WHITE, colorIndex: 2, isEdge: false };
+  return { cols, rows, background: BLUE, palette: [BLUE, RED, WHITE], cells };
+}
+
+/**
+ * Text ops of a chart
+ */
+function texts(ops: ChartOp[]): Extract<ChartOp, { type: 'text' }>[] {
+  return ops.filter((op): op is Extract<ChartOp, { type: 'text' }> => op.type === 'text');
+}
+
+describe('chart', () => {
+  describe('stitchCounts', () => {
+    it('should count empty cells as background', () => {
+      expect(stitchCounts(sampleGrid(12, 3))).toEqual([23, 12, 1]);
+    });
+  });
+
+  describe('rowNumberSide', () => {
+    it('should alternate sides for flat knitting', () => {
+      expect(rowNumberSide(1)).toBe('right');
+      expect(rowNumberSide(2)).toBe('left');
+      expect(rowNumberSide(3)).toBe('right');
+    });
+  });
+
+  describe('chartSymbol', () => {
+    it('should leave the background blank and give every other color a symbol', () => {
+      expect(chartSymbol(0).trim()).toBe('');
+      const symbols = Array.from({ length: 15 }, (_, i) => chartSymbol(i + 1));
+      expect(new Set(symbols).size).toBe(15);
+    });
+  });
+
+  describe('buildChart', () => {
+    const grid = sampleGrid(12, 3);
+    const chart = buildChart(grid, ['Blue', 'Red', 'White'], 10);
+
+    it('should number rows from the bottom', () => {
+      const rowLabels = texts(chart.ops).filter((op) => ['1', '2', '3'].includes(op.text) && op.align !== 'center');
+      const row1 = rowLabels.find((op) => op.text === '1')!;
+      const row3 = rowLabels.find((op) => op.text === '3')!;
+      expect(row1.y).toBeGreaterThan(row3.y);
+      expect(row1.align).toBe('left'); // right-hand gutter
+      expect(rowLabels.find((op) => op.text === '2')!.align).toBe('right'); // left-hand gutter
+    });
+
+    it('should draw bold guide lines every 10 stitches from the right', () => {
+      const vertical = chart.ops.filter(
+        (op): op is Extract<ChartOp, { type: 'line' }> => op.type === 'line' && op.x1 === op.x2 && op.y2 - op.y1 === 30
+      );
+      const bold = vertical.filter((op) => op.width > 1).map((op) => op.x1);
+      // Left edge (stitch 12), stitch 10 boundary and right edge
+      expect(bold).toHaveLength(3);
+      expect(bold[1] - bold[0]).toBe(20);
+    });
+
+    it('should list each color with its symbol and stitch count', () => {
+      const labels = texts(chart.ops).map((op) => op.text);
+      expect(labels).toContain('Blue (blank): 23 stitches');
+      expect(labels).toContain('Red: 12 stitches');
+      expect(labels).toContain('White: 1 stitches');
+      expect(labels).toContain('Total: 36 stitches');
+    });
+
+    it('should place one symbol per non-background cell', () => {
+      const symbols = texts(chart.ops).filter((op) => op.text === chartSymbol(1));
+      // 12 cells plus the legend swatch
+      expect(symbols).toHaveLength(13);
+    });
+  });
+
+  describe('chartToPDF', () => {
+    it('should produce a PDF sized to the chart', () => {
+      const chart = buildChart(sampleGrid(4, 2), ['Blue', 'Red', 'White'], 10);
+      const pdf = new TextDecoder().decode(chartToPDF(chart));
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain(`/MediaBox [0 0 ${chart.width} ${chart.height}]`);
+      expect(pdf).toContain('(Red: 4 stitches) Tj');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for source crop and orientation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { cropRect, orientedSize, rotateCrop, flipCrop } from '../lib/crop';
+import { DEFAULT_CROP } from '../types';
+
+describe('crop', () => {
+  describe('orientedSize', () => {
+    it('should swap sides for quarter turns', () => {
+      expect(orientedSize(1920, 1080, 90)).toEqual({ width: 1080, height: 1920 });
+      expect(orientedSize(1920, 1080, 180)).toEqual({ width: 1920, height: 1080 });
+      expect(orientedSize(1920, 1080, 270)).toEqual({ width: 1080, height: 1920 });
+    });
+  });
+
+  describe('cropRect', () => {
+    it('should centre crop by default', () => {
+      expect(cropRect(DEFAULT_CROP, 1920, 1080, 1)).toEqual({ x: 420, y: 0, width: 1080, height: 1080 });
+    });
+
+    it('should follow the focal point and stay inside the source', () => {
+      expect(cropRect({ ...DEFAULT_CROP, focusX: 0.25 }, 1920, 1080, 1).x).toBe(0);
+      expect(cropRect({ ...DEFAULT_CROP, focusX: 0.6 }, 1920, 1080, 1).x).toBeCloseTo(612);
+      expect(cropRect({ ...DEFAULT_CROP, focusX: 1 }, 1920, 1080, 1).x).toBe(840);
+    });
+
+    it('should shrink the crop when zoomed', () => {
+      const rect = cropRect({ ...DEFAULT_CROP, zoom: 2 }, 1000, 1000, 1);
+      expect(rect).toEqual({ x: 250, y: 250, width: 500, height: 500 });
+    });
+
+    it('should crop the rotated source', () => {
+      const rect = cropRect({ ...DEFAULT_CROP, rotation: 90 }, 1920, 1080, 16 / 9);
+      expect(rect.width).toBe(1080);
+      expect(rect.height).toBeCloseTo(607.5);
+    });
+  });
+
+  describe('rotateCrop', () => {
+    it('should keep the focal point on the same content', () => {
+      const crop = { ...DEFAULT_CROP, focusX: 0.2, focusY: 0.1 };
+      const right = rotateCrop(crop, true);
+      expect(right.rotation).toBe(90);
+      expect(right.focusX).toBeCloseTo(0.9);
+      expect(right.focusY).toBeCloseTo(0.2);
+      const back = rotateCrop(right, false);
+      expect(back.rotation).toBe(0);
+      expect(back.focusX).toBeCloseTo(0.2);
+      expect(back.focusY).toBeCloseTo(0.1);
+    });
+
+    it('should turn the other way when mirrored once', () => {
+      expect(rotateCrop({ ...DEFAULT_CROP, flipH: true }, true).rotation).toBe(270);
+      expect(rotateCrop({ ...DEFAULT_CROP, flipH: true, flipV: true }, true).rotation).toBe(90);
+    });
+  });
+
+  describe('flipCrop', () => {
+    it('should mirror the focal point', () => {
+      const crop = { ...DEFAULT_CROP, focusX: 0.2, focusY: 0.3 };
+      expect(flipCrop(crop, 'horizontal')).toMatchObject({ flipH: true, focusX: 0.8, focusY: 0.3 });
+      expect(flipCrop(crop, 'vertical')).toMatchObject({ flipV: true, focusX: 0.2, focusY: 0.7 });
+    });
+  });
+});
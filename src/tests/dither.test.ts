@@ -0,0 +1,129 @@
+/**
+ * Tests for dithering functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  bayerMatrix,
+  blueNoiseMatrix,
+  orderedThreshold,
+  isErrorDiffusion,
+  applyErrorDiffusion,
+} from '../lib/dither';
+import { bayer4, nearestBrandColor } from '../lib/palette';
+import type { RGB } from '../types';
+
+/**
+ * Check that a matrix contains each rank 0 … n - 1 exactly once
+ */
+function isPermutation(matrix: number[]): boolean {
+  const sorted = [...matrix].sort((a, b) => a - b);
+  return sorted.every((value, index) => value === index);
+}
+
+describe('dither', () => {
+  describe('bayerMatrix', () => {
+    it('should build the standard 2×2 matrix', () => {
+      expect(bayerMatrix(2)).toEqual([0, 2, 3, 1]);
+    });
+
+    it('should contain every rank exactly once', () => {
+      expect(isPermutation(bayerMatrix(4))).toBe(true);
+      expect(isPermutation(bayerMatrix(8))).toBe(true);
+    });
+
+    it('should match the existing 4×4 Bayer thresholds', () => {
+      for (let y = 0; y < 4; y++) {
+        for (let x = 0; x < 4; x++) {
+          expect(orderedThreshold('bayer4', x, y)).toBe(bayer4(x, y));
+        }
+      }
+    });
+  });
+
+  describe('blueNoiseMatrix', () => {
+    it('should contain every rank exactly once', () => {
+      const matrix = blueNoiseMatrix();
+      expect(matrix).toHaveLength(256);
+      expect(isPermutation(matrix)).toBe(true);
+    });
+
+    it('should be deterministic', () => {
+      expect(blueNoiseMatrix()).toBe(blueNoiseMatrix());
+    });
+
+    it('should return thresholds in [0, 1) range', () => {
+      for (let x = 0; x < 20; x++) {
+        const value = orderedThreshold('blue-noise', x, x * 3);
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('isErrorDiffusion', () => {
+    it('should distinguish diffusion from ordered modes', () => {
+      expect(isErrorDiffusion('floyd-steinberg')).toBe(true);
+      expect(isErrorDiffusion('atkinson')).toBe(true);
+      expect(isErrorDiffusion('sierra-lite')).toBe(true);
+      expect(isErrorDiffusion('bayer8')).toBe(false);
+      expect(isErrorDiffusion('blue-noise')).toBe(false);
+    });
+  });
+
+  describe('applyErrorDiffusion', () => {
+    const blackWhite: RGB[] = [[0, 0, 0], [1, 1, 1]];
+    const quantize = (rgb: RGB) => nearestBrandColor(rgb, blackWhite);
+
+    /**
+     * Fraction of cells that quantize to white
+     */
+    function whiteRatio(colors: (RGB | null)[][]): number {
+      const cells = colors.flat().filter((c): c is RGB => c !== null);
+      return cells.filter((c) => quantize(c)[0] === 1).length / cells.length;
+    }
+
+    function uniformGrid(cols: number, rows: number, color: RGB): (RGB | null)[][] {
+      return Array.from({ length: rows }, () => Array.from({ length: cols }, () => color));
+    }
+
+    it('should mix palette colors in proportion for Floyd-Steinberg', () => {
+      // 25% linear-light gray should come out roughly one quarter white
+      const grid = uniformGrid(32, 32, [0.25, 0.25, 0.25]);
+      const result = applyErrorDiffusion(grid, 32, 32, 'floyd-steinberg', 1, quantize);
+      expect(whiteRatio(result)).toBeCloseTo(0.25, 1);
+    });
+
+    it('should produce both colors for Sierra Lite and Atkinson', () => {
+      const grid = uniformGrid(16, 16, [0.5, 0.5, 0.5]);
+      for (const mode of ['sierra-lite', 'atkinson'] as const) {
+        const ratio = whiteRatio(applyErrorDiffusion(grid, 16, 16, mode, 1, quantize));
+        expect(ratio).toBeGreaterThan(0.2);
+        expect(ratio).toBeLessThan(0.8);
+      }
+    });
+
+    it('should leave colors unchanged when amount is 0', () => {
+      const grid = uniformGrid(8, 8, [0.3, 0.3, 0.3]);
+      const result = applyErrorDiffusion(grid, 8, 8, 'floyd-steinberg', 0, quantize);
+      expect(result).toEqual(grid);
+    });
+
+    it('should skip empty cells', () => {
+      const grid = uniformGrid(4, 4, [0.5, 0.5, 0.5]);
+      grid[1][2] = null;
+      const result = applyErrorDiffusion(grid, 4, 4, 'floyd-steinberg', 1, quantize);
+      expect(result[1][2]).toBeNull();
+    });
+
+    it('should scan serpentine so error flows right-to-left on odd rows', () => {
+      // Single bright-ish cell at the right end of row 1 spreads error leftwards
+      const grid: (RGB | null)[][] = [
+        [null, null, null],
+        [[0, 0, 0], [0, 0, 0], [0.4, 0.4, 0.4]],
+      ];
+      const result = applyErrorDiffusion(grid, 3, 2, 'floyd-steinberg', 1, quantize);
+      expect(result[1][1]![0]).toBeGreaterThan(0);
+    });
+  });
+});
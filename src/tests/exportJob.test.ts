@@ -0,0 +1,77 @@
+/**
+ * Tests for export job progress and cancellation helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  exportProgress,
+  estimateRemaining,
+  formatDuration,
+  abortError,
+  throwIfCancelled,
+  isAbortError,
+} from '../lib/exportJob';
+
+describe('exportJob', () => {
+  describe('exportProgress', () => {
+    it('should interleave decoding, rendering and encoding per frame', () => {
+      expect(exportProgress('decoding', 0, 10)).toBe(0);
+      expect(exportProgress('rendering', 0, 10)).toBeCloseTo(0.0333);
+      expect(exportProgress('encoding', 0, 10)).toBeCloseTo(0.0667);
+      expect(exportProgress('decoding', 1, 10)).toBeCloseTo(0.1);
+      expect(exportProgress('encoding', 9, 10)).toBeCloseTo(0.9667);
+    });
+
+    it('should finish once every frame is encoded', () => {
+      expect(exportProgress('encoding', 10, 10)).toBe(1);
+    });
+
+    it('should stay within 0-1 for empty or overshooting phases', () => {
+      expect(exportProgress('decoding', 3, 0)).toBe(0);
+      expect(exportProgress('encoding', 12, 10)).toBe(1);
+    });
+  });
+
+  describe('estimateRemaining', () => {
+    it('should extrapolate from the elapsed time', () => {
+      expect(estimateRemaining(10_000, 0.25)).toBe(30_000);
+      expect(estimateRemaining(10_000, 1)).toBe(0);
+    });
+
+    it('should not guess from too little progress', () => {
+      expect(estimateRemaining(500, 0.01)).toBeNull();
+      expect(estimateRemaining(0, 0.5)).toBeNull();
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should show seconds, then minutes and seconds', () => {
+      expect(formatDuration(8_400)).toBe('8s');
+      expect(formatDuration(125_000)).toBe('2m 05s');
+      expect(formatDuration(-5)).toBe('0s');
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should throw an AbortError once the signal is aborted', () => {
+      const controller = new AbortController();
+      expect(() => throwIfCancelled(controller.signal)).not.toThrow();
+      expect(() => throwIfCancelled()).not.toThrow();
+
+      controller.abort();
+      let caught: unknown;
+      try {
+        throwIfCancelled(controller.signal);
+      } catch (error) {
+        caught = error;
+      }
+      expect(isAbortError(caught)).toBe(true);
+    });
+
+    it('should tell cancellations from failures', () => {
+      expect(isAbortError(abortError())).toBe(true);
+      expect(isAbortError(new Error('Failed'))).toBe(false);
+      expect(isAbortError('AbortError')).toBe(false);
+    });
+  });
+});
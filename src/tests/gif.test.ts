@@ -0,0 +1,150 @@
+/**
+ * Tests for the palette-exact GIF encoder
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeGIF, indexPixels, lzwEncode } from '../lib/gif';
+import type { RGB } from '../types';
+
+const BLUE: RGB = [0, 82 / 255, 176 / 255];
+const YELLOW: RGB = [1, 233 / 255, 51 / 255];
+const RED: RGB = [1, 0, 0];
+
+/**
+ * Reference GIF LZW decoder: image data sub-blocks → color indices
+ */
+function lzwDecode(bytes: Uint8Array): number[] {
+  const minCodeSize = bytes[0];
+  const data: number[] = [];
+  for (let i = 1; bytes[i] !== 0; i += bytes[i] + 1) {
+    data.push(...bytes.subarray(i + 1, i + 1 + bytes[i]));
+  }
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  const reset = () => {
+    table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+
+  const out: number[] = [];
+  let bitPos = 0;
+  let previous: number[] | null = null;
+  reset();
+  for (;;) {
+    let code = 0;
+    for (let b = 0; b < codeSize; b++, bitPos++) {
+      code |= ((data[bitPos >> 3] >> (bitPos & 7)) & 1) << b;
+    }
+    if (code === clearCode) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === endCode) break;
+
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    out.push(...entry);
+    if (previous) {
+      table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = entry;
+  }
+  return out;
+}
+
+describe('gif', () => {
+  describe('indexPixels', () => {
+    it('should snap every pixel to the nearest color without dithering', () => {
+      const pixels = new Uint8ClampedArray([
+        0, 82, 176, 255, // exact blue
+        250, 230, 60, 255, // near yellow
+        200, 180, 90, 128, // antialiased edge, closer to yellow
+        10, 70, 160, 255, // near blue
+      ]);
+      expect(Array.from(indexPixels(pixels, [BLUE, YELLOW]))).toEqual([0, 1, 1, 0]);
+    });
+  });
+
+  describe('lzwEncode', () => {
+    it('should round-trip through a reference decoder', () => {
+      const indices = new Uint8Array(5000).map((_, i) => (i * 7 + (i >> 5)) % 3);
+      expect(lzwDecode(lzwEncode(indices, 2))).toEqual(Array.from(indices));
+    });
+
+    it('should survive a full code table', () => {
+      // Pseudo-random data fills the 4096-entry table several times
+      let seed = 1;
+      const indices = new Uint8Array(60000).map(() => {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+        return seed % 16;
+      });
+      expect(lzwDecode(lzwEncode(indices, 4))).toEqual(Array.from(indices));
+    });
+  });
+
+  describe('encodeGIF', () => {
+    const width = 4;
+    const height = 3;
+    const frame = (fill: number, changed?: [number, number]) => {
+      const indices = new Uint8Array(width * height).fill(fill);
+      if (changed) indices[changed[1] * width + changed[0]] = 2;
+      return indices;
+    };
+
+    it('should write exactly the palette as the global color table', () => {
+      const gif = encodeGIF([{ indices: frame(0), delay: 100 }], { width, height, colors: [BLUE, YELLOW, RED] });
+      expect(String.fromCharCode(...gif.subarray(0, 6))).toBe('GIF89a');
+      // Global table flag, 2 bits per index → 4 entries
+      expect(gif[10] & 0x87).toBe(0x81);
+      expect(Array.from(gif.subarray(13, 25))).toEqual([0, 82, 176, 255, 233, 51, 255, 0, 0, 0, 0, 0]);
+      expect(gif[gif.length - 1]).toBe(0x3b);
+    });
+
+    it('should loop forever by default and omit the loop extension for a single play', () => {
+      const frames = [{ indices: frame(0), delay: 100 }];
+      const looping = new TextDecoder('latin1').decode(encodeGIF(frames, { width, height, colors: [BLUE, YELLOW] }));
+      expect(looping).toContain('NETSCAPE2.0\x03\x01\x00\x00');
+
+      const once = new TextDecoder('latin1').decode(
+        encodeGIF(frames, { width, height, colors: [BLUE, YELLOW], loopCount: 1 })
+      );
+      expect(once).not.toContain('NETSCAPE2.0');
+    });
+
+    it('should store only changed rectangles and merge identical frames', () => {
+      const gif = encodeGIF(
+        [
+          { indices: frame(0), delay: 100 },
+          { indices: frame(0), delay: 100 },
+          { indices: frame(0, [2, 1]), delay: 50 },
+        ],
+        { width, height, colors: [BLUE, YELLOW, RED] }
+      );
+
+      const descriptors: number[] = [];
+      const delays: number[] = [];
+      for (let i = 0; i < gif.length - 10; i++) {
+        if (gif[i] === 0x21 && gif[i + 1] === 0xf9 && gif[i + 2] === 4 && gif[i + 8] === 0x2c) {
+          delays.push(gif[i + 4] | (gif[i + 5] << 8));
+          descriptors.push(i + 8);
+        }
+      }
+      expect(delays).toEqual([20, 5]);
+
+      const second = descriptors[1];
+      const rect = [1, 3, 5, 7].map((o) => gif[second + o] | (gif[second + o + 1] << 8));
+      expect(rect).toEqual([2, 1, 1, 1]);
+      expect(lzwDecode(gif.subarray(second + 10))).toEqual([2]);
+    });
+
+    it('should reject empty animations and oversized color tables', () => {
+      expect(() => encodeGIF([], { width, height, colors: [BLUE] })).toThrow('No frames');
+      const colors = Array.from({ length: 257 }, (): RGB => [0, 0, 0]);
+      expect(() => encodeGIF([{ indices: frame(0), delay: 100 }], { width, height, colors })).toThrow('1-256');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for grid JSON/CSV export and import
+ */
+
+import { describe, it, expect } from 'vitest';
+import { gridToData, gridToJSON, gridToCSV, parseGridJSON, GRID_DATA_FORMAT } from '../lib/gridData';
+import type { KnitGrid, RGB } from '../types';
+
+const BLUE: RGB = [0, 0, 1];
+const RED: RGB = [1, 0, 0];
+const WHITE: RGB = [1, 1, 1];
+const PINK: RGB = [1, 0.5019607843137255, 0.5019607843137255];
+
+/**
+ * 3×2 grid: red square, white circle, mixed pink diamond / red diamond (edge), two empty
+ */
+function sampleGrid(): KnitGrid {
+  return {
+    cols: 3,
+    rows: 2,
+    background: BLUE,
+    palette: [BLUE, RED, WHITE],
+    cells: [
+      [
+        { glyph: 'square', color: RED, colorIndex: 1, isEdge: false },
+        { glyph: 'circle', color: WHITE, colorIndex: 2, isEdge: false },
+        { glyph: 'diamond', color: PINK, colorIndex: 1, isEdge: false },
+      ],
+      [{ glyph: 'diamond', color: RED, colorIndex: 1, isEdge: true }, null, null],
+    ],
+  };
+}
+
+const NAMES = ['Blue', 'Red', 'White'];
+
+describe('gridData', () => {
+  describe('gridToData', () => {
+    it('should write the palette as hex and cells in the CellData shape', () => {
+      const data = gridToData(sampleGrid(), NAMES);
+      expect(data.format).toBe(GRID_DATA_FORMAT);
+      expect(data.palette).toEqual(['#0000FF', '#FF0000', '#FFFFFF']);
+      expect(data.names).toEqual(NAMES);
+      expect(data.cells[0][0]).toEqual({ glyph: 'square', colorIndex: 1, isEdge: false });
+      expect(data.cells[1][0]).toEqual({ glyph: 'diamond', colorIndex: 1, isEdge: true });
+      expect(data.cells[1][1]).toBeNull();
+    });
+
+    it('should only write a cell color when it differs from its palette color', () => {
+      const data = gridToData(sampleGrid(), NAMES);
+      expect(data.cells[0][1]).not.toHaveProperty('color');
+      expect(data.cells[0][2]).toEqual({ glyph: 'diamond', colorIndex: 1, isEdge: false, color: '#FF8080' });
+    });
+  });
+
+  describe('gridToCSV', () => {
+    it('should write one line of color indices per row, with empty cells as 0', () => {
+      expect(gridToCSV(sampleGrid())).toBe('1,2,1\n1,0,0\n');
+    });
+  });
+
+  describe('parseGridJSON', () => {
+    it('should restore an exported grid', () => {
+      const { grid, names } = parseGridJSON(gridToJSON(sampleGrid(), NAMES));
+      expect(names).toEqual(NAMES);
+      expect(grid).toEqual(sampleGrid());
+    });
+
+    it('should reject files that are not grids', () => {
+      expect(() => parseGridJSON('not json')).toThrow('not valid JSON');
+      expect(() => parseGridJSON('{"format":"other"}')).toThrow('Not a knit grid file');
+    });
+
+    it('should reject mismatched sizes and bad cells', () => {
+      const data = gridToData(sampleGrid(), NAMES);
+
+      expect(() => parseGridJSON(JSON.stringify({ ...data, rows: 3 }))).toThrow('3 rows');
+      expect(() => parseGridJSON(JSON.stringify({ ...data, cols: 2 }))).toThrow('Row 1 must have 2 cells');
+
+      const badIndex = structuredClone(data);
+      badIndex.cells[0][0] = { glyph: 'square', colorIndex: 5, isEdge: false };
+      expect(() => parseGridJSON(JSON.stringify(badIndex))).toThrow('out of range in cell 1,1');
+
+      const badGlyph = structuredClone(data);
+      badGlyph.cells[1][0] = { glyph: 'star' as 'square', colorIndex: 1, isEdge: false };
+      expect(() => parseGridJSON(JSON.stringify(badGlyph))).toThrow('Unknown glyph in cell 1,2');
+    });
+
+    it('should fall back to generic names', () => {
+      const data = { ...gridToData(sampleGrid(), NAMES), names: undefined };
+      expect(parseGridJSON(JSON.stringify(data)).names).toEqual(['Color 1', 'Color 2', 'Color 3']);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for undo/redo history
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHistory, recordChange, undo, redo, MAX_HISTORY, HISTORY_COALESCE_MS } from '../lib/history';
+
+describe('history', () => {
+  describe('recordChange', () => {
+    it('should merge quick changes with the same key into one entry', () => {
+      let history = createHistory<number>();
+      history = recordChange(history, 1, 'param:stitchPx', 0);
+      history = recordChange(history, 2, 'param:stitchPx', 300);
+      history = recordChange(history, 3, 'param:stitchPx', 600);
+      expect(history.past.map((entry) => entry.state)).toEqual([1]);
+      expect(history.past[0].time).toBe(600);
+    });
+
+    it('should start a new entry for another key, a pause, or a null key', () => {
+      let history = createHistory<number>();
+      history = recordChange(history, 1, 'param:dither', 0);
+      history = recordChange(history, 2, 'param:contrast', 100);
+      history = recordChange(history, 3, 'param:contrast', 100 + HISTORY_COALESCE_MS);
+      history = recordChange(history, 4, null, 1200);
+      history = recordChange(history, 5, null, 1300);
+      expect(history.past.map((entry) => entry.state)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should clear the redo stack and cap the undo stack', () => {
+      let history = createHistory<number>();
+      for (let i = 0; i < MAX_HISTORY + 5; i++) {
+        history = recordChange(history, i, null, i);
+      }
+      expect(history.past).toHaveLength(MAX_HISTORY);
+      expect(history.past[0].state).toBe(5);
+
+      history = undo(history, 999)!.history;
+      expect(history.future).toEqual([999]);
+      expect(recordChange(history, 1, null, 0).future).toEqual([]);
+    });
+  });
+
+  describe('undo and redo', () => {
+    it('should step back and forward', () => {
+      let history = createHistory<string>();
+      history = recordChange(history, 'a', null, 0);
+      history = recordChange(history, 'b', null, 1);
+
+      const back = undo(history, 'c')!;
+      expect(back.state).toBe('b');
+      const back2 = undo(back.history, 'b')!;
+      expect(back2.state).toBe('a');
+
+      const forward = redo(back2.history, 'a', 2)!;
+      expect(forward.state).toBe('b');
+      expect(redo(forward.history, 'b', 3)!.state).toBe('c');
+    });
+
+    it('should return null with nothing to undo or redo', () => {
+      expect(undo(createHistory<number>(), 0)).toBeNull();
+      expect(redo(createHistory<number>(), 0, 0)).toBeNull();
+    });
+
+    it('should not merge a change into an entry from before an undo', () => {
+      let history = createHistory<number>();
+      history = recordChange(history, 1, 'crop', 0);
+      history = recordChange(history, 2, null, 100);
+      history = undo(history, 3)!.history;
+      // State is now 2; dragging the crop again must keep 2 undoable
+      history = recordChange(history, 2, 'crop', 200);
+      expect(history.past.map((entry) => entry.state)).toEqual([1, 2]);
+    });
+  });
+});
@@ -3,7 +3,13 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { luminance, pickGlyph, calculateThresholds } from '../lib/mapping';
+import {
+  luminance,
+  pickGlyph,
+  calculateThresholds,
+  luminanceHistogram,
+  glyphForIndex,
+} from '../lib/mapping';
 
 describe('mapping', () => {
   describe('luminance', () => {
@@ -81,5 +87,36 @@ describe('mapping', () => {
       expect(t1).toBeCloseTo(0.20, 2);
       expect(t2).toBeCloseTo(0.50, 2);
     });
+
+    it('should split a histogram into tertiles', () => {
+      const lumas = Array.from({ length: 300 }, (_, i) => i / 300);
+      const [t1, t2] = calculateThresholds(luminanceHistogram(lumas));
+      expect(t1).toBeCloseTo(1 / 3, 1);
+      expect(t2).toBeCloseTo(2 / 3, 1);
+    });
+
+    it('should keep thresholds ordered for a flat image', () => {
+      const [t1, t2] = calculateThresholds(luminanceHistogram(new Array(50).fill(0.4)));
+      expect(t2).toBeGreaterThan(t1);
+    });
+
+    it('should fall back to defaults for an empty histogram', () => {
+      expect(calculateThresholds(luminanceHistogram([]))).toEqual([0.20, 0.50]);
+    });
+  });
+
+  describe('glyphForIndex', () => {
+    it('should cycle glyphs by palette index', () => {
+      expect(glyphForIndex(0)).toBe('diamond');
+      expect(glyphForIndex(1)).toBe('square');
+      expect(glyphForIndex(2)).toBe('circle');
+      expect(glyphForIndex(3)).toBe('diamond');
+    });
+
+    it('should use the table and fall back past its end', () => {
+      expect(glyphForIndex(1, ['circle', 'circle'])).toBe('circle');
+      expect(glyphForIndex(2, ['circle', 'circle'])).toBe('circle');
+      expect(glyphForIndex(4, ['circle', 'circle'])).toBe('square');
+    });
   });
 });
@@ -0,0 +1,141 @@
+/**
+ * Tests for the MP4 muxer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { muxMP4, sampleDurations, MP4_TIMESCALE } from '../lib/mp4';
+import type { Mp4Sample } from '../lib/mp4';
+
+interface Box {
+  type: string;
+  start: number;
+  size: number;
+  /** Payload view (after the 8-byte header) */
+  data: DataView;
+}
+
+/**
+ * List the boxes in a byte range
+ */
+function boxes(bytes: Uint8Array, start = 0, end = bytes.length): Box[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const result: Box[] = [];
+  let offset = start;
+  while (offset < end) {
+    const size = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    result.push({ type, start: offset, size, data: new DataView(bytes.buffer, bytes.byteOffset + offset + 8, size - 8) });
+    offset += size;
+  }
+  return result;
+}
+
+/** Bytes between a box header and its first child, for boxes that have fields before their children */
+const CHILD_OFFSET: Record<string, number> = { stsd: 8, avc1: 78 };
+
+/**
+ * Find a box by path, e.g. ['moov', 'trak', 'mdia']
+ */
+function find(bytes: Uint8Array, path: string[]): Box {
+  let list = boxes(bytes);
+  let found: Box | undefined;
+  for (const type of path) {
+    if (found) {
+      list = boxes(bytes, found.start + 8 + (CHILD_OFFSET[found.type] ?? 0), found.start + found.size);
+    }
+    found = list.find((b) => b.type === type);
+    if (!found) throw new Error(`Missing box ${type}`);
+  }
+  return found!;
+}
+
+/**
+ * Sample payloads are their index repeated, so they can be located in the file
+ */
+function makeSamples(count: number, fps: number): Mp4Sample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    data: new Uint8Array(10 + i).fill(i + 1),
+    timestamp: Math.round((i * 1_000_000) / fps),
+    duration: Math.round(1_000_000 / fps),
+    keyframe: i % 4 === 0,
+  }));
+}
+
+const AVCC = new Uint8Array([1, 0x42, 0xe0, 0x28, 0xff, 0xe1, 0, 0]);
+
+describe('mp4', () => {
+  describe('sampleDurations', () => {
+    it('should derive durations from timestamps without drift', () => {
+      const samples = makeSamples(30, 30);
+      const durations = sampleDurations(samples, MP4_TIMESCALE);
+      expect(new Set(durations)).toEqual(new Set([3000]));
+      expect(durations.reduce((a, b) => a + b, 0)).toBe(MP4_TIMESCALE);
+    });
+
+    it('should keep the total exact when frames do not divide the timescale', () => {
+      const samples = makeSamples(7, 7);
+      const durations = sampleDurations(samples, 1000);
+      expect(durations.reduce((a, b) => a + b, 0)).toBe(1000);
+    });
+  });
+
+  describe('muxMP4', () => {
+    const samples = makeSamples(6, 10);
+    const file = muxMP4({ width: 1080, height: 1350, avcC: AVCC }, samples);
+
+    it('should write ftyp, moov and mdat in fast-start order', () => {
+      expect(boxes(file).map((b) => b.type)).toEqual(['ftyp', 'moov', 'mdat']);
+      const ftyp = find(file, ['ftyp']);
+      expect(String.fromCharCode(...file.subarray(ftyp.start + 8, ftyp.start + 12))).toBe('isom');
+    });
+
+    it('should point the chunk offset at the first sample', () => {
+      const stco = find(file, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stco']);
+      const offset = stco.data.getUint32(8);
+      expect(file[offset]).toBe(1);
+      expect(file.subarray(offset, offset + 10)).toEqual(samples[0].data);
+
+      const mdat = find(file, ['mdat']);
+      expect(offset).toBe(mdat.start + 8);
+      expect(mdat.size - 8).toBe(samples.reduce((sum, s) => sum + s.data.length, 0));
+    });
+
+    it('should record sample sizes, timing and sync samples', () => {
+      const stbl = ['moov', 'trak', 'mdia', 'minf', 'stbl'];
+      const stsz = find(file, [...stbl, 'stsz']);
+      expect(stsz.data.getUint32(8)).toBe(6);
+      expect(stsz.data.getUint32(12)).toBe(10);
+      expect(stsz.data.getUint32(32)).toBe(15);
+
+      const stts = find(file, [...stbl, 'stts']);
+      expect(stts.data.getUint32(4)).toBe(1); // one run
+      expect(stts.data.getUint32(8)).toBe(6);
+      expect(stts.data.getUint32(12)).toBe(MP4_TIMESCALE / 10);
+
+      const stss = find(file, [...stbl, 'stss']);
+      expect(stss.data.getUint32(4)).toBe(2);
+      expect([stss.data.getUint32(8), stss.data.getUint32(12)]).toEqual([1, 5]);
+    });
+
+    it('should describe the track size, duration and decoder configuration', () => {
+      const mvhd = find(file, ['moov', 'mvhd']);
+      expect(mvhd.data.getUint32(12)).toBe(MP4_TIMESCALE);
+      expect(mvhd.data.getUint32(16)).toBe((MP4_TIMESCALE * 6) / 10);
+
+      const tkhd = find(file, ['moov', 'trak', 'tkhd']);
+      expect(tkhd.data.getUint32(76) / 0x10000).toBe(1080);
+      expect(tkhd.data.getUint32(80) / 0x10000).toBe(1350);
+
+      const avcC = find(file, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stsd', 'avc1', 'avcC']);
+      expect(new Uint8Array(avcC.data.buffer, avcC.data.byteOffset, avcC.data.byteLength)).toEqual(AVCC);
+    });
+
+    it('should reject empty input and a leading delta frame', () => {
+      expect(() => muxMP4({ width: 2, height: 2, avcC: AVCC }, [])).toThrow('No samples');
+      const [first, ...rest] = makeSamples(2, 10);
+      expect(() => muxMP4({ width: 2, height: 2, avcC: AVCC }, [...rest, { ...first, keyframe: false }])).toThrow(
+        'keyframe'
+      );
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for manual cell edits
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyCellOverrides, brushOverride, cellAtPoint, parseCellOverrides, withCellOverride } from '../lib/overrides';
+import type { KnitGrid, RGB } from '../types';
+
+const BLUE: RGB = [0, 0, 1];
+const RED: RGB = [1, 0, 0];
+const WHITE: RGB = [1, 1, 1];
+
+/**
+ * 2×2 grid: red square, white circle, empty, red diamond
+ */
+function sampleGrid(): KnitGrid {
+  return {
+    cols: 2,
+    rows: 2,
+    background: BLUE,
+    palette: [BLUE, RED, WHITE],
+    cells: [
+      [
+        { glyph: 'square', color: RED, colorIndex: 1, isEdge: false },
+        { glyph: 'circle', color: WHITE, colorIndex: 2, isEdge: true },
+      ],
+      [null, { glyph: 'diamond', color: RED, colorIndex: 1, isEdge: false }],
+    ],
+  };
+}
+
+describe('overrides', () => {
+  describe('withCellOverride', () => {
+    it('should set, replace and remove overrides', () => {
+      const painted = withCellOverride({}, 1, 0, { colorIndex: 2, glyph: 'diamond' });
+      expect(painted).toEqual({ '1,0': { colorIndex: 2, glyph: 'diamond' } });
+      expect(withCellOverride(painted, 1, 0, null)).toEqual({ '1,0': null });
+      expect(withCellOverride(painted, 1, 0, undefined)).toEqual({});
+    });
+
+    it('should return the same object when nothing changes', () => {
+      const overrides = { '0,0': { colorIndex: 1, glyph: 'square' as const }, '1,1': null };
+      expect(withCellOverride(overrides, 0, 0, { colorIndex: 1, glyph: 'square' })).toBe(overrides);
+      expect(withCellOverride(overrides, 1, 1, null)).toBe(overrides);
+      expect(withCellOverride(overrides, 0, 1, undefined)).toBe(overrides);
+    });
+  });
+
+  describe('applyCellOverrides', () => {
+    it('should paint and clear cells with palette colors', () => {
+      const grid = applyCellOverrides(sampleGrid(), {
+        '0,1': { colorIndex: 2, glyph: 'circle' },
+        '1,0': null,
+      });
+      expect(grid.cells[1][0]).toEqual({ glyph: 'circle', color: WHITE, colorIndex: 2, isEdge: false });
+      expect(grid.cells[0][1]).toBeNull();
+      expect(grid.cells[0][0]).toEqual(sampleGrid().cells[0][0]);
+    });
+
+    it('should leave the computed grid untouched', () => {
+      const original = sampleGrid();
+      applyCellOverrides(original, { '0,0': null });
+      expect(original).toEqual(sampleGrid());
+      expect(applyCellOverrides(original, {})).toBe(original);
+    });
+
+    it('should skip overrides outside the grid or palette', () => {
+      const grid = applyCellOverrides(sampleGrid(), {
+        '2,0': null,
+        '0,5': null,
+        '1,1': { colorIndex: 3, glyph: 'circle' },
+      });
+      expect(grid.cells).toEqual(sampleGrid().cells);
+    });
+  });
+
+  describe('parseCellOverrides', () => {
+    it('should keep valid overrides and drop invalid ones', () => {
+      const overrides = parseCellOverrides({
+        '1,2': { colorIndex: 1, glyph: 'circle' },
+        '0,0': null,
+        '3,3': { colorIndex: -1, glyph: 'circle' },
+        '4,4': { colorIndex: 1, glyph: 'star' },
+        'x,1': null,
+      });
+      expect(overrides).toEqual({ '1,2': { colorIndex: 1, glyph: 'circle' }, '0,0': null });
+    });
+
+    it('should return no overrides for non-objects', () => {
+      expect(parseCellOverrides(undefined)).toEqual({});
+      expect(parseCellOverrides([null])).toEqual({});
+    });
+  });
+
+  describe('brushOverride', () => {
+    it('should map brushes to overrides', () => {
+      expect(brushOverride({ kind: 'paint', colorIndex: 1, glyph: 'circle' })).toEqual({ colorIndex: 1, glyph: 'circle' });
+      expect(brushOverride({ kind: 'erase' })).toBeNull();
+      expect(brushOverride({ kind: 'restore' })).toBeUndefined();
+    });
+  });
+
+  describe('cellAtPoint', () => {
+    it('should find the cell under a point', () => {
+      expect(cellAtPoint(0, 0, 200, 100, 10, 5)).toEqual({ x: 0, y: 0 });
+      expect(cellAtPoint(199, 99, 200, 100, 10, 5)).toEqual({ x: 9, y: 4 });
+      expect(cellAtPoint(45, 20, 200, 100, 10, 5)).toEqual({ x: 2, y: 1 });
+    });
+
+    it('should return null outside the grid', () => {
+      expect(cellAtPoint(-1, 10, 200, 100, 10, 5)).toBeNull();
+      expect(cellAtPoint(200, 10, 200, 100, 10, 5)).toBeNull();
+    });
+  });
+});
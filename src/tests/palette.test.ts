@@ -10,27 +10,172 @@ import {
   applyDither,
   applyContrast,
   applySaturation,
+  hexToRgb,
+  rgbToHex,
+  paletteColors,
+  colorDistance,
   LIDL_COLORS,
+  ACTIVE_PALETTE,
+  BUILT_IN_PALETTES,
+  parsePalette,
+  withEnabledMinimum,
+  paletteSpread,
 } from '../lib/palette';
+import { rgbToLab, ciede2000, rgbToOklab } from '../lib/colorspace';
 import type { RGB } from '../types';
 
 describe('palette', () => {
+  const brandPalette = Object.values(LIDL_COLORS);
+
   describe('nearestBrandColor', () => {
     it('should return yellow for yellow input', () => {
-      const result = nearestBrandColor(LIDL_COLORS.yellow);
+      const result = nearestBrandColor(LIDL_COLORS.yellow, brandPalette);
       expect(result).toEqual(LIDL_COLORS.yellow);
     });
 
     it('should return royal blue for royal blue input', () => {
-      const result = nearestBrandColor(LIDL_COLORS.blueRoyal);
+      const result = nearestBrandColor(LIDL_COLORS.blueRoyal, brandPalette);
       expect(result).toEqual(LIDL_COLORS.blueRoyal);
     });
 
     it('should return nearest color for arbitrary input', () => {
       const input: RGB = [0.5, 0.5, 0.5]; // Gray
-      const result = nearestBrandColor(input);
+      const result = nearestBrandColor(input, brandPalette);
       // Should return one of the brand colors
-      expect(Object.values(LIDL_COLORS)).toContainEqual(result);
+      expect(brandPalette).toContainEqual(result);
+    });
+
+    it('should search the active palette by default', () => {
+      const result = nearestBrandColor(LIDL_COLORS.yellow);
+      expect(ACTIVE_PALETTE).toContainEqual(result);
+    });
+  });
+
+  describe('color metrics', () => {
+    it('should match the CIEDE2000 reference pairs (Sharma et al.)', () => {
+      expect(ciede2000([50, 2.6772, -79.7751], [50, 0, -82.7485])).toBeCloseTo(2.0425, 4);
+      expect(ciede2000([50, -1.3802, -84.2814], [50, 0, -82.7485])).toBeCloseTo(1.0000, 4);
+      expect(ciede2000([50, 2.5, 0], [73, 25, -18])).toBeCloseTo(27.1492, 4);
+      expect(ciede2000([2.0776, 0.0795, -1.135], [0.9033, -0.0636, -0.5514])).toBeCloseTo(0.9082, 4);
+    });
+
+    it('should convert white to L = 100 in CIELAB and L = 1 in OKLab', () => {
+      expect(rgbToLab([1, 1, 1])[0]).toBeCloseTo(100, 3);
+      expect(rgbToOklab([1, 1, 1])[0]).toBeCloseTo(1, 4);
+    });
+
+    it('should return zero distance for identical colors in every metric', () => {
+      const color: RGB = [0.2, 0.4, 0.6];
+      expect(colorDistance(color, color, 'linear-rgb')).toBe(0);
+      expect(colorDistance(color, color, 'oklab')).toBe(0);
+      expect(colorDistance(color, color, 'ciede2000')).toBeCloseTo(0, 10);
+    });
+
+    it('should map mid-blue #004080 to #0052B0 perceptually but to navy in linear RGB', () => {
+      const midBlue = hexToRgb('#004080')!;
+      expect(nearestBrandColor(midBlue, ACTIVE_PALETTE, 'linear-rgb')).toEqual(ACTIVE_PALETTE[1]);
+      expect(nearestBrandColor(midBlue, ACTIVE_PALETTE, 'oklab')).toEqual(ACTIVE_PALETTE[0]);
+      expect(nearestBrandColor(midBlue, ACTIVE_PALETTE, 'ciede2000')).toEqual(ACTIVE_PALETTE[0]);
+    });
+
+    it('should keep skin tones out of red in perceptual metrics', () => {
+      const festive = paletteColors(BUILT_IN_PALETTES.find((p) => p.id === 'festive'));
+      const skin = hexToRgb('#D2A17C')!;
+      expect(nearestBrandColor(skin, festive, 'linear-rgb')).toEqual(LIDL_COLORS.red);
+      expect(nearestBrandColor(skin, festive, 'oklab')).toEqual(festive[2]); // Cream
+      expect(nearestBrandColor(skin, festive, 'ciede2000')).toEqual(festive[2]);
+    });
+
+    it('should not map a dark skin tone to navy in perceptual metrics', () => {
+      const brand = paletteColors(BUILT_IN_PALETTES.find((p) => p.id === 'lidl-brand'));
+      const skin = hexToRgb('#8D5524')!;
+      expect(nearestBrandColor(skin, brand, 'linear-rgb')).toEqual(LIDL_COLORS.navy);
+      expect(nearestBrandColor(skin, brand, 'oklab')).toEqual(LIDL_COLORS.red);
+      expect(nearestBrandColor(skin, brand, 'ciede2000')).toEqual(LIDL_COLORS.red);
+    });
+  });
+
+  describe('hexToRgb', () => {
+    it('should parse six-digit hex with or without #', () => {
+      expect(hexToRgb('#FF0000')).toEqual([1, 0, 0]);
+      expect(hexToRgb('00ff00')).toEqual([0, 1, 0]);
+    });
+
+    it('should expand three-digit hex', () => {
+      expect(hexToRgb('#00F')).toEqual([0, 0, 1]);
+    });
+
+    it('should return null for invalid input', () => {
+      expect(hexToRgb('#12345')).toBeNull();
+      expect(hexToRgb('blue')).toBeNull();
+    });
+
+    it('should round-trip with rgbToHex', () => {
+      expect(rgbToHex(hexToRgb('#0052b0')!)).toBe('#0052B0');
+    });
+  });
+
+  describe('paletteColors', () => {
+    it('should return the Christmas palette for the default built-in', () => {
+      expect(paletteColors(BUILT_IN_PALETTES[0])).toEqual(ACTIVE_PALETTE);
+    });
+
+    it('should skip disabled and invalid swatches', () => {
+      const colors = paletteColors({
+        id: 'test',
+        name: 'Test',
+        swatches: [
+          { name: 'Red', hex: '#FF0000', enabled: true },
+          { name: 'Green', hex: '#00FF00', enabled: false },
+          { name: 'Broken', hex: 'nope', enabled: true },
+          { name: 'Blue', hex: '#0000FF', enabled: true },
+        ],
+      });
+      expect(colors).toEqual([[1, 0, 0], [0, 0, 1]]);
+    });
+
+    it('should fall back to the active palette when nothing is enabled', () => {
+      const colors = paletteColors({
+        id: 'test',
+        name: 'Test',
+        swatches: [
+          { name: 'Red', hex: '#FF0000', enabled: false },
+          { name: 'Blue', hex: '#0000FF', enabled: false },
+        ],
+      });
+      expect(colors).toEqual(ACTIVE_PALETTE);
+    });
+  });
+
+  describe('parsePalette', () => {
+    const swatches = [
+      { name: 'Red', hex: '#FF0000', enabled: true },
+      { name: 'Green', hex: '#00FF00', enabled: false },
+      { name: 'Blue', hex: '#0000FF', enabled: false },
+    ];
+
+    it('should keep a valid palette and enable a second swatch when only one is enabled', () => {
+      const palette = parsePalette({ id: 'p', name: 'P', swatches, builtIn: true });
+      expect(palette.builtIn).toBeUndefined();
+      expect(palette.swatches.map((s) => s.enabled)).toEqual([true, true, false]);
+    });
+
+    it('should reject entries with missing swatches or bad colors', () => {
+      expect(() => parsePalette({ id: 'p', name: 'P' })).toThrow('Invalid palette');
+      expect(() => parsePalette(null)).toThrow('Invalid palette');
+      expect(() => parsePalette({ id: 'p', name: 'P', swatches: [...swatches, { name: 'Bad', hex: 'zz' }] })).toThrow(
+        'Invalid palette color'
+      );
+    });
+  });
+
+  describe('withEnabledMinimum', () => {
+    it('should leave palettes with two enabled swatches unchanged', () => {
+      const swatches = [
+        { name: 'A', hex: '#000000', enabled: true },
+        { name: 'B', hex: '#FFFFFF', enabled: true },
+      ];
+      expect(withEnabledMinimum(swatches)).toBe(swatches);
     });
   });
 
@@ -59,6 +204,25 @@ describe('palette', () => {
     });
   });
 
+  describe('applyPaletteMix (perceptual blend)', () => {
+    it('should move closer to the brand color as mix increases', () => {
+      const input: RGB = [0.9, 0.4, 0.1];
+      const nearest = nearestBrandColor(input);
+      const distance = (c: RGB) => Math.hypot(c[0] - nearest[0], c[1] - nearest[1], c[2] - nearest[2]);
+      const quarter = applyPaletteMix(input, 0.25);
+      const threeQuarter = applyPaletteMix(input, 0.75);
+      expect(distance(threeQuarter)).toBeLessThan(distance(quarter));
+      expect(distance(quarter)).toBeLessThan(distance(input));
+    });
+
+    it('should blend against a custom palette', () => {
+      const palette: RGB[] = [[0, 0, 0], [1, 1, 1]];
+      const result = applyPaletteMix([0.9, 0.9, 0.9], 0.5, palette);
+      expect(result[0]).toBeGreaterThan(0.9);
+      expect(result[0]).toBeLessThan(1);
+    });
+  });
+
   describe('bayer4', () => {
     it('should return deterministic values', () => {
       expect(bayer4(0, 0)).toBe(0 / 16);
@@ -90,6 +254,12 @@ describe('palette', () => {
       expect(result).toEqual(input);
     });
 
+    it('should spread thresholds by the given palette spacing', () => {
+      // The first 4×4 Bayer threshold is the lowest, so the offset is close to -spread / 2
+      const [r] = applyDither([0.5, 0.5, 0.5], 1, 0, 0, 'bayer4', 0.4);
+      expect(r).toBeLessThan(0.35);
+    });
+
     it('should modify color when amount is greater than 0', () => {
       const input: RGB = [0.5, 0.5, 0.5];
       const result = applyDither(input, 1, 0, 0);
@@ -107,6 +277,14 @@ describe('palette', () => {
     });
   });
 
+  describe('paletteSpread', () => {
+    it('should measure the per-channel distance to the nearest palette color', () => {
+      expect(paletteSpread([[0, 0, 0], [1, 1, 1]])).toBeCloseTo(1);
+      expect(paletteSpread([[0, 0, 0], [0.2, 0.2, 0.2], [1, 1, 1]])).toBeCloseTo((0.2 + 0.2 + 0.8) / 3);
+      expect(paletteSpread([[0, 0, 0]])).toBe(1);
+    });
+  });
+
   describe('applyContrast', () => {
     it('should return original color when contrast is 1.0', () => {
       const input: RGB = [0.5, 0.5, 0.5];
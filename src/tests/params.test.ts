@@ -0,0 +1,90 @@
+/**
+ * Tests for knit parameter validation and versioned storage
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { sanitizeParams, toStoredParams, fromStoredParams, mergeKnown, PARAMS_VERSION } from '../lib/params';
+import { DEFAULT_PARAMS, PRESETS } from '../types';
+
+describe('params', () => {
+  describe('sanitizeParams', () => {
+    it('should keep valid params as they are', () => {
+      expect(sanitizeParams(PRESETS.quilted)).toEqual(PRESETS.quilted);
+    });
+
+    it('should fall back to defaults for mistyped and unknown values', () => {
+      const params = sanitizeParams({ stitchPx: 'abc', ditherMode: 'spiral', glyphTable: ['diamond', 'star'], extra: 1 });
+      expect(params).toEqual(DEFAULT_PARAMS);
+      expect(params).not.toHaveProperty('extra');
+    });
+
+    it('should clamp numbers to the control limits', () => {
+      const params = sanitizeParams({ stitchPx: 500, contrast: 0, seed: 12.6, dither: NaN });
+      expect(params.stitchPx).toBe(50);
+      expect(params.contrast).toBe(0.5);
+      expect(params.seed).toBe(13);
+      expect(params.dither).toBe(DEFAULT_PARAMS.dither);
+    });
+
+    it('should reset luminance thresholds that are out of order', () => {
+      const params = sanitizeParams({ glyphT1: 0.8, glyphT2: 0.3 });
+      expect(params.glyphT1).toBe(DEFAULT_PARAMS.glyphT1);
+      expect(params.glyphT2).toBe(DEFAULT_PARAMS.glyphT2);
+    });
+
+    it('should return defaults for non-objects', () => {
+      expect(sanitizeParams(null)).toEqual(DEFAULT_PARAMS);
+      expect(sanitizeParams('params')).toEqual(DEFAULT_PARAMS);
+    });
+  });
+
+  describe('stored params', () => {
+    it('should round-trip through storage', () => {
+      const stored = JSON.parse(JSON.stringify(toStoredParams(PRESETS.airy)));
+      expect(stored.version).toBe(PARAMS_VERSION);
+      expect(fromStoredParams(stored)).toEqual(PRESETS.airy);
+    });
+
+    it('should migrate unversioned params from before brand lock to brand lock on', () => {
+      expect(fromStoredParams({ stitchPx: 30, paletteMix: 0.5 })).toMatchObject({
+        stitchPx: 30,
+        paletteMix: 0.5,
+        brandLock: true,
+      });
+      expect(fromStoredParams({ seed: 4 }).brandLock).toBe(true);
+      expect(fromStoredParams({ paletteMix: 0.5, brandLock: false }).brandLock).toBe(false);
+    });
+
+    describe('with brand lock off by default', () => {
+      afterEach(() => {
+        DEFAULT_PARAMS.brandLock = true;
+      });
+
+      it('should migrate params with a malformed version as unversioned', () => {
+        // Brand lock off by default shows whether the version 0 migration ran
+        DEFAULT_PARAMS.brandLock = false;
+        for (const version of [0.5, -1, Number.NaN]) {
+          const params = fromStoredParams({ version, params: { seed: 6, paletteMix: 0.5 } });
+          expect(params).toMatchObject({ seed: 6, paletteMix: 0.5, brandLock: true });
+        }
+        expect(fromStoredParams({ version: PARAMS_VERSION, params: { seed: 6 } }).brandLock).toBe(false);
+      });
+    });
+
+    it('should validate params from a newer version without migrating', () => {
+      const params = fromStoredParams({ version: PARAMS_VERSION + 1, params: { seed: 5, newField: true } });
+      expect(params).toEqual({ ...DEFAULT_PARAMS, seed: 5 });
+    });
+
+    it('should fall back to defaults for unreadable data', () => {
+      expect(fromStoredParams(null)).toEqual(DEFAULT_PARAMS);
+      expect(fromStoredParams({ version: 1, params: null })).toEqual(DEFAULT_PARAMS);
+    });
+  });
+
+  describe('mergeKnown', () => {
+    it('should keep only fields matching the default types', () => {
+      expect(mergeKnown({ width: 3, height: 2 }, { width: 4, height: '5', depth: 1 })).toEqual({ width: 4, height: 2 });
+    });
+  });
+});
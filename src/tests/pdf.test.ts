@@ -0,0 +1,109 @@
+/**
+ * Tests for the PDF writer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildKnitPDF, pdfName, trimSizeMm } from '../lib/pdf';
+import type { PdfOptions } from '../lib/pdf';
+import type { KnitGrid, RGB } from '../types';
+
+const BLUE: RGB = [0, 0, 1];
+const RED: RGB = [1, 0, 0];
+
+const grid: KnitGrid = {
+  cols: 2,
+  rows: 1,
+  background: BLUE,
+  palette: [BLUE, RED],
+  cells: [[
+    { glyph: 'circle', color: RED, colorIndex: 1, isEdge: false },
+    { glyph: 'diamond', color: [0.5, 0.5, 0.5], colorIndex: 1, isEdge: false },
+  ]],
+};
+
+const options: PdfOptions = {
+  paper: 'A4',
+  bleedMm: 3,
+  cropMarks: true,
+  colorBar: true,
+  spotNames: ['Lidl Blue', 'Red (festive)'],
+};
+
+/**
+ * Decode PDF bytes as text (output is ASCII)
+ */
+function decode(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+describe('pdf', () => {
+  describe('pdfName', () => {
+    it('should escape delimiters, spaces and non-ASCII characters', () => {
+      expect(pdfName('Lidl Blue')).toBe('Lidl#20Blue');
+      expect(pdfName('Red (festive)')).toBe('Red#20#28festive#29');
+      expect(pdfName('Grün')).toBe('Gr#C3#BCn');
+    });
+  });
+
+  describe('trimSizeMm', () => {
+    it('should turn standard sizes landscape for wide artwork', () => {
+      expect(trimSizeMm(options, 0.5)).toEqual({ width: 210, height: 297 });
+      expect(trimSizeMm(options, 2)).toEqual({ width: 297, height: 210 });
+    });
+
+    it('should use custom sizes as given', () => {
+      expect(trimSizeMm({ ...options, paper: 'custom', customWidthMm: 500, customHeightMm: 700 }, 2))
+        .toEqual({ width: 500, height: 700 });
+    });
+  });
+
+  describe('buildKnitPDF', () => {
+    it('should write a valid header, trailer and cross-reference offsets', () => {
+      const pdf = decode(buildKnitPDF(grid, options));
+      expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+      const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+
+      const entries = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+      expect(entries.length).toBeGreaterThan(5);
+      entries.forEach((offset, i) => {
+        expect(pdf.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+      });
+    });
+
+    it('should set the trim and bleed boxes for the paper size', () => {
+      const pdf = decode(buildKnitPDF(grid, { ...options, cropMarks: false, colorBar: false }));
+      // Landscape A4 (2:1 artwork) with 3 mm bleed and no slug
+      const bleed = 3 * 72 / 25.4;
+      const trimBox = pdf.match(/\/TrimBox \[([^\]]+)\]/)![1].split(' ').map(Number);
+      expect(trimBox[0]).toBeCloseTo(bleed, 2);
+      expect(trimBox[2] - trimBox[0]).toBeCloseTo(297 * 72 / 25.4, 2);
+      expect(trimBox[3] - trimBox[1]).toBeCloseTo(210 * 72 / 25.4, 2);
+      expect(pdf).toMatch(/\/BleedBox \[0 0 /);
+    });
+
+    it('should name a spot color for each palette entry', () => {
+      const pdf = decode(buildKnitPDF(grid, options));
+      expect(pdf).toContain('/Separation /Lidl#20Blue /DeviceRGB');
+      expect(pdf).toContain('/Separation /Red#20#28festive#29 /DeviceRGB');
+      expect(pdf).toContain('/Separation /All /DeviceRGB');
+    });
+
+    it('should fill palette glyphs with spot colors and others with RGB', () => {
+      const pdf = decode(buildKnitPDF(grid, options));
+      expect(pdf).toContain('/CS1 cs 1 scn');
+      expect(pdf).toContain('0.5 0.5 0.5 rg');
+      // Circle as Bezier curves, diamond as a closed path
+      expect(pdf).toMatch(/ c .* c .* c .* c h/);
+      expect(pdf).toMatch(/ m [\d. ]+ l [\d. ]+ l [\d. ]+ l h/);
+    });
+
+    it('should keep duplicate swatch names unique', () => {
+      const pdf = decode(buildKnitPDF(grid, { ...options, spotNames: ['Ink', 'Ink'] }));
+      expect(pdf).toContain('/Separation /Ink /DeviceRGB');
+      expect(pdf).toContain('/Separation /Ink#202 /DeviceRGB');
+    });
+  });
+});
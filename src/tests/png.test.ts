@@ -0,0 +1,154 @@
+/**
+ * Tests for PNG chunks and APNG encoding
+ */
+
+import { describe, it, expect } from 'vitest';
+import { crc32, encodeAPNG, insertChunks, isPNG, pngChunk, PNG_SIGNATURE, readTextChunks, textChunk } from '../lib/png';
+import type { RGB } from '../types';
+
+const BLUE: RGB = [0, 82 / 255, 176 / 255];
+const YELLOW: RGB = [1, 233 / 255, 51 / 255];
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+/**
+ * Split a PNG into chunks, checking each CRC
+ */
+function chunks(file: Uint8Array): Chunk[] {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const result: Chunk[] = [];
+  for (let offset = 8; offset < file.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...file.subarray(offset + 4, offset + 8));
+    const data = file.subarray(offset + 8, offset + 8 + length);
+    expect(view.getUint32(offset + 8 + length)).toBe(crc32(file.subarray(offset + 4, offset + 8 + length)));
+    result.push({ type, data });
+    offset += length + 12;
+  }
+  return result;
+}
+
+/**
+ * zlib-decompress bytes
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new DecompressionStream('deflate');
+  const writer = stream.writable.getWriter();
+  writer.write(data.slice());
+  writer.close();
+
+  const bytes: number[] = [];
+  const reader = stream.readable.getReader();
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    bytes.push(...result.value);
+  }
+  return new Uint8Array(bytes);
+}
+
+const u32 = (data: Uint8Array, offset: number) => new DataView(data.buffer, data.byteOffset).getUint32(offset);
+
+describe('png', () => {
+  describe('crc32', () => {
+    it('should match the PNG reference value', () => {
+      expect(crc32(new TextEncoder().encode('IEND'))).toBe(0xae426082);
+    });
+  });
+
+  describe('pngChunk', () => {
+    it('should write length, type, data and CRC', () => {
+      const chunk = pngChunk('IEND', new Uint8Array(0));
+      expect(Array.from(chunk)).toEqual([0, 0, 0, 0, 73, 69, 78, 68, 0xae, 0x42, 0x60, 0x82]);
+    });
+  });
+
+  describe('text chunks', () => {
+    const png = () => new Uint8Array([...PNG_SIGNATURE, ...pngChunk('IHDR', new Uint8Array(13)), ...pngChunk('IEND', new Uint8Array(0))]);
+
+    it('should insert chunks before IEND', () => {
+      const file = insertChunks(png(), [textChunk('Comment', 'hi')]);
+      expect(chunks(file).map((c) => c.type)).toEqual(['IHDR', 'iTXt', 'IEND']);
+    });
+
+    it('should round-trip UTF-8 iTXt text', () => {
+      const file = insertChunks(png(), [textChunk('Title', 'Strickmuster ✓')]);
+      expect(readTextChunks(file).get('Title')).toBe('Strickmuster ✓');
+    });
+
+    it('should read tEXt chunks', () => {
+      const data = new Uint8Array([...new TextEncoder().encode('Author'), 0, ...new TextEncoder().encode('Lidl')]);
+      const file = insertChunks(png(), [pngChunk('tEXt', data)]);
+      expect(readTextChunks(file).get('Author')).toBe('Lidl');
+    });
+
+    it('should reject invalid keywords and non-PNG files', () => {
+      expect(() => textChunk('', 'x')).toThrow('keyword');
+      expect(() => insertChunks(new Uint8Array(16), [])).toThrow('Not a PNG');
+      expect(isPNG(new Uint8Array(16))).toBe(false);
+      expect(readTextChunks(new Uint8Array(16)).size).toBe(0);
+    });
+  });
+
+  describe('encodeAPNG', () => {
+    const width = 4;
+    const height = 2;
+    const frame = (changed?: number) => {
+      const indices = new Uint8Array(width * height);
+      if (changed !== undefined) indices[changed] = 1;
+      return indices;
+    };
+
+    it('should write an indexed image with exactly the palette', async () => {
+      const file = await encodeAPNG([{ indices: frame(), delay: 100 }], { width, height, colors: [BLUE, YELLOW] });
+      expect(file.subarray(0, 8)).toEqual(PNG_SIGNATURE);
+
+      const list = chunks(file);
+      expect(list.map((c) => c.type)).toEqual(['IHDR', 'acTL', 'PLTE', 'fcTL', 'IDAT', 'IEND']);
+      expect(Array.from(list[0].data.subarray(8))).toEqual([8, 3, 0, 0, 0]);
+      expect(Array.from(list[2].data)).toEqual([0, 82, 176, 255, 233, 51]);
+      // Two rows, each with a filter byte
+      expect(Array.from(await inflate(list[4].data))).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+    });
+
+    it('should store changed regions in fdAT chunks with a shared sequence', async () => {
+      const file = await encodeAPNG(
+        [
+          { indices: frame(), delay: 100 },
+          { indices: frame(6), delay: 100 },
+          { indices: frame(6), delay: 50 },
+        ],
+        { width, height, colors: [BLUE, YELLOW], loopCount: 3 }
+      );
+      const list = chunks(file);
+      expect(list.map((c) => c.type)).toEqual(['IHDR', 'acTL', 'PLTE', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'IEND']);
+
+      const [acTL] = list.filter((c) => c.type === 'acTL');
+      expect([u32(acTL.data, 0), u32(acTL.data, 4)]).toEqual([2, 3]);
+
+      const second = list[5].data;
+      // sequence, width, height, x, y
+      expect([0, 4, 8, 12, 16].map((o) => u32(second, o))).toEqual([1, 1, 1, 2, 1]);
+      // Merged delay 150/1000 s
+      expect((second[20] << 8) | second[21]).toBe(150);
+      expect((second[22] << 8) | second[23]).toBe(1000);
+
+      const fdAT = list[6].data;
+      expect(u32(fdAT, 0)).toBe(2);
+      expect(Array.from(await inflate(fdAT.subarray(4)))).toEqual([0, 1]);
+    });
+
+    it('should store full frames when changedOnly is off', async () => {
+      const file = await encodeAPNG(
+        [
+          { indices: frame(), delay: 100 },
+          { indices: frame(6), delay: 100 },
+        ],
+        { width, height, colors: [BLUE, YELLOW], changedOnly: false }
+      );
+      const fcTL = chunks(file).filter((c) => c.type === 'fcTL')[1].data;
+      expect([4, 8, 12, 16].map((o) => u32(fcTL, o))).toEqual([4, 2, 0, 0]);
+    });
+  });
+});
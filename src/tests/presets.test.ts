@@ -0,0 +1,95 @@
+/**
+ * Tests for built-in presets and preset files
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_PRESETS,
+  presetName,
+  presetsToJSON,
+  parsePresetsJSON,
+  PRESET_FILE_FORMAT,
+  MAX_PRESET_NAME_LENGTH,
+} from '../lib/presets';
+import { PARAMS_VERSION } from '../lib/params';
+import { DEFAULT_PARAMS, PRESETS } from '../types';
+import type { KnitPreset } from '../types';
+
+const custom = (): KnitPreset => ({
+  id: 'preset-1',
+  name: 'Chunky',
+  params: { ...DEFAULT_PARAMS, stitchPx: 40, seed: 3 },
+});
+
+describe('presets', () => {
+  describe('BUILT_IN_PRESETS', () => {
+    it('should cover every built-in preset as read-only', () => {
+      expect(BUILT_IN_PRESETS.map((p) => p.id)).toEqual(Object.keys(PRESETS));
+      expect(BUILT_IN_PRESETS.every((p) => p.builtIn)).toBe(true);
+      expect(BUILT_IN_PRESETS[0].params).toEqual(PRESETS.classic);
+    });
+  });
+
+  describe('presetName', () => {
+    it('should trim and shorten names', () => {
+      expect(presetName('  Chunky  ')).toBe('Chunky');
+      expect(presetName('x'.repeat(100))).toHaveLength(MAX_PRESET_NAME_LENGTH);
+    });
+
+    it('should fall back for blank names', () => {
+      expect(presetName('   ')).toBe('Untitled preset');
+      expect(presetName('', 'Old name')).toBe('Old name');
+    });
+  });
+
+  describe('presetsToJSON', () => {
+    it('should write only custom presets, without ids', () => {
+      const file = JSON.parse(presetsToJSON([...BUILT_IN_PRESETS, custom()]));
+      expect(file.format).toBe(PRESET_FILE_FORMAT);
+      expect(file.presets).toEqual([{ name: 'Chunky', params: { version: PARAMS_VERSION, params: custom().params } }]);
+    });
+  });
+
+  describe('parsePresetsJSON', () => {
+    it('should round-trip custom presets with new ids', () => {
+      const [preset] = parsePresetsJSON(presetsToJSON([custom()]));
+      expect(preset.name).toBe('Chunky');
+      expect(preset.params).toEqual(custom().params);
+      expect(preset.id).not.toBe('preset-1');
+      expect(preset.builtIn).toBeUndefined();
+    });
+
+    it('should fill in missing and mistyped parameters', () => {
+      const text = JSON.stringify({
+        format: PRESET_FILE_FORMAT,
+        version: 1,
+        presets: [{ params: { stitchPx: 'big', seed: 9 } }],
+      });
+      const [preset] = parsePresetsJSON(text);
+      expect(preset.name).toBe('Imported preset 1');
+      expect(preset.params).toEqual({ ...DEFAULT_PARAMS, seed: 9 });
+    });
+
+    it('should migrate bare params from version 1 files', () => {
+      const { brandLock: _brandLock, ...params } = custom().params;
+      const text = JSON.stringify({
+        format: PRESET_FILE_FORMAT,
+        version: 1,
+        presets: [{ name: 'Old', params: { ...params, paletteMix: 0.5 } }],
+      });
+      const [preset] = parsePresetsJSON(text);
+      expect(preset.params).toEqual({ ...custom().params, paletteMix: 0.5, brandLock: true });
+    });
+
+    it('should reject files that are not preset files', () => {
+      expect(() => parsePresetsJSON('not json')).toThrow('not valid JSON');
+      expect(() => parsePresetsJSON('{"format":"other"}')).toThrow('Not a knit preset file');
+      expect(() => parsePresetsJSON(JSON.stringify({ format: PRESET_FILE_FORMAT, version: 99, presets: [] }))).toThrow(
+        'Unsupported'
+      );
+      expect(() => parsePresetsJSON(JSON.stringify({ format: PRESET_FILE_FORMAT, version: 1, presets: [null] }))).toThrow(
+        'Preset 1 has no parameters'
+      );
+    });
+  });
+});
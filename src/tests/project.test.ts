@@ -0,0 +1,99 @@
+/**
+ * Tests for knit project files
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  projectRecord,
+  projectToJSON,
+  parseProjectJSON,
+  readProjectRecord,
+  DEFAULT_PROJECT_EXPORT_SETTINGS,
+  PROJECT_FORMAT,
+} from '../lib/project';
+import type { KnitProject } from '../lib/project';
+import { createRenderSettings } from '../lib/settings';
+import { BUILT_IN_PALETTES } from '../lib/palette';
+import { DEFAULT_CROP, DEFAULT_PARAMS } from '../types';
+import type { KnitGrid } from '../types';
+
+const grid = (): KnitGrid => ({
+  cols: 2,
+  rows: 1,
+  background: [0, 0, 1],
+  palette: [
+    [0, 0, 1],
+    [1, 0, 0],
+  ],
+  cells: [[{ glyph: 'square', color: [1, 0, 0], colorIndex: 1, isEdge: false }, null]],
+});
+
+const project = (overrides: Partial<KnitProject> = {}): KnitProject => ({
+  settings: createRenderSettings(
+    { ...DEFAULT_PARAMS, stitchPx: 32, seed: 7 },
+    BUILT_IN_PALETTES[1],
+    { ...DEFAULT_CROP, zoom: 2 },
+    '4:5',
+    { width: 3, height: 2 }
+  ),
+  exportSettings: { ...DEFAULT_PROJECT_EXPORT_SETTINGS, exportSizePreset: 'custom', customExportWidth: 2000 },
+  source: new File([new Uint8Array([1, 2, 3, 250])], 'photo.png', { type: 'image/png' }),
+  importedGrid: null,
+  cellOverrides: { '3,4': { colorIndex: 2, glyph: 'circle' }, '0,0': null },
+  ...overrides,
+});
+
+describe('project', () => {
+  describe('projectToJSON / parseProjectJSON', () => {
+    it('should round-trip settings, export options and the source file', async () => {
+      const restored = parseProjectJSON(await projectToJSON(project()));
+      expect(restored.settings).toEqual(project().settings);
+      expect(restored.exportSettings).toEqual(project().exportSettings);
+      expect(restored.source?.name).toBe('photo.png');
+      expect(restored.source?.type).toBe('image/png');
+      expect(Array.from(new Uint8Array(await restored.source!.arrayBuffer()))).toEqual([1, 2, 3, 250]);
+      expect(restored.importedGrid).toBeNull();
+      expect(restored.cellOverrides).toEqual(project().cellOverrides);
+    });
+
+    it('should round-trip an imported grid', async () => {
+      const text = await projectToJSON(project({ source: null, importedGrid: { grid: grid(), names: ['Blue', 'Red'] } }));
+      const restored = parseProjectJSON(text);
+      expect(restored.source).toBeNull();
+      expect(restored.importedGrid?.grid).toEqual(grid());
+      expect(restored.importedGrid?.names).toEqual(['Blue', 'Red']);
+    });
+
+    it('should migrate params from before versioning', async () => {
+      const file = JSON.parse(await projectToJSON(project({ source: null })));
+      delete file.settings.paramsVersion;
+      delete file.settings.params.brandLock;
+      file.settings.params.paletteMix = 0.4;
+      expect(parseProjectJSON(JSON.stringify(file)).settings.params).toMatchObject({ paletteMix: 0.4, brandLock: true });
+    });
+
+    it('should fall back to default export options', async () => {
+      const file = JSON.parse(await projectToJSON(project({ source: null })));
+      file.exportSettings = { exportSizePreset: '16k', customExportWidth: 1e9, svgBackground: 'yes' };
+      expect(parseProjectJSON(JSON.stringify(file)).exportSettings).toEqual({
+        ...DEFAULT_PROJECT_EXPORT_SETTINGS,
+        customExportWidth: 8192,
+      });
+    });
+
+    it('should reject files that are not projects', () => {
+      expect(() => parseProjectJSON('not json')).toThrow('not valid JSON');
+      expect(() => parseProjectJSON('{"format":"other"}')).toThrow('Not a knit project file');
+      expect(() => parseProjectJSON(JSON.stringify({ format: PROJECT_FORMAT, version: 99 }))).toThrow('Unsupported');
+    });
+  });
+
+  describe('readProjectRecord', () => {
+    it('should restore an autosave record with its source file', () => {
+      const original = project();
+      const restored = readProjectRecord(projectRecord(original));
+      expect(restored.source).toBe(original.source);
+      expect(restored.settings).toEqual(original.settings);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Tests for deterministic randomness
+ */
+
+import { describe, it, expect } from 'vitest';
+import { cellRandom } from '../lib/random';
+
+describe('random', () => {
+  describe('cellRandom', () => {
+    it('should return the same value for the same inputs', () => {
+      expect(cellRandom(42, 3, 7)).toBe(cellRandom(42, 3, 7));
+    });
+
+    it('should vary with seed and coordinates', () => {
+      const base = cellRandom(42, 3, 7);
+      expect(cellRandom(43, 3, 7)).not.toBe(base);
+      expect(cellRandom(42, 4, 7)).not.toBe(base);
+      expect(cellRandom(42, 3, 8)).not.toBe(base);
+      expect(cellRandom(42, 7, 3)).not.toBe(base);
+    });
+
+    it('should return values in [0, 1) range', () => {
+      for (let x = 0; x < 20; x++) {
+        for (let y = 0; y < 20; y++) {
+          const value = cellRandom(1, x, y);
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThan(1);
+        }
+      }
+    });
+
+    it('should be roughly uniform', () => {
+      let sum = 0;
+      const count = 10000;
+      for (let i = 0; i < count; i++) {
+        sum += cellRandom(7, i % 100, Math.floor(i / 100));
+      }
+      expect(sum / count).toBeCloseTo(0.5, 1);
+    });
+  });
+});
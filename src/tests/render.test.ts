@@ -0,0 +1,170 @@
+/**
+ * Tests for grid computation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeKnitGrid } from '../lib/render';
+import { ACTIVE_PALETTE } from '../lib/palette';
+import { DEFAULT_PARAMS } from '../types';
+import type { KnitParams } from '../types';
+
+/**
+ * Build RGBA data filled with a single color
+ */
+function solidRGBA(cols: number, rows: number, rgb: [number, number, number], alpha = 255): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(cols * rows * 4);
+  for (let i = 0; i < cols * rows; i++) {
+    data[i * 4] = rgb[0];
+    data[i * 4 + 1] = rgb[1];
+    data[i * 4 + 2] = rgb[2];
+    data[i * 4 + 3] = alpha;
+  }
+  return data;
+}
+
+const params: KnitParams = { ...DEFAULT_PARAMS, dither: 0, edgeCrispness: 0 };
+
+describe('render', () => {
+  describe('computeKnitGrid', () => {
+    it('should return a grid with the requested dimensions', () => {
+      const grid = computeKnitGrid(solidRGBA(5, 3, [255, 242, 2]), 5, 3, params);
+      expect(grid.cols).toBe(5);
+      expect(grid.rows).toBe(3);
+      expect(grid.cells).toHaveLength(3);
+      expect(grid.cells[0]).toHaveLength(5);
+    });
+
+    it('should use the light blue as background', () => {
+      const grid = computeKnitGrid(solidRGBA(2, 2, [255, 242, 2]), 2, 2, params);
+      expect(grid.background).toEqual(ACTIVE_PALETTE[0]);
+    });
+
+    it('should leave transparent cells empty', () => {
+      const grid = computeKnitGrid(solidRGBA(4, 4, [255, 242, 2], 0), 4, 4, params);
+      expect(grid.cells.flat().every((cell) => cell === null)).toBe(true);
+    });
+
+    it('should leave background-colored cells empty', () => {
+      const grid = computeKnitGrid(solidRGBA(4, 4, [0x00, 0x52, 0xB0]), 4, 4, params);
+      expect(grid.cells.flat().every((cell) => cell === null)).toBe(true);
+    });
+
+    it('should checkerboard circles and squares for the prominent color', () => {
+      const grid = computeKnitGrid(solidRGBA(4, 4, [255, 242, 2]), 4, 4, params);
+      expect(grid.cells[0][0]?.glyph).toBe('circle');
+      expect(grid.cells[0][1]?.glyph).toBe('square');
+      expect(grid.cells[1][0]?.glyph).toBe('square');
+      expect(grid.cells[1][1]?.glyph).toBe('circle');
+      expect(grid.cells[0][0]?.color).toEqual(ACTIVE_PALETTE[2]);
+    });
+
+    it('should draw diamonds for non-prominent colors', () => {
+      const rgba = solidRGBA(4, 4, [255, 242, 2]);
+      // Single navy cell among yellow cells
+      rgba.set([0x01, 0x24, 0x64, 255], 0);
+      const grid = computeKnitGrid(rgba, 4, 4, params);
+      expect(grid.cells[0][0]?.glyph).toBe('diamond');
+      expect(grid.cells[0][0]?.color).toEqual(ACTIVE_PALETTE[1]);
+    });
+
+    it('should be deterministic for the same seed', () => {
+      // Vertical stripes produce edges so the seeded edge bias kicks in
+      const rgba = solidRGBA(16, 16, [255, 242, 2]);
+      for (let y = 0; y < 16; y++) {
+        for (let x = 0; x < 16; x += 4) {
+          rgba.set([0x01, 0x24, 0x64, 255], (y * 16 + x) * 4);
+        }
+      }
+      const edgy: KnitParams = { ...params, edgeCrispness: 1, seed: 7 };
+      const first = computeKnitGrid(rgba, 16, 16, edgy);
+      const second = computeKnitGrid(rgba, 16, 16, edgy);
+      expect(second).toEqual(first);
+    });
+
+    it('should quantize against a custom palette', () => {
+      const palette: [number, number, number][] = [[0, 0, 0], [1, 0, 0], [1, 1, 1]];
+      const grid = computeKnitGrid(solidRGBA(2, 2, [230, 20, 30]), 2, 2, params, palette);
+      expect(grid.background).toEqual([0, 0, 0]);
+      expect(grid.palette).toBe(palette);
+      expect(grid.cells[0][0]?.color).toEqual([1, 0, 0]);
+    });
+
+    it('should snap to palette colors under brand lock regardless of mix', () => {
+      const locked = computeKnitGrid(solidRGBA(2, 2, [200, 60, 40]), 2, 2, { ...params, paletteMix: 0.3 });
+      expect(ACTIVE_PALETTE).toContainEqual(locked.cells[0][0]?.color);
+    });
+
+    it('should blend towards the palette when brand lock is off', () => {
+      const blended = computeKnitGrid(
+        solidRGBA(2, 2, [240, 200, 40]),
+        2,
+        2,
+        { ...params, brandLock: false, paletteMix: 0.5 }
+      );
+      const cell = blended.cells[0][0];
+      expect(cell).not.toBeNull();
+      expect(ACTIVE_PALETTE).not.toContainEqual(cell?.color);
+      // Palette index still refers to the nearest brand color
+      expect(cell?.colorIndex).toBe(2);
+    });
+
+    it('should keep blended cells nearest the background when brand lock is off', () => {
+      // Close to the background blue but not equal to it, so the blend differs from the background
+      const unlocked = { ...params, brandLock: false };
+      const original = computeKnitGrid(solidRGBA(2, 2, [10, 90, 170]), 2, 2, { ...unlocked, paletteMix: 0 });
+      expect(original.cells[0][0]?.color).toEqual([10 / 255, 90 / 255, 170 / 255]);
+
+      const blended = computeKnitGrid(solidRGBA(2, 2, [10, 90, 170]), 2, 2, { ...unlocked, paletteMix: 0.5 });
+      expect(blended.cells.flat().every((cell) => cell !== null)).toBe(true);
+
+      const snapped = computeKnitGrid(solidRGBA(2, 2, [10, 90, 170]), 2, 2, { ...unlocked, paletteMix: 1 });
+      expect(snapped.cells.flat().every((cell) => cell === null)).toBe(true);
+    });
+
+    it('should mix palette colors across a gray gradient under every ordered dither mode', () => {
+      // Gray ramp (58% to 72%) that quantizes to the background blue without dither
+      const cols = 16;
+      const rows = 8;
+      const rgba = new Uint8ClampedArray(cols * rows * 4);
+      for (let i = 0; i < cols * rows; i++) {
+        const gray = Math.round((0.58 + (0.14 * (i % cols)) / (cols - 1)) * 255);
+        rgba.set([gray, gray, gray, 255], i * 4);
+      }
+      for (const ditherMode of ['bayer2', 'bayer4', 'bayer8', 'blue-noise'] as const) {
+        const grid = computeKnitGrid(rgba, cols, rows, { ...params, dither: 1, ditherMode });
+        const indices = new Set(grid.cells.flat().map((cell) => cell?.colorIndex ?? 0));
+        expect(indices.size, ditherMode).toBeGreaterThan(1);
+      }
+    });
+
+    it('should map glyphs by luminance bands', () => {
+      // Dark, mid and light grays all quantize to gray with a blue/gray palette
+      const palette: [number, number, number][] = [[0, 0, 1], [0.5, 0.5, 0.5]];
+      const rgba = solidRGBA(3, 1, [0, 0, 0]);
+      rgba.set([60, 60, 60, 255], 0);
+      rgba.set([130, 130, 130, 255], 4);
+      rgba.set([250, 250, 250, 255], 8);
+      const grid = computeKnitGrid(rgba, 3, 1, { ...params, glyphMapping: 'luminance', glyphT1: 0.3, glyphT2: 0.6 }, palette);
+      expect(grid.cells[0].map((cell) => cell?.glyph)).toEqual(['diamond', 'square', 'circle']);
+    });
+
+    it('should map glyphs by palette index and custom table', () => {
+      const rgba = solidRGBA(2, 1, [255, 242, 2]);
+      rgba.set([0x01, 0x24, 0x64, 255], 0);
+      const byIndex = computeKnitGrid(rgba, 2, 1, { ...params, glyphMapping: 'palette-index' });
+      expect(byIndex.cells[0].map((cell) => cell?.glyph)).toEqual(['square', 'circle']);
+
+      const custom = computeKnitGrid(rgba, 2, 1, {
+        ...params,
+        glyphMapping: 'custom',
+        glyphTable: ['diamond', 'circle', 'diamond'],
+      });
+      expect(custom.cells[0].map((cell) => cell?.glyph)).toEqual(['circle', 'diamond']);
+    });
+
+    it('should return an empty grid for zero dimensions', () => {
+      const grid = computeKnitGrid(new Uint8ClampedArray(0), 0, 0, params);
+      expect(grid.cells).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for the render worker client
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createRenderClient } from '../lib/renderWorker';
+import type { RenderWorkerLike, RenderWorkerRequest, RenderWorkerResponse } from '../lib/renderWorker';
+import { ACTIVE_PALETTE } from '../lib/palette';
+import { DEFAULT_PARAMS, DEFAULT_CROP } from '../types';
+
+/**
+ * Fake worker that records requests and lets tests reply
+ */
+function createFakeWorker() {
+  const requests: RenderWorkerRequest[] = [];
+  let listener: ((event: MessageEvent<RenderWorkerResponse>) => void) | null = null;
+
+  const worker: RenderWorkerLike = {
+    postMessage: (message) => {
+      requests.push(message);
+    },
+    addEventListener: (_type, handler) => {
+      listener = handler;
+    },
+    terminate: vi.fn(),
+  };
+
+  const reply = (message: RenderWorkerResponse) => {
+    listener?.({ data: message } as MessageEvent<RenderWorkerResponse>);
+  };
+
+  return { worker, requests, reply };
+}
+
+function fakeBitmap(): ImageBitmap {
+  return { close: vi.fn(), width: 1, height: 1 } as unknown as ImageBitmap;
+}
+
+describe('renderWorker', () => {
+  describe('createRenderClient', () => {
+    it('should post render requests and resolve with the returned frame', async () => {
+      const { worker, requests, reply } = createFakeWorker();
+      const client = createRenderClient(() => worker);
+
+      const promise = client.render(fakeBitmap(), DEFAULT_PARAMS, ACTIVE_PALETTE, 100, 100, DEFAULT_CROP);
+      const request = requests[0];
+      expect(request.type).toBe('render');
+
+      const frame = fakeBitmap();
+      reply({ type: 'frame', id: request.id, bitmap: frame });
+      await expect(promise).resolves.toBe(frame);
+    });
+
+    it('should resolve superseded renders to null and cancel them in the worker', async () => {
+      const { worker, requests, reply } = createFakeWorker();
+      const client = createRenderClient(() => worker);
+
+      const first = client.render(fakeBitmap(), DEFAULT_PARAMS, ACTIVE_PALETTE, 100, 100, DEFAULT_CROP);
+      const second = client.render(fakeBitmap(), { ...DEFAULT_PARAMS, stitchPx: 30 }, ACTIVE_PALETTE, 100, 100, DEFAULT_CROP);
+
+      await expect(first).resolves.toBeNull();
+      expect(requests.map((r) => r.type)).toEqual(['render', 'cancel', 'render']);
+
+      const frame = fakeBitmap();
+      reply({ type: 'frame', id: requests[2].id, bitmap: frame });
+      await expect(second).resolves.toBe(frame);
+    });
+
+    it('should close frames that arrive for stale requests', async () => {
+      const { worker, requests, reply } = createFakeWorker();
+      const client = createRenderClient(() => worker);
+
+      client.render(fakeBitmap(), DEFAULT_PARAMS, ACTIVE_PALETTE, 100, 100, DEFAULT_CROP);
+      client.cancel();
+
+      const stale = fakeBitmap();
+      reply({ type: 'frame', id: requests[0].id, bitmap: stale });
+      expect(stale.close).toHaveBeenCalled();
+    });
+
+    it('should resolve to null on worker errors', async () => {
+      const { worker, requests, reply } = createFakeWorker();
+      const client = createRenderClient(() => worker);
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const promise = client.render(fakeBitmap(), DEFAULT_PARAMS, ACTIVE_PALETTE, 100, 100, DEFAULT_CROP);
+      reply({ type: 'error', id: requests[0].id, message: 'boom' });
+
+      await expect(promise).resolves.toBeNull();
+      errorSpy.mockRestore();
+    });
+
+    it('should terminate the worker on dispose and reject new work', async () => {
+      const { worker } = createFakeWorker();
+      const client = createRenderClient(() => worker);
+
+      client.dispose();
+      expect(worker.terminate).toHaveBeenCalled();
+
+      const image = fakeBitmap();
+      await expect(client.render(image, DEFAULT_PARAMS, ACTIVE_PALETTE, 100, 100, DEFAULT_CROP)).resolves.toBeNull();
+      expect(image.close).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for render settings embedded in PNGs
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createRenderSettings,
+  parseRenderSettings,
+  settingsChunks,
+  readEmbeddedSettings,
+  blobToDataURL,
+  dataURLToBlob,
+  SETTINGS_FORMAT,
+} from '../lib/settings';
+import { insertChunks, pngChunk, PNG_SIGNATURE } from '../lib/png';
+import { BUILT_IN_PALETTES } from '../lib/palette';
+import { PARAMS_VERSION } from '../lib/params';
+import { DEFAULT_CROP, DEFAULT_PARAMS } from '../types';
+
+const png = () =>
+  new Uint8Array([...PNG_SIGNATURE, ...pngChunk('IHDR', new Uint8Array(13)), ...pngChunk('IEND', new Uint8Array(0))]);
+
+const settings = () =>
+  createRenderSettings(
+    { ...DEFAULT_PARAMS, stitchPx: 32, seed: 7 },
+    BUILT_IN_PALETTES[1],
+    { ...DEFAULT_CROP, zoom: 2, rotation: 90 },
+    '4:5',
+    { width: 3, height: 2 }
+  );
+
+describe('settings', () => {
+  describe('createRenderSettings', () => {
+    it('should tag the settings and drop the built-in flag', () => {
+      const result = settings();
+      expect(result.format).toBe(SETTINGS_FORMAT);
+      expect(result.appVersion).toMatch(/^\d+\.\d+\.\d+/);
+      expect(result.palette.builtIn).toBeUndefined();
+    });
+  });
+
+  describe('parseRenderSettings', () => {
+    it('should round-trip settings', () => {
+      const original = settings();
+      expect(parseRenderSettings(JSON.stringify(original))).toEqual(original);
+    });
+
+    it('should fill missing or mistyped fields from the defaults', () => {
+      const data = { ...settings(), params: { stitchPx: '12', seed: 3 }, crop: undefined, aspectPreset: 'nope' };
+      const result = parseRenderSettings(JSON.stringify(data));
+      expect(result.params).toEqual({ ...DEFAULT_PARAMS, seed: 3 });
+      expect(result.crop).toEqual(DEFAULT_CROP);
+      expect(result.aspectPreset).toBe('1:1');
+    });
+
+    it('should migrate params from before params versioning', () => {
+      const { paramsVersion: _version, ...data } = settings();
+      const { brandLock: _brandLock, ...params } = data.params;
+      const result = parseRenderSettings(JSON.stringify({ ...data, params: { ...params, paletteMix: 0.4 } }));
+      expect(result.paramsVersion).toBe(PARAMS_VERSION);
+      expect(result.params).toMatchObject({ stitchPx: 32, paletteMix: 0.4, brandLock: true });
+    });
+
+    it('should reject other documents and invalid palettes', () => {
+      expect(() => parseRenderSettings('{')).toThrow('not valid JSON');
+      expect(() => parseRenderSettings('{"format":"other"}')).toThrow('Not knit render settings');
+      expect(() => parseRenderSettings(JSON.stringify({ ...settings(), version: 99 }))).toThrow('version');
+
+      const palette = { ...settings().palette, swatches: [{ name: 'Bad', hex: 'zz', enabled: true }] };
+      expect(() => parseRenderSettings(JSON.stringify({ ...settings(), palette }))).toThrow('palette');
+    });
+  });
+
+  describe('readEmbeddedSettings', () => {
+    it('should read settings and source back from a PNG', () => {
+      const source = 'data:image/jpeg;base64,AAEC';
+      const file = insertChunks(png(), settingsChunks(settings(), source));
+      expect(readEmbeddedSettings(file)).toEqual({ settings: settings(), source });
+    });
+
+    it('should return null for a PNG without settings', () => {
+      expect(readEmbeddedSettings(png())).toBeNull();
+    });
+  });
+
+  describe('data URLs', () => {
+    it('should round-trip bytes and media type', async () => {
+      const bytes = new Uint8Array([0, 1, 2, 250, 255]);
+      const url = await blobToDataURL(new Blob([bytes], { type: 'image/png' }));
+      expect(url).toBe('data:image/png;base64,AAEC+v8=');
+
+      const blob = dataURLToBlob(url);
+      expect(blob.type).toBe('image/png');
+      expect(Array.from(new Uint8Array(await blob.arrayBuffer()))).toEqual(Array.from(bytes));
+    });
+
+    it('should reject non-base64 URLs', () => {
+      expect(() => dataURLToBlob('data:text/plain,hi')).toThrow('base64');
+    });
+  });
+});
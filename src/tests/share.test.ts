@@ -0,0 +1,107 @@
+/**
+ * Tests for shareable settings links
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { encodeShareHash, decodeShareHash, shareURL } from '../lib/share';
+import { createRenderSettings } from '../lib/settings';
+import { BUILT_IN_PALETTES } from '../lib/palette';
+import { PARAMS_VERSION } from '../lib/params';
+import { DEFAULT_CROP, DEFAULT_PARAMS } from '../types';
+import type { BrandPalette } from '../types';
+
+const customPalette: BrandPalette = {
+  id: 'palette-1',
+  name: 'Café',
+  swatches: [
+    { name: 'Espresso', hex: '#3B2314', enabled: true },
+    { name: 'Milk', hex: '#F5EBDC', enabled: false },
+    { name: 'Crema', hex: '#C8963E', enabled: true },
+  ],
+};
+
+/** Decode the JSON payload of a share hash */
+const payloadOf = (hash: string) => JSON.parse(atob(hash.slice(2).replace(/-/g, '+').replace(/_/g, '/')));
+
+/** Share hash for a raw payload */
+const hashOf = (payload: object) => `#s=${btoa(JSON.stringify(payload))}`;
+
+const settings = (palette: BrandPalette = BUILT_IN_PALETTES[1]) =>
+  createRenderSettings(
+    { ...DEFAULT_PARAMS, dither: 0.34, ditherMode: 'atkinson', glyphT1: 0.49000000000000005 },
+    palette,
+    { ...DEFAULT_CROP, zoom: 1.5, flipH: true },
+    'custom',
+    { width: 7, height: 3 }
+  );
+
+describe('share', () => {
+  describe('encodeShareHash / decodeShareHash', () => {
+    it('should round-trip settings with a built-in palette', () => {
+      const restored = decodeShareHash(`#${encodeShareHash(settings())}`)!;
+      expect(restored.params).toEqual({ ...settings().params, glyphT1: 0.49 });
+      expect(restored.palette).toEqual(settings().palette);
+      expect(restored.crop).toEqual(settings().crop);
+      expect(restored.aspectPreset).toBe('custom');
+      expect(restored.customAspect).toEqual({ width: 7, height: 3 });
+    });
+
+    it('should round-trip a custom palette', () => {
+      const restored = decodeShareHash(encodeShareHash(settings(customPalette)))!;
+      expect(restored.palette.name).toBe('Café');
+      expect(restored.palette.swatches).toEqual(customPalette.swatches);
+    });
+
+    it('should write every param with its version, rounded', () => {
+      const hash = encodeShareHash(settings());
+      expect(hash).toMatch(/^s=[A-Za-z0-9_-]+$/);
+      expect(hash.length).toBeLessThan(1000);
+
+      const payload = payloadOf(hash);
+      expect(payload.v).toBe(PARAMS_VERSION);
+      expect(Object.keys(payload.p)).toEqual(Object.keys(DEFAULT_PARAMS));
+      expect(payload.p.glyphT1).toBe(0.49);
+    });
+
+    describe('with changed defaults', () => {
+      const originalDefaults = { ...DEFAULT_PARAMS };
+      afterEach(() => {
+        Object.assign(DEFAULT_PARAMS, originalDefaults);
+      });
+
+      it('should keep the look the link was made with', () => {
+        const defaults = createRenderSettings(DEFAULT_PARAMS, BUILT_IN_PALETTES[0], DEFAULT_CROP, '1:1', { width: 3, height: 2 });
+        const hash = encodeShareHash(defaults);
+        Object.assign(DEFAULT_PARAMS, { stitchPx: 30, dither: 0.8, glyphMapping: 'luminance' });
+        expect(decodeShareHash(hash)!.params).toEqual(originalDefaults);
+      });
+    });
+
+    it('should migrate params from older links before filling in defaults', () => {
+      const palette = BUILT_IN_PALETTES[0].id;
+      const unversioned = decodeShareHash(hashOf({ c: palette, a: '1:1', p: { paletteMix: 0.5, seed: 8 } }))!;
+      expect(unversioned.params).toEqual({ ...DEFAULT_PARAMS, paletteMix: 0.5, seed: 8, brandLock: true });
+
+      const current = decodeShareHash(hashOf({ v: PARAMS_VERSION, c: palette, a: '1:1', p: { brandLock: false } }))!;
+      expect(current.params.brandLock).toBe(false);
+    });
+
+    it('should return null when the hash carries no settings', () => {
+      expect(decodeShareHash('')).toBeNull();
+      expect(decodeShareHash('#other=1')).toBeNull();
+    });
+
+    it('should reject damaged links', () => {
+      expect(() => decodeShareHash('#s=%%%')).toThrow('damaged');
+      expect(() => decodeShareHash(`#s=${btoa('{"v":1,"c":"nope","a":"1:1"}')}`)).toThrow('unknown palette');
+    });
+  });
+
+  describe('shareURL', () => {
+    it('should replace any existing hash', () => {
+      const url = shareURL(settings(), 'https://example.com/knit/?x=1#old');
+      expect(url.startsWith('https://example.com/knit/?x=1#s=')).toBe(true);
+      expect(decodeShareHash(new URL(url).hash)).not.toBeNull();
+    });
+  });
+});
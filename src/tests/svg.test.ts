@@ -0,0 +1,80 @@
+/**
+ * Tests for SVG export
+ */
+
+import { describe, it, expect } from 'vitest';
+import { knitGridToSVG } from '../lib/svg';
+import type { KnitGrid, RGB } from '../types';
+
+const BLUE: RGB = [0, 0, 1];
+const RED: RGB = [1, 0, 0];
+const WHITE: RGB = [1, 1, 1];
+
+/**
+ * 2×2 grid: red square, white circle / red diamond, empty
+ */
+function sampleGrid(): KnitGrid {
+  return {
+    cols: 2,
+    rows: 2,
+    background: BLUE,
+    palette: [BLUE, RED, WHITE],
+    cells: [
+      [
+        { glyph: 'square', color: RED, colorIndex: 1, isEdge: false },
+        { glyph: 'circle', color: WHITE, colorIndex: 2, isEdge: false },
+      ],
+      [{ glyph: 'diamond', color: RED, colorIndex: 1, isEdge: true }, null],
+    ],
+  };
+}
+
+/**
+ * Count occurrences of a substring
+ */
+function count(text: string, search: string): number {
+  return text.split(search).length - 1;
+}
+
+describe('svg', () => {
+  describe('knitGridToSVG', () => {
+    it('should emit one shape per glyph', () => {
+      const svg = knitGridToSVG(sampleGrid(), 100, 100);
+      expect(count(svg, '<rect x=')).toBe(1);
+      expect(count(svg, '<circle')).toBe(1);
+      expect(count(svg, '<polygon')).toBe(1);
+    });
+
+    it('should group glyphs by color', () => {
+      const svg = knitGridToSVG(sampleGrid(), 100, 100);
+      expect(count(svg, '<g id="color-')).toBe(2);
+      const red = svg.slice(svg.indexOf('fill="#FF0000"'), svg.indexOf('</g>', svg.indexOf('fill="#FF0000"')));
+      expect(red).toContain('<rect');
+      expect(red).toContain('<polygon');
+    });
+
+    it('should lay glyphs out at the document size', () => {
+      const svg = knitGridToSVG(sampleGrid(), 200, 100);
+      expect(svg).toContain('viewBox="0 0 200 100"');
+      // Cell (1, 0) is centred at (150, 25); glyph size is 80% of the 50px cell height
+      expect(svg).toContain('<circle cx="150" cy="25" r="20"/>');
+      expect(svg).toContain('<polygon points="50,55 70,75 50,95 30,75"/>');
+    });
+
+    it('should include the background unless disabled', () => {
+      expect(knitGridToSVG(sampleGrid(), 100, 100)).toContain('<rect id="background" width="100" height="100" fill="#0000FF"/>');
+      expect(knitGridToSVG(sampleGrid(), 100, 100, { background: false })).not.toContain('id="background"');
+    });
+
+    it('should add a grid-line layer when requested', () => {
+      expect(knitGridToSVG(sampleGrid(), 100, 100)).not.toContain('grid-lines');
+      const svg = knitGridToSVG(sampleGrid(), 100, 100, { gridLines: true });
+      expect(count(svg, '<line')).toBe(6);
+    });
+
+    it('should scale the grid-line width like the PNG export', () => {
+      expect(knitGridToSVG(sampleGrid(), 100, 100, { gridLines: true })).toContain('stroke-width="1"');
+      expect(knitGridToSVG(sampleGrid(), 100, 100, { gridLines: true, lineWidth: 3 })).toContain('stroke-width="3"');
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for animated WebP muxing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { muxAnimatedWebP, webpImageChunks } from '../lib/webp';
+
+/**
+ * RIFF chunk bytes
+ */
+function riffChunk(type: string, payload: number[]): number[] {
+  const size = payload.length;
+  const padding = size % 2 ? [0] : [];
+  return [...Array.from(type, (c) => c.charCodeAt(0)), size & 0xff, (size >> 8) & 0xff, 0, 0, ...payload, ...padding];
+}
+
+/**
+ * Still WebP file made of the given chunks
+ */
+function stillWebP(...parts: number[][]): Uint8Array {
+  const body = parts.flat();
+  const size = body.length + 4;
+  return new Uint8Array([
+    ...Array.from('RIFF', (c) => c.charCodeAt(0)),
+    size & 0xff,
+    (size >> 8) & 0xff,
+    0,
+    0,
+    ...Array.from('WEBP', (c) => c.charCodeAt(0)),
+    ...body,
+  ]);
+}
+
+// Fake lossless bitstreams: signature byte + header word (alpha bit 28 set or clear)
+const OPAQUE_VP8L = riffChunk('VP8L', [0x2f, 0, 0, 0, 0x00, 7]);
+const ALPHA_VP8L = riffChunk('VP8L', [0x2f, 0, 0, 0, 0x10, 7, 9]);
+
+const ascii = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+const u24 = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+const u32 = (bytes: Uint8Array, offset: number) => new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, true);
+
+/**
+ * List the top-level chunks of a RIFF file
+ */
+function chunks(file: Uint8Array): { type: string; offset: number; size: number }[] {
+  const result = [];
+  for (let offset = 12; offset < file.length; ) {
+    const size = u32(file, offset + 4);
+    result.push({ type: ascii(file, offset), offset, size });
+    offset += 8 + size + (size % 2);
+  }
+  return result;
+}
+
+describe('webp', () => {
+  describe('webpImageChunks', () => {
+    it('should keep image chunks and drop the rest', () => {
+      const file = stillWebP(riffChunk('VP8X', new Array(10).fill(0)), OPAQUE_VP8L, riffChunk('EXIF', [1, 2]));
+      const { data, alpha } = webpImageChunks(file);
+      expect(Array.from(data)).toEqual(OPAQUE_VP8L);
+      expect(alpha).toBe(false);
+    });
+
+    it('should detect alpha from ALPH chunks and the lossless header', () => {
+      expect(webpImageChunks(stillWebP(ALPHA_VP8L)).alpha).toBe(true);
+      expect(webpImageChunks(stillWebP(riffChunk('ALPH', [0]), riffChunk('VP8 ', [1, 2]))).alpha).toBe(true);
+    });
+
+    it('should reject other files', () => {
+      expect(() => webpImageChunks(new Uint8Array(20))).toThrow('Not a WebP file');
+      expect(() => webpImageChunks(stillWebP(riffChunk('EXIF', [1])))).toThrow('no image data');
+    });
+  });
+
+  describe('muxAnimatedWebP', () => {
+    const file = muxAnimatedWebP(
+      [
+        { x: 0, y: 0, width: 6, height: 4, duration: 100, image: stillWebP(OPAQUE_VP8L) },
+        { x: 2, y: 2, width: 3, height: 1, duration: 250, image: stillWebP(OPAQUE_VP8L) },
+      ],
+      { width: 6, height: 4, loopCount: 2 }
+    );
+
+    it('should write a RIFF container with VP8X, ANIM and one ANMF per frame', () => {
+      expect(ascii(file, 0)).toBe('RIFF');
+      expect(u32(file, 4)).toBe(file.length - 8);
+      expect(ascii(file, 8)).toBe('WEBP');
+      expect(chunks(file).map((c) => c.type)).toEqual(['VP8X', 'ANIM', 'ANMF', 'ANMF']);
+    });
+
+    it('should flag animation and record the canvas size and loop count', () => {
+      const [vp8x, anim] = chunks(file);
+      expect(file[vp8x.offset + 8]).toBe(0x02);
+      expect(u24(file, vp8x.offset + 12) + 1).toBe(6);
+      expect(u24(file, vp8x.offset + 15) + 1).toBe(4);
+      expect(file[anim.offset + 12] | (file[anim.offset + 13] << 8)).toBe(2);
+    });
+
+    it('should place frames and embed their image data', () => {
+      const anmf = chunks(file)[3];
+      const at = anmf.offset + 8;
+      expect([u24(file, at) * 2, u24(file, at + 3) * 2]).toEqual([2, 2]);
+      expect([u24(file, at + 6) + 1, u24(file, at + 9) + 1]).toEqual([3, 1]);
+      expect(u24(file, at + 12)).toBe(250);
+      expect(Array.from(file.subarray(at + 16, at + 16 + OPAQUE_VP8L.length))).toEqual(OPAQUE_VP8L);
+    });
+
+    it('should reject odd offsets and frames outside the canvas', () => {
+      const image = stillWebP(OPAQUE_VP8L);
+      expect(() => muxAnimatedWebP([{ x: 1, y: 0, width: 1, height: 1, duration: 1, image }], { width: 4, height: 4 })).toThrow(
+        'even'
+      );
+      expect(() => muxAnimatedWebP([{ x: 2, y: 0, width: 4, height: 1, duration: 1, image }], { width: 4, height: 4 })).toThrow(
+        'past the canvas'
+      );
+    });
+  });
+});
@@ -5,20 +5,126 @@
 /** Glyph shapes available for rendering */
 export type GlyphType = 'diamond' | 'square' | 'circle';
 
+/**
+ * Glyph mapping strategy
+ * - checkerboard: prominent color → circle/square checkerboard, other colors → diamond
+ * - luminance: luminance bands split by thresholds t1/t2 (diamond / square / circle)
+ * - palette-index: glyph cycles with the palette color index
+ * - custom: user-defined palette color → glyph table
+ */
+export type GlyphMapping = 'checkerboard' | 'luminance' | 'palette-index' | 'custom';
+
+/** 2D drawing context - on-screen canvas or OffscreenCanvas (e.g. in a worker) */
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
 /** RGB color as a tuple of three numbers in [0, 1] range */
 export type RGB = [number, number, number];
 
-/** Preset configuration names */
+/** Color distance metric used to match colors to the palette */
+export type ColorMetric = 'linear-rgb' | 'oklab' | 'ciede2000';
+
+/**
+ * Dither algorithm
+ * Ordered: bayer2/4/8, blue-noise; error diffusion: floyd-steinberg, atkinson, sierra-lite
+ */
+export type DitherMode =
+  | 'bayer2'
+  | 'bayer4'
+  | 'bayer8'
+  | 'blue-noise'
+  | 'floyd-steinberg'
+  | 'atkinson'
+  | 'sierra-lite';
+
+/** A single color entry in a brand palette */
+export interface PaletteSwatch {
+  /** Display name of the color */
+  name: string;
+  /** Hex color string, e.g. '#0052B0' */
+  hex: string;
+  /** Whether the swatch is used for quantization */
+  enabled: boolean;
+}
+
+/** Named brand palette (2–16 swatches) */
+export interface BrandPalette {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Palette swatches; the first enabled swatch is the background */
+  swatches: PaletteSwatch[];
+  /** Built-in palettes are read-only */
+  builtIn?: boolean;
+}
+
+/** Canvas aspect ratio presets */
+export type AspectRatioPreset = '1:1' | '4:5' | '9:16' | '16:9' | 'a4-portrait' | 'a4-landscape' | 'custom';
+
+/** Export resolution presets (short edge 1080/2160, 4K long edge, or a custom width) */
+export type ExportSizePreset = '1080' | '2160' | '4k' | 'custom';
+
+/** Source rotation in clockwise 90° steps */
+export type CropRotation = 0 | 90 | 180 | 270;
+
+/**
+ * Source crop and orientation
+ * The crop rectangle always has the canvas aspect ratio; it is derived from
+ * the focal point and zoom in the rotated/flipped source
+ */
+export interface CropSettings {
+  /** Focal point x, normalized to the oriented source (0-1) */
+  focusX: number;
+  /** Focal point y, normalized to the oriented source (0-1) */
+  focusY: number;
+  /** 1 = largest crop that fits the source; higher values crop tighter */
+  zoom: number;
+  /** Clockwise rotation applied to the source */
+  rotation: CropRotation;
+  /** Mirror horizontally (after rotation) */
+  flipH: boolean;
+  /** Mirror vertically (after rotation) */
+  flipV: boolean;
+}
+
+/** Default crop: centred, uncropped beyond the aspect ratio, no rotation */
+export const DEFAULT_CROP: CropSettings = {
+  focusX: 0.5,
+  focusY: 0.5,
+  zoom: 1,
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+};
+
+/** Built-in preset names */
 export type PresetName = 'classic' | 'airy' | 'quilted';
 
+/** Named set of knit parameters */
+export interface KnitPreset {
+  /** Unique identifier (built-ins use their PresetName) */
+  id: string;
+  /** Display name */
+  name: string;
+  params: KnitParams;
+  /** Built-in presets are read-only */
+  builtIn?: boolean;
+}
+
 /** Knit grid parameters */
 export interface KnitParams {
   /** Grid cell size in pixels */
   stitchPx: number;
-  /** Palette mix amount (0 = original colors, 1 = full brand colors) */
+  /** Palette mix amount (0 = original colors, 1 = full brand colors); ignored under brand lock */
   paletteMix: number;
+  /** Brand lock: snap every cell to an exact palette color */
+  brandLock: boolean;
+  /** Color distance metric for palette matching */
+  colorMetric: ColorMetric;
   /** Dither amount (0 = no dither, 1 = full dither) */
   dither: number;
+  /** Dither algorithm */
+  ditherMode: DitherMode;
   /** Contrast multiplier (0.5 to 1.5) */
   contrast: number;
   /** Saturation multiplier (0 to 2) */
@@ -27,17 +133,38 @@ export interface KnitParams {
   edgeCrispness: number;
   /** Show grid lines */
   showGridLines: boolean;
+  /** Seed for the edge-bias randomness (same seed = same mosaic) */
+  seed: number;
+  /** Glyph mapping strategy */
+  glyphMapping: GlyphMapping;
+  /** Lower luminance threshold (below = diamond) for the luminance mapping */
+  glyphT1: number;
+  /** Upper luminance threshold (above = circle) for the luminance mapping */
+  glyphT2: number;
+  /** Compute luminance thresholds from the image histogram instead of t1/t2 */
+  autoThresholds: boolean;
+  /** Glyph per palette color index for the custom mapping */
+  glyphTable: GlyphType[];
 }
 
 /** Default parameters */
 export const DEFAULT_PARAMS: KnitParams = {
   stitchPx: 20,
   paletteMix: 1.0, // Always use palette colors by default
+  brandLock: true,
+  colorMetric: 'linear-rgb',
   dither: 0.3,
+  ditherMode: 'bayer4',
   contrast: 1.0,
   saturation: 1.0,
   edgeCrispness: 0.2,
   showGridLines: false,
+  seed: 1,
+  glyphMapping: 'checkerboard',
+  glyphT1: 0.2,
+  glyphT2: 0.5,
+  autoThresholds: false,
+  glyphTable: ['diamond', 'square', 'circle'],
 };
 
 /** Preset configurations */
@@ -45,29 +172,56 @@ export const PRESETS: Record<PresetName, KnitParams> = {
   classic: {
     stitchPx: 20,
     paletteMix: 1.0, // Always use palette colors
+    brandLock: true,
+    colorMetric: 'linear-rgb',
     dither: 0.3,
+    ditherMode: 'bayer4',
     contrast: 1.1,
     saturation: 1.2,
     edgeCrispness: 0.2,
     showGridLines: false,
+    seed: 1,
+    glyphMapping: 'checkerboard',
+    glyphT1: 0.2,
+    glyphT2: 0.5,
+    autoThresholds: false,
+    glyphTable: ['diamond', 'square', 'circle'],
   },
   airy: {
     stitchPx: 24,
     paletteMix: 1.0, // Always use palette colors
+    brandLock: true,
+    colorMetric: 'linear-rgb',
     dither: 0.2,
+    ditherMode: 'bayer4',
     contrast: 1.0,
     saturation: 1.0,
     edgeCrispness: 0.1,
     showGridLines: false,
+    seed: 1,
+    glyphMapping: 'checkerboard',
+    glyphT1: 0.2,
+    glyphT2: 0.5,
+    autoThresholds: false,
+    glyphTable: ['diamond', 'square', 'circle'],
   },
   quilted: {
     stitchPx: 18,
     paletteMix: 1.0, // Always use palette colors
+    brandLock: true,
+    colorMetric: 'linear-rgb',
     dither: 0.35,
+    ditherMode: 'bayer4',
     contrast: 1.15,
     saturation: 1.1,
     edgeCrispness: 0.2,
     showGridLines: true,
+    seed: 1,
+    glyphMapping: 'checkerboard',
+    glyphT1: 0.2,
+    glyphT2: 0.5,
+    autoThresholds: false,
+    glyphTable: ['diamond', 'square', 'circle'],
   },
 };
 
@@ -77,6 +231,22 @@ export interface CellData {
   glyph: GlyphType;
   /** Color to use (RGB in [0, 1]) */
   color: RGB;
+  /** Index of the nearest palette color */
+  colorIndex: number;
   /** Whether this cell is on an edge */
   isEdge: boolean;
 }
+
+/** Computed knit grid - everything needed to paint a frame, without a canvas */
+export interface KnitGrid {
+  /** Number of columns */
+  cols: number;
+  /** Number of rows */
+  rows: number;
+  /** Background color behind the glyphs (RGB in [0, 1]) */
+  background: RGB;
+  /** Palette colors the grid was quantized against */
+  palette: RGB[];
+  /** Cells indexed as cells[y][x]; null where the background shows through */
+  cells: (CellData | null)[][];
+}
@@ -0,0 +1,78 @@
+/**
+ * Render worker - runs sampling, edge detection and glyph drawing off the main thread
+ * Only the newest queued request is rendered; older ones are reported as cancelled
+ */
+
+import { renderKnitFrame } from '../lib/render';
+import type { RenderWorkerRequest, RenderWorkerResponse } from '../lib/renderWorker';
+
+type RenderJob = Extract<RenderWorkerRequest, { type: 'render' }>;
+
+const workerScope = self as unknown as {
+  postMessage(message: RenderWorkerResponse, transfer: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<RenderWorkerRequest>) => void): void;
+};
+
+let queued: RenderJob | null = null;
+let scheduled = false;
+let canvas: OffscreenCanvas | null = null;
+
+/**
+ * Drop the queued job and release its source frame
+ */
+function dropQueued(): void {
+  if (!queued) return;
+  queued.image.close();
+  workerScope.postMessage({ type: 'cancelled', id: queued.id }, []);
+  queued = null;
+}
+
+/**
+ * Render the queued job
+ * Runs from a macrotask so messages that arrived meanwhile can supersede it first
+ */
+function processQueued(): void {
+  scheduled = false;
+  const job = queued;
+  queued = null;
+  if (!job) return;
+
+  try {
+    if (!canvas || canvas.width !== job.width || canvas.height !== job.height) {
+      canvas = new OffscreenCanvas(job.width, job.height);
+    }
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get 2D context in render worker');
+    }
+
+    renderKnitFrame(ctx, job.image, job.params, job.width, job.height, job.palette, job.crop, job.overrides);
+    const bitmap = canvas.transferToImageBitmap();
+    workerScope.postMessage({ type: 'frame', id: job.id, bitmap }, [bitmap]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    workerScope.postMessage({ type: 'error', id: job.id, message }, []);
+  } finally {
+    job.image.close();
+  }
+}
+
+workerScope.addEventListener('message', (event) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    if (queued && queued.id <= request.id) {
+      dropQueued();
+    }
+    return;
+  }
+
+  // Newer request replaces anything still waiting
+  dropQueued();
+  queued = request;
+
+  if (!scheduled) {
+    scheduled = true;
+    setTimeout(processQueued, 0);
+  }
+});